@@ -0,0 +1,189 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import { FileInfo, ReadLimits, WorkspaceAnalysis } from './types';
+
+// Saves are written after this long without another save of the same root, so a burst of edits is one write
+const SAVE_DELAY_MS = 5000;
+
+// Bump when the stored layout or the meaning of FileInfo changes
+const STORE_VERSION = 6;
+
+export interface StoredAnalysis {
+	version: number;
+	workspaceName: string;
+	workspaceRoot: string;
+	maxBytesPerFile: number;
+	maxChunkedFileBytes: number;
+	// Redaction rules the stored content was scanned with
+	redaction: string;
+	savedAt: number;
+	files: FileInfo[];
+}
+
+export interface StoredAnalysisEntry {
+	uri: vscode.Uri;
+	workspaceName: string;
+	workspaceRoot: string;
+	fileCount: number;
+	savedAt: number;
+	bytes: number;
+}
+
+// Persists workspace analyses in the extension's workspace storage, one file per root
+export class AnalysisStore {
+	private readonly _directory: vscode.Uri | undefined;
+	// Saves waiting for SAVE_DELAY_MS, by file
+	private _pending: Map<string, { timer: NodeJS.Timeout; write: () => Promise<void> }> = new Map();
+	private _writing: Promise<void> = Promise.resolve();
+
+	constructor(storageUri: vscode.Uri | undefined) {
+		this._directory = storageUri ? vscode.Uri.joinPath(storageUri, 'analysis') : undefined;
+	}
+
+	public get enabled(): boolean {
+		return this._directory !== undefined;
+	}
+
+	// Load the stored analysis for a root; stale layouts, read limits and redaction rules are ignored
+	public async load(workspaceRoot: string, limits: ReadLimits, redaction: string): Promise<StoredAnalysis | undefined> {
+		const uri = this._uriFor(workspaceRoot);
+		if (!uri) {
+			return undefined;
+		}
+
+		try {
+			const content = await vscode.workspace.fs.readFile(uri);
+			const stored = JSON.parse(Buffer.from(content).toString('utf-8')) as StoredAnalysis;
+			if (stored.version !== STORE_VERSION || stored.workspaceRoot !== workspaceRoot || stored.maxBytesPerFile !== limits.maxBytesPerFile
+				|| stored.maxChunkedFileBytes !== limits.maxChunkedFileBytes || stored.redaction !== redaction) {
+				return undefined;
+			}
+			return stored;
+		} catch (err) {
+			// Nothing stored yet, or the file is unreadable
+			return undefined;
+		}
+	}
+
+	public async save(analysis: WorkspaceAnalysis, limits: ReadLimits, redaction: string): Promise<void> {
+		const uri = this._uriFor(analysis.workspaceRoot);
+		if (!this._directory || !uri) {
+			return;
+		}
+
+		const stored: StoredAnalysis = {
+			version: STORE_VERSION,
+			workspaceName: analysis.workspaceName,
+			workspaceRoot: analysis.workspaceRoot,
+			maxBytesPerFile: limits.maxBytesPerFile,
+			maxChunkedFileBytes: limits.maxChunkedFileBytes,
+			redaction,
+			savedAt: Date.now(),
+			files: analysis.files
+		};
+		await vscode.workspace.fs.createDirectory(this._directory);
+		await vscode.workspace.fs.writeFile(uri, Buffer.from(JSON.stringify(stored), 'utf-8'));
+	}
+
+	// Save once no newer analysis of the root arrives for SAVE_DELAY_MS; the whole file is rewritten each
+	// time, so incremental updates are batched. Writes run one after another, so an older one never lands last.
+	public scheduleSave(analysis: WorkspaceAnalysis, limits: ReadLimits, redaction: string, onError: (error: unknown) => void): void {
+		const uri = this._uriFor(analysis.workspaceRoot);
+		if (!uri) {
+			return;
+		}
+		const key = uri.toString();
+		this._cancel(key);
+		const write = () => {
+			this._pending.delete(key);
+			const done = this._writing.then(() => this.save(analysis, limits, redaction));
+			this._writing = done.catch(() => undefined);
+			return done.catch(onError);
+		};
+		this._pending.set(key, { timer: setTimeout(write, SAVE_DELAY_MS), write });
+	}
+
+	// Write the saves still waiting, e.g. before the window closes
+	public async flush(): Promise<void> {
+		const pending = Array.from(this._pending.values());
+		pending.forEach(entry => clearTimeout(entry.timer));
+		await Promise.all(pending.map(entry => entry.write()));
+	}
+
+	public async list(): Promise<StoredAnalysisEntry[]> {
+		if (!this._directory) {
+			return [];
+		}
+
+		let children: [string, vscode.FileType][];
+		try {
+			children = await vscode.workspace.fs.readDirectory(this._directory);
+		} catch (err) {
+			return [];
+		}
+
+		const entries: StoredAnalysisEntry[] = [];
+		for (const [name, type] of children) {
+			if (type !== vscode.FileType.File || !name.endsWith('.json')) {
+				continue;
+			}
+			const uri = vscode.Uri.joinPath(this._directory, name);
+			try {
+				const content = await vscode.workspace.fs.readFile(uri);
+				const stored = JSON.parse(Buffer.from(content).toString('utf-8')) as StoredAnalysis;
+				entries.push({
+					uri,
+					workspaceName: stored.workspaceName,
+					workspaceRoot: stored.workspaceRoot,
+					fileCount: stored.files?.length ?? 0,
+					savedAt: stored.savedAt,
+					bytes: content.byteLength
+				});
+			} catch (err) {
+				// Unreadable leftovers are still listed so they can be purged
+				entries.push({ uri, workspaceName: name, workspaceRoot: '(unreadable)', fileCount: 0, savedAt: 0, bytes: 0 });
+			}
+		}
+		return entries;
+	}
+
+	public async purge(entry?: StoredAnalysisEntry): Promise<void> {
+		if (!this._directory) {
+			return;
+		}
+
+		// A save still waiting would write the purged analysis back
+		if (entry) {
+			this._cancel(entry.uri.toString());
+		} else {
+			Array.from(this._pending.keys()).forEach(key => this._cancel(key));
+		}
+		// A save already writing must land before the delete, not after it; saves scheduled later wait for the delete
+		const directory = this._directory;
+		const done = this._writing.then(async () => {
+			try {
+				await vscode.workspace.fs.delete(entry ? entry.uri : directory, { recursive: true });
+			} catch (err) {
+				// Already gone
+			}
+		});
+		this._writing = done;
+		await done;
+	}
+
+	private _cancel(key: string): void {
+		const pending = this._pending.get(key);
+		if (pending) {
+			clearTimeout(pending.timer);
+			this._pending.delete(key);
+		}
+	}
+
+	private _uriFor(workspaceRoot: string): vscode.Uri | undefined {
+		if (!this._directory) {
+			return undefined;
+		}
+		const key = crypto.createHash('sha256').update(workspaceRoot).digest('hex').substring(0, 16);
+		return vscode.Uri.joinPath(this._directory, `${key}.json`);
+	}
+}
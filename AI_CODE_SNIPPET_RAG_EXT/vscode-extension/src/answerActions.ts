@@ -0,0 +1,264 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { AnswerState, QueryAnswer } from './types';
+
+// Answers that describe the workspace rather than cite a file
+export const WORKSPACE_SUMMARY_FILE = 'Workspace Summary';
+
+// URI scheme of the read-only documents shown in answer comparisons
+export const ANSWER_SCHEME = 'ai-code-snippet-rag';
+
+// How long the cited range stays highlighted after opening an answer
+const HIGHLIGHT_DURATION_MS = 3000;
+// Snippets kept for open comparison editors; older ones are dropped first
+const MAX_ANSWER_DOCUMENTS = 50;
+
+export interface AnswerLocation {
+	state: AnswerState;
+	uri?: vscode.Uri;
+	// 1-based, inclusive; where the cited code is now when it moved
+	startLine: number;
+	endLine: number;
+}
+
+// Find the file an answer cites: backends send root-relative paths, offline answers in
+// multi-root workspaces prefix them with the root name, and absolute paths are taken as they are
+export async function resolveAnswerFile(file: string): Promise<vscode.Uri | undefined> {
+	if (!file || file === WORKSPACE_SUMMARY_FILE) {
+		return undefined;
+	}
+
+	const folders = vscode.workspace.workspaceFolders ?? [];
+	const normalized = file.replace(/\\/g, '/').replace(/^\.\//, '');
+	const candidates: vscode.Uri[] = [];
+	if (path.isAbsolute(file)) {
+		candidates.push(vscode.Uri.file(file));
+	}
+	for (const folder of folders) {
+		if (normalized.startsWith(`${folder.name}/`)) {
+			candidates.push(vscode.Uri.joinPath(folder.uri, ...normalized.substring(folder.name.length + 1).split('/')));
+		}
+	}
+	for (const folder of folders) {
+		candidates.push(vscode.Uri.joinPath(folder.uri, ...normalized.split('/')));
+	}
+
+	for (const candidate of candidates) {
+		try {
+			const stat = await vscode.workspace.fs.stat(candidate);
+			if (stat.type & vscode.FileType.File) {
+				return candidate;
+			}
+		} catch (err) {
+			// Not in this root
+		}
+	}
+	return undefined;
+}
+
+// Where an answer's code is now, and whether the file still holds it at the cited lines.
+// Undefined for answers that do not cite a file.
+export async function locateAnswer(answer: QueryAnswer): Promise<AnswerLocation | undefined> {
+	if (answer.file === WORKSPACE_SUMMARY_FILE) {
+		return undefined;
+	}
+
+	const cited = { startLine: answer.start_line, endLine: Math.max(answer.start_line, answer.end_line) };
+	const uri = await resolveAnswerFile(answer.file);
+	if (!uri) {
+		return { state: 'missing', ...cited };
+	}
+
+	const lines = await readLines(uri);
+	if (!lines) {
+		return { state: 'missing', ...cited };
+	}
+
+	const snippet = answer.code ? answer.code.replace(/\r\n/g, '\n').replace(/\n+$/, '').split('\n') : [];
+	if (snippet.length === 0) {
+		return { state: cited.endLine <= lines.length ? 'current' : 'changed', uri, ...cited };
+	}
+	if (matchesAt(lines, snippet, cited.startLine - 1)) {
+		return { state: 'current', uri, ...cited };
+	}
+
+	// Edits above the snippet shift it; take the nearest place the whole snippet still matches
+	let nearest: number | undefined;
+	for (let i = 0; i + snippet.length <= lines.length; i++) {
+		if (matchesAt(lines, snippet, i) && (nearest === undefined || Math.abs(i - cited.startLine + 1) < Math.abs(nearest - cited.startLine + 1))) {
+			nearest = i;
+		}
+	}
+	if (nearest !== undefined) {
+		return { state: 'moved', uri, startLine: nearest + 1, endLine: nearest + snippet.length };
+	}
+	return { state: 'changed', uri, ...cited };
+}
+
+// Open documents win over the file on disk, so unsaved edits count as changes
+async function readLines(uri: vscode.Uri): Promise<string[] | undefined> {
+	const open = vscode.workspace.textDocuments.find(document => document.uri.toString() === uri.toString());
+	if (open) {
+		return open.getText().replace(/\r\n/g, '\n').split('\n');
+	}
+	try {
+		return Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf-8').replace(/\r\n/g, '\n').split('\n');
+	} catch (err) {
+		return undefined;
+	}
+}
+
+// Indentation may differ from what the backend returned; redaction markers stand for any text,
+// and the blank lines a multi-line redaction leaves behind for whatever the secret spanned
+function matchesAt(lines: string[], snippet: string[], start: number): boolean {
+	if (start < 0 || start + snippet.length > lines.length) {
+		return false;
+	}
+	let inRedaction = false;
+	for (let i = 0; i < snippet.length; i++) {
+		const expected = snippet[i].trim();
+		const actual = lines[start + i].trim();
+		if (expected.includes('[REDACTED:')) {
+			const pattern = expected.split(/\[REDACTED:[^\]]*\]/).map(part => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+			if (!new RegExp(`^${pattern}$`).test(actual)) {
+				return false;
+			}
+			inRedaction = true;
+		} else if (expected === '' && inRedaction) {
+			continue;
+		} else {
+			inRedaction = false;
+			if (expected !== actual) {
+				return false;
+			}
+		}
+	}
+	return true;
+}
+
+let highlightDecoration: vscode.TextEditorDecorationType | undefined;
+let highlightTimer: NodeJS.Timeout | undefined;
+
+// Briefly mark the cited lines so they stand out from the rest of the file
+function highlightRange(editor: vscode.TextEditor, range: vscode.Range): void {
+	if (!highlightDecoration) {
+		highlightDecoration = vscode.window.createTextEditorDecorationType({
+			backgroundColor: new vscode.ThemeColor('editor.findMatchHighlightBackground'),
+			isWholeLine: true
+		});
+	}
+	if (highlightTimer) {
+		clearTimeout(highlightTimer);
+	}
+	const decoration = highlightDecoration;
+	editor.setDecorations(decoration, [range]);
+	highlightTimer = setTimeout(() => {
+		editor.setDecorations(decoration, []);
+		highlightTimer = undefined;
+	}, HIGHLIGHT_DURATION_MS);
+}
+
+function toRange(location: AnswerLocation): vscode.Range {
+	return new vscode.Range(location.startLine - 1, 0, location.endLine - 1, Number.MAX_SAFE_INTEGER);
+}
+
+// Open the cited file with the answer's lines revealed and highlighted
+export async function openAnswer(answer: QueryAnswer): Promise<void> {
+	const location = await locateAnswer(answer);
+	if (!location) {
+		return;
+	}
+	if (!location.uri) {
+		vscode.window.showWarningMessage(`AI Code Snippet RAG: ${answer.file} is not in the workspace`);
+		return;
+	}
+
+	const document = await vscode.workspace.openTextDocument(location.uri);
+	// A range past the end of a shortened file is clamped rather than rejected
+	const range = document.validateRange(toRange(location));
+	const editor = await vscode.window.showTextDocument(document, { selection: new vscode.Selection(range.start, range.start), preview: true });
+	editor.revealRange(range, vscode.TextEditorRevealType.InCenterIfOutsideViewport);
+	highlightRange(editor, range);
+
+	if (location.state === 'moved') {
+		vscode.window.setStatusBarMessage(`AI Code Snippet RAG: The cited code moved to lines ${location.startLine}-${location.endLine}`, HIGHLIGHT_DURATION_MS);
+	} else if (location.state === 'changed') {
+		vscode.window.showInformationMessage(`AI Code Snippet RAG: ${answer.file} has changed since this answer; lines ${answer.start_line}-${answer.end_line} no longer hold the cited code.`, 'Compare')
+			.then(choice => {
+				if (choice === 'Compare') {
+					compareAnswer(answer);
+				}
+			});
+	}
+}
+
+export async function copyAnswer(answer: QueryAnswer): Promise<void> {
+	await vscode.env.clipboard.writeText(answer.code);
+	vscode.window.setStatusBarMessage(`AI Code Snippet RAG: Copied ${answer.file} (lines ${answer.start_line}-${answer.end_line})`, HIGHLIGHT_DURATION_MS);
+}
+
+// Replace the selection, or insert at the cursor, in the last active editor
+export async function insertAnswer(answer: QueryAnswer): Promise<void> {
+	const editor = vscode.window.activeTextEditor ?? vscode.window.visibleTextEditors[0];
+	if (!editor) {
+		vscode.window.showWarningMessage('AI Code Snippet RAG: Open a file to insert the code into');
+		return;
+	}
+	await editor.edit(builder => {
+		for (const selection of editor.selections) {
+			builder.replace(selection, answer.code);
+		}
+	});
+	vscode.window.showTextDocument(editor.document, editor.viewColumn);
+}
+
+// Diff the answer's code against the same lines of the file as it is now
+export async function compareAnswer(answer: QueryAnswer): Promise<void> {
+	const location = await locateAnswer(answer);
+	if (!location?.uri) {
+		vscode.window.showWarningMessage(`AI Code Snippet RAG: ${answer.file} is not in the workspace, so there is nothing to compare with`);
+		return;
+	}
+
+	const document = await vscode.workspace.openTextDocument(location.uri);
+	const range = document.validateRange(toRange(location));
+	const name = path.basename(location.uri.path);
+	const left = answerDocuments.add(`answer/${name}`, answer.code);
+	const right = answerDocuments.add(`current/${name}`, document.getText(range));
+	await vscode.commands.executeCommand('vscode.diff', left, right,
+		`${name}: answer (lines ${answer.start_line}-${answer.end_line}) ↔ current (lines ${location.startLine}-${location.endLine})`);
+}
+
+// Serves the read-only sides of answer comparisons
+class AnswerDocumentProvider implements vscode.TextDocumentContentProvider {
+	private _documents: Map<string, string> = new Map();
+	private _nextId = 1;
+
+	public add(name: string, content: string): vscode.Uri {
+		// The file name stays last so the document gets the file's language
+		const uri = vscode.Uri.from({ scheme: ANSWER_SCHEME, path: `/${this._nextId++}/${name}` });
+		this._documents.set(uri.toString(), content);
+		if (this._documents.size > MAX_ANSWER_DOCUMENTS) {
+			this._documents.delete(this._documents.keys().next().value!);
+		}
+		return uri;
+	}
+
+	public provideTextDocumentContent(uri: vscode.Uri): string {
+		return this._documents.get(uri.toString()) ?? '';
+	}
+}
+
+const answerDocuments = new AnswerDocumentProvider();
+
+// Commands the chat buttons and the sidebar use, taking the answer as their argument
+export function registerAnswerActions(): vscode.Disposable {
+	return vscode.Disposable.from(
+		vscode.workspace.registerTextDocumentContentProvider(ANSWER_SCHEME, answerDocuments),
+		vscode.commands.registerCommand('aiCodeSnippetRag.openAnswer', openAnswer),
+		vscode.commands.registerCommand('aiCodeSnippetRag.copyAnswer', copyAnswer),
+		vscode.commands.registerCommand('aiCodeSnippetRag.insertAnswer', insertAnswer),
+		vscode.commands.registerCommand('aiCodeSnippetRag.compareAnswer', compareAnswer),
+		{ dispose: () => highlightDecoration?.dispose() }
+	);
+}
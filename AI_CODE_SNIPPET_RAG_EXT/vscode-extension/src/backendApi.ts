@@ -0,0 +1,86 @@
+import { BackendSchemaError } from './backendClient';
+
+// API versions this extension speaks, newest first
+export const SUPPORTED_API_VERSIONS = ['v1'];
+
+// How to talk to a RAG backend, chosen from what its /health reports
+export interface BackendApi {
+	// Release of the backend, for logs and messages
+	version?: string;
+	// "legacy": a backend that reports no API version and serves the root-level routes
+	apiVersion: string;
+	// Prepended to /query, /sync and /feedback
+	prefix: string;
+	// "roots": repo_context holds one entry per workspace root; "files": one flat file list, as in the original contract
+	payload: 'roots' | 'files';
+	// Features the backend declared; undefined when it declared none, so every feature is tried
+	capabilities?: string[];
+}
+
+// Features a backend can declare in /health
+export type BackendCapability = 'stream' | 'sync' | 'feedback' | 'multi_root' | 'history' | 'intents';
+
+export const LEGACY_API: BackendApi = { apiVersion: 'legacy', prefix: '', payload: 'roots' };
+
+export function supportsCapability(api: BackendApi, capability: BackendCapability): boolean {
+	return api.capabilities === undefined || api.capabilities.includes(capability);
+}
+
+// "1", "1.2" and "v1" all name API v1
+function normalizeApiVersion(value: unknown): string | undefined {
+	if (typeof value === 'number' && Number.isFinite(value)) {
+		return `v${Math.floor(value)}`;
+	}
+	if (typeof value !== 'string') {
+		return undefined;
+	}
+	const match = /^v?(\d+)/i.exec(value.trim());
+	return match ? `v${match[1]}` : undefined;
+}
+
+// Capabilities as a list of names or an object of flags
+function parseCapabilities(value: unknown): string[] | undefined {
+	if (Array.isArray(value)) {
+		return value.filter((name): name is string => typeof name === 'string');
+	}
+	if (value && typeof value === 'object') {
+		return Object.entries(value).filter(([, enabled]) => enabled === true).map(([name]) => name);
+	}
+	return undefined;
+}
+
+// Pick the newest API both sides speak from a /health body. A backend that names no API version gets
+// the legacy routes; one that names only versions this extension does not speak is an error.
+export function negotiateApi(health: unknown, serverUrl: string): BackendApi {
+	const data = health && typeof health === 'object' ? health as Record<string, unknown> : {};
+	const version = typeof data.version === 'string' ? data.version : undefined;
+	const capabilities = parseCapabilities(data.capabilities);
+	const declared = (Array.isArray(data.api_versions) ? data.api_versions : data.api_version !== undefined ? [data.api_version] : [])
+		.map(normalizeApiVersion)
+		.filter((value): value is string => value !== undefined);
+
+	let api: BackendApi = { ...LEGACY_API, version, capabilities };
+	if (declared.length > 0) {
+		const apiVersion = SUPPORTED_API_VERSIONS.find(supported => declared.includes(supported));
+		if (!apiVersion) {
+			throw new BackendSchemaError(
+				`The backend at ${serverUrl} speaks API ${declared.join(', ')}, but this extension speaks ${SUPPORTED_API_VERSIONS.join(', ')}. `
+				+ `Update the extension, or point aiCodeSnippetRag.serverUrl at a backend that still serves API ${SUPPORTED_API_VERSIONS[0]}.`
+			);
+		}
+		const prefix = typeof data.api_prefix === 'string' ? data.api_prefix.replace(/\/+$/, '') : `/api/${apiVersion}`;
+		api = { ...api, apiVersion, prefix };
+	}
+
+	// Without multi-root support the backend gets the single file list it was built for
+	if (capabilities !== undefined && !capabilities.includes('multi_root')) {
+		api.payload = 'files';
+	}
+	return api;
+}
+
+export function describeApi(api: BackendApi): string {
+	const release = api.version ? `backend ${api.version}, ` : '';
+	const route = api.apiVersion === 'legacy' ? 'legacy API at the root' : `API ${api.apiVersion} at ${api.prefix || '/'}`;
+	return `${release}${route}${api.capabilities ? `, capabilities: ${api.capabilities.join(', ') || 'none'}` : ''}`;
+}
@@ -0,0 +1,390 @@
+import * as vscode from 'vscode';
+
+// unauthorized: the server answers but refuses requests without a valid API token
+export type ConnectionStatus = 'connected' | 'disconnected' | 'checking' | 'unauthorized';
+
+// Base class of failures talking to the backend; a stream's own error events use it directly
+export class BackendError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'BackendError';
+	}
+}
+
+// The server could not be reached at all (refused, DNS, reset)
+export class BackendUnavailableError extends BackendError {
+	constructor(public readonly serverUrl: string, message: string) {
+		super(message);
+		this.name = 'BackendUnavailableError';
+	}
+}
+
+// Requests are short-circuited after repeated failures until the cooldown ends
+export class CircuitOpenError extends BackendUnavailableError {
+	constructor(serverUrl: string, public readonly retryAt: number) {
+		super(serverUrl, `Backend at ${serverUrl} failed repeatedly; requests are paused for ${Math.ceil((retryAt - Date.now()) / 1000)}s`);
+		this.name = 'CircuitOpenError';
+	}
+}
+
+export class BackendTimeoutError extends BackendError {
+	constructor(public readonly timeoutMs: number) {
+		super(`Request timeout after ${timeoutMs}ms`);
+		this.name = 'BackendTimeoutError';
+	}
+}
+
+export class BackendHttpError extends BackendError {
+	constructor(public readonly status: number, message: string) {
+		super(message);
+		this.name = 'BackendHttpError';
+	}
+}
+
+// The backend answered, but with an API version or response shape this extension cannot use
+export class BackendSchemaError extends BackendError {
+	constructor(message: string, public readonly problems: string[] = []) {
+		super(message);
+		this.name = 'BackendSchemaError';
+	}
+}
+
+// The backend rejected the API token, or a token is required and none is set
+export function isAuthError(error: unknown): error is BackendHttpError {
+	return error instanceof BackendHttpError && (error.status === 401 || error.status === 403);
+}
+
+// Thrown when the caller's abort signal fires, so a stop is never mistaken for a failure
+export class RequestCancelledError extends Error {
+	constructor() {
+		super('Request cancelled');
+		this.name = 'RequestCancelledError';
+	}
+}
+
+export interface BackendRequestOptions {
+	method?: 'GET' | 'POST';
+	body?: string;
+	accept?: string;
+	signal?: AbortSignal;
+	// Only calls that are safe to repeat are retried
+	idempotent?: boolean;
+}
+
+export type HealthResult = { ok: true; data: unknown } | { ok: false; error: BackendError };
+
+// Statuses worth retrying; 429 is not a sign of a dead server, so it does not count towards the breaker
+const RETRYABLE_STATUSES = new Set([429, 502, 503, 504]);
+const FAILURE_STATUSES = new Set([502, 503, 504]);
+
+const RETRY_BASE_DELAY_MS = 500;
+const RETRY_MAX_DELAY_MS = 8000;
+
+// Consecutive failures that open the circuit, and how long it stays open (doubling while failures continue)
+const CIRCUIT_FAILURE_THRESHOLD = 3;
+const CIRCUIT_BASE_COOLDOWN_MS = 15000;
+const CIRCUIT_MAX_COOLDOWN_MS = 5 * 60 * 1000;
+
+// A server a client talks to: where its URL is configured, how its health is checked, and where its token is kept
+export interface BackendTarget {
+	// Setting under aiCodeSnippetRag holding the base URL
+	urlSetting: string;
+	defaultUrl: string;
+	healthEndpoint: string;
+	// Stored in SecretStorage, never in settings
+	tokenSecretKey: string;
+}
+
+export const RAG_BACKEND: BackendTarget = {
+	urlSetting: 'serverUrl',
+	defaultUrl: 'http://localhost:8000',
+	healthEndpoint: '/health',
+	tokenSecretKey: 'aiCodeSnippetRag.apiToken'
+};
+
+// Shared HTTP client for a server: timeouts, retries, a circuit breaker and health polling
+export class BackendClient implements vscode.Disposable {
+	private _status: ConnectionStatus = 'disconnected';
+	private _onDidChangeStatus = new vscode.EventEmitter<ConnectionStatus>();
+	public readonly onDidChangeStatus = this._onDidChangeStatus.event;
+
+	private _consecutiveFailures = 0;
+	private _openCount = 0;
+	private _openUntil: number | undefined;
+	private _pollTimer: NodeJS.Timeout | undefined;
+	private _lastCheck: number | undefined;
+
+	private _apiToken: string | undefined;
+	private _onDidChangeApiToken = new vscode.EventEmitter<void>();
+	public readonly onDidChangeApiToken = this._onDidChangeApiToken.event;
+	private _disposables: vscode.Disposable[] = [];
+
+	constructor(private readonly _outputChannel: vscode.OutputChannel, private readonly _secrets: vscode.SecretStorage, private readonly _target: BackendTarget = RAG_BACKEND) {
+		// Other windows may set or clear the token too
+		this._disposables.push(_secrets.onDidChange(event => {
+			if (event.key === _target.tokenSecretKey) {
+				this.loadApiToken().catch(error => this._outputChannel.appendLine(`Failed to load the API token: ${error.message}`));
+			}
+		}));
+	}
+
+	public get hasApiToken(): boolean {
+		return this._apiToken !== undefined;
+	}
+
+	// Read the token into memory so requests do not wait on the secret store
+	public async loadApiToken(): Promise<void> {
+		const token = await this._secrets.get(this._target.tokenSecretKey);
+		if (token !== this._apiToken) {
+			this._apiToken = token;
+			this._onDidChangeApiToken.fire();
+		}
+	}
+
+	public async setApiToken(token: string | undefined): Promise<void> {
+		if (token) {
+			await this._secrets.store(this._target.tokenSecretKey, token);
+		} else {
+			await this._secrets.delete(this._target.tokenSecretKey);
+		}
+		await this.loadApiToken();
+	}
+
+	public get status(): ConnectionStatus {
+		return this._status;
+	}
+
+	public get serverUrl(): string {
+		return vscode.workspace.getConfiguration('aiCodeSnippetRag').get<string>(this._target.urlSetting, this._target.defaultUrl).replace(/\/+$/, '');
+	}
+
+	public get healthEndpoint(): string {
+		return this._target.healthEndpoint;
+	}
+
+	// When requests will be let through again, if the circuit is open
+	public get circuitOpenUntil(): number | undefined {
+		return this._openUntil !== undefined && this._openUntil > Date.now() ? this._openUntil : undefined;
+	}
+
+	public get lastCheck(): number | undefined {
+		return this._lastCheck;
+	}
+
+	// Send a request; retryable failures of idempotent calls are retried with exponential backoff.
+	// Any HTTP status is returned to the caller except retryable ones that persist past the last attempt.
+	public async request(endpoint: string, options: BackendRequestOptions = {}): Promise<Response> {
+		const config = vscode.workspace.getConfiguration('aiCodeSnippetRag');
+		const serverUrl = this.serverUrl;
+		const timeoutMs = config.get<number>('requestTimeoutMs', 20000);
+		const attempts = options.idempotent ? Math.max(0, config.get<number>('maxRetries', 2)) + 1 : 1;
+
+		for (let attempt = 1; ; attempt++) {
+			const openUntil = this.circuitOpenUntil;
+			if (openUntil !== undefined) {
+				throw new CircuitOpenError(serverUrl, openUntil);
+			}
+
+			let retryAfterMs: number | undefined;
+			try {
+				const response = await this._fetchOnce(serverUrl, endpoint, options, timeoutMs);
+				if (!RETRYABLE_STATUSES.has(response.status)) {
+					this._recordSuccess(response.status === 401 || response.status === 403 ? 'unauthorized' : 'connected');
+					return response;
+				}
+				if (FAILURE_STATUSES.has(response.status)) {
+					this._recordFailure(serverUrl);
+				}
+				if (attempt >= attempts) {
+					return response;
+				}
+				retryAfterMs = parseRetryAfter(response.headers.get('retry-after'));
+				this._outputChannel.appendLine(`${endpoint} returned HTTP ${response.status}, retrying (attempt ${attempt + 1} of ${attempts})`);
+			} catch (error) {
+				if (!(error instanceof BackendUnavailableError || error instanceof BackendTimeoutError)) {
+					throw error;
+				}
+				this._recordFailure(serverUrl);
+				if (attempt >= attempts) {
+					throw error;
+				}
+				this._outputChannel.appendLine(`${endpoint} failed (${error.message}), retrying (attempt ${attempt + 1} of ${attempts})`);
+			}
+
+			await delay(retryAfterMs ?? backoffDelay(attempt), options.signal);
+		}
+	}
+
+	// Check the health endpoint once, bypassing the circuit so it can serve as the recovery probe.
+	// With showChecking the status passes through "checking" while the request runs.
+	public async checkHealth(showChecking = false): Promise<HealthResult> {
+		const serverUrl = this.serverUrl;
+		const timeoutMs = vscode.workspace.getConfiguration('aiCodeSnippetRag').get<number>('requestTimeoutMs', 20000);
+		if (showChecking) {
+			this._setStatus('checking');
+		}
+
+		let result: HealthResult;
+		try {
+			const response = await this._fetchOnce(serverUrl, this._target.healthEndpoint, { method: 'GET' }, timeoutMs);
+			if (response.ok) {
+				result = { ok: true, data: await response.json().catch(() => undefined) };
+			} else {
+				result = { ok: false, error: new BackendHttpError(response.status, `HTTP ${response.status}`) };
+			}
+		} catch (error: any) {
+			result = { ok: false, error: error instanceof BackendError ? error : new BackendError(error.message) };
+		}
+
+		this._lastCheck = Date.now();
+		if (result.ok) {
+			this._recordSuccess('connected');
+		} else if (isAuthError(result.error)) {
+			// The server is up; polling without a token must not open the circuit against it
+			this._recordSuccess('unauthorized');
+		} else {
+			this._recordFailure(serverUrl);
+			this._setStatus('disconnected');
+		}
+		return result;
+	}
+
+	// Poll the health endpoint in the background; an interval of 0 disables polling
+	public startHealthPolling(): void {
+		this.stopHealthPolling();
+		const intervalSeconds = vscode.workspace.getConfiguration('aiCodeSnippetRag').get<number>('healthCheckIntervalSeconds', 30);
+		this.checkHealth();
+		if (intervalSeconds > 0) {
+			this._pollTimer = setInterval(() => this.checkHealth(), intervalSeconds * 1000);
+		}
+	}
+
+	public stopHealthPolling(): void {
+		if (this._pollTimer) {
+			clearInterval(this._pollTimer);
+			this._pollTimer = undefined;
+		}
+	}
+
+	// Forget failures, e.g. after the server URL changed
+	public reset(): void {
+		this._consecutiveFailures = 0;
+		this._openCount = 0;
+		this._openUntil = undefined;
+		this._setStatus('disconnected');
+	}
+
+	public dispose(): void {
+		this.stopHealthPolling();
+		this._onDidChangeStatus.dispose();
+		this._onDidChangeApiToken.dispose();
+		this._disposables.forEach(d => d.dispose());
+	}
+
+	private async _fetchOnce(serverUrl: string, endpoint: string, options: BackendRequestOptions, timeoutMs: number): Promise<Response> {
+		const { signal } = options;
+		if (signal?.aborted) {
+			throw new RequestCancelledError();
+		}
+
+		const controller = new AbortController();
+		let timedOut = false;
+		const timeout = setTimeout(() => {
+			timedOut = true;
+			controller.abort();
+		}, timeoutMs);
+		// Stays attached after the headers arrive, so cancelling also ends a streamed body
+		signal?.addEventListener('abort', () => controller.abort(), { once: true });
+
+		const headers: Record<string, string> = {
+			'Content-Type': 'application/json',
+			'Accept': options.accept ?? 'application/json'
+		};
+		if (this._apiToken) {
+			headers['Authorization'] = `Bearer ${this._apiToken}`;
+		}
+
+		try {
+			return await fetch(`${serverUrl}${endpoint}`, {
+				method: options.method ?? 'POST',
+				signal: controller.signal,
+				headers,
+				body: options.body
+			});
+		} catch (error: any) {
+			if (signal?.aborted) {
+				throw new RequestCancelledError();
+			}
+			if (timedOut) {
+				throw new BackendTimeoutError(timeoutMs);
+			}
+			// fetch rejects with a TypeError whose cause carries the socket error
+			const reason = error.cause?.code ?? error.cause?.message ?? error.message;
+			throw new BackendUnavailableError(serverUrl, `Cannot connect to backend at ${serverUrl} (${reason})`);
+		} finally {
+			clearTimeout(timeout);
+		}
+	}
+
+	// Any answer from the server shows it is up, including one refusing the token
+	private _recordSuccess(status: 'connected' | 'unauthorized'): void {
+		if (this._openCount > 0) {
+			this._outputChannel.appendLine('Backend is responding again, closing the circuit');
+		}
+		this._consecutiveFailures = 0;
+		this._openCount = 0;
+		this._openUntil = undefined;
+		this._setStatus(status);
+	}
+
+	private _recordFailure(serverUrl: string): void {
+		this._consecutiveFailures++;
+		// A failed probe after a cooldown reopens at once
+		if (this._consecutiveFailures < CIRCUIT_FAILURE_THRESHOLD && this._openCount === 0) {
+			return;
+		}
+
+		const cooldown = Math.min(CIRCUIT_BASE_COOLDOWN_MS * 2 ** this._openCount, CIRCUIT_MAX_COOLDOWN_MS);
+		this._openCount++;
+		this._openUntil = Date.now() + cooldown;
+		this._outputChannel.appendLine(`Backend at ${serverUrl} failed ${this._consecutiveFailures} times in a row, pausing requests for ${cooldown / 1000}s`);
+		this._setStatus('disconnected');
+	}
+
+	private _setStatus(status: ConnectionStatus): void {
+		if (this._status !== status) {
+			this._status = status;
+			this._onDidChangeStatus.fire(status);
+		}
+	}
+}
+
+// Exponential backoff with up to 25% jitter, so several windows do not retry in lockstep
+function backoffDelay(attempt: number): number {
+	const base = Math.min(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1), RETRY_MAX_DELAY_MS);
+	return base + Math.random() * base * 0.25;
+}
+
+// Retry-After in seconds; HTTP dates are rare enough from this backend to fall back to backoff
+function parseRetryAfter(value: string | null): number | undefined {
+	const seconds = value ? Number(value) : NaN;
+	return Number.isFinite(seconds) && seconds >= 0 ? Math.min(seconds * 1000, RETRY_MAX_DELAY_MS) : undefined;
+}
+
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+	return new Promise((resolve, reject) => {
+		if (signal?.aborted) {
+			reject(new RequestCancelledError());
+			return;
+		}
+		const onAbort = () => {
+			clearTimeout(timer);
+			reject(new RequestCancelledError());
+		};
+		const timer = setTimeout(() => {
+			signal?.removeEventListener('abort', onAbort);
+			resolve();
+		}, ms);
+		signal?.addEventListener('abort', onAbort, { once: true });
+	});
+}
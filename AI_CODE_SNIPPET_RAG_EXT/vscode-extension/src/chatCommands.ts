@@ -0,0 +1,128 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { QueryIntent } from './types';
+
+// Slash commands of the chat participant; the sidebar accepts the same ones typed at the start of a question
+export const SLASH_COMMANDS: Exclude<QueryIntent, 'ask'>[] = ['find', 'explain', 'usages', 'tests', 'summary', 'changes'];
+
+// A prompt turned into what is sent: the query text, its intent and what it is about
+export interface ResolvedCommand {
+	intent: QueryIntent;
+	query: string;
+	// The symbol of /usages, the file of /tests, the selection of /explain
+	subject?: string;
+}
+
+// Matches test and spec files in the common layouts
+const TEST_FILE_PATTERN = /(^|\/)(tests?|__tests__|spec)\/|[._-](test|spec)\.[^/]+$|(^|\/)test_[^/]+$/i;
+
+export function isTestFile(filePath: string): boolean {
+	return TEST_FILE_PATTERN.test(filePath.replace(/\\/g, '/'));
+}
+
+// `/find retry delay` typed in the sidebar
+export function parseSlashCommand(text: string): { command: string | undefined; prompt: string } {
+	const match = /^\/(\w+)(?:\s+([\s\S]*))?$/.exec(text.trim());
+	if (match && (SLASH_COMMANDS as string[]).includes(match[1])) {
+		return { command: match[1], prompt: (match[2] || '').trim() };
+	}
+	return { command: undefined, prompt: text };
+}
+
+// Work out the query of a command from its prompt and the editor, or why it cannot run
+export function resolveCommand(command: string | undefined, prompt: string, editor: vscode.TextEditor | undefined): ResolvedCommand | { error: string } {
+	const text = prompt.trim();
+	const activeFile = editor ? vscode.workspace.asRelativePath(editor.document.uri) : undefined;
+
+	switch (command) {
+		case 'find':
+			if (!text) {
+				return { error: 'Describe the code to find, e.g. `/find where the retry delay is computed`.' };
+			}
+			return { intent: 'find', query: text };
+
+		case 'explain': {
+			const selection = editor && !editor.selection.isEmpty ? editor.selection : undefined;
+			if (!selection && !text) {
+				return { error: 'Select the code to explain in the editor, or describe it after `/explain`.' };
+			}
+			const subject = selection && activeFile ? `${activeFile} (lines ${selection.start.line + 1}-${selection.end.line + 1})` : undefined;
+			return { intent: 'explain', query: text || 'Explain the selected code', subject };
+		}
+
+		case 'usages': {
+			const symbol = text || (editor ? symbolAtCursor(editor) : undefined);
+			if (!symbol) {
+				return { error: 'Name the symbol, e.g. `/usages sendQuery`, or put the cursor on it in the editor.' };
+			}
+			return { intent: 'usages', query: symbol, subject: symbol };
+		}
+
+		case 'tests':
+			if (!activeFile && !text) {
+				return { error: 'Open the file to find tests for, or name it after `/tests`.' };
+			}
+			return { intent: 'tests', query: text || `Tests for ${activeFile}`, subject: activeFile ?? text };
+
+		case 'summary':
+			return { intent: 'summary', query: text || 'Summarize the workspace' };
+
+		case 'changes':
+			return { intent: 'changes', query: text || 'What do my uncommitted changes do, and what might they break?' };
+
+		default:
+			return { intent: 'ask', query: text };
+	}
+}
+
+// The selected text when it is a single identifier-like line, else the word under the cursor
+function symbolAtCursor(editor: vscode.TextEditor): string | undefined {
+	const selection = editor.selection;
+	if (!selection.isEmpty && selection.isSingleLine) {
+		const selected = editor.document.getText(selection).trim();
+		if (selected && !/\s/.test(selected)) {
+			return selected;
+		}
+	}
+	const range = editor.document.getWordRangeAtPosition(selection.active);
+	return range ? editor.document.getText(range) : undefined;
+}
+
+// Suggested next questions after a command, shown under its response
+export function followupsFor(command: ResolvedCommand, answerFiles: string[]): vscode.ChatFollowup[] {
+	const topFile = answerFiles[0];
+	switch (command.intent) {
+		case 'find':
+			return topFile ? [
+				{ prompt: `How does the code found in ${topFile} work?`, label: `Explain ${path.basename(topFile)}` },
+				{ prompt: `Tests covering ${topFile}`, command: 'tests', label: `Find tests for ${path.basename(topFile)}` }
+			] : [];
+		case 'explain':
+			return [
+				{ prompt: 'Where is this used?', label: 'Where is this used?' },
+				{ prompt: '', command: 'tests', label: 'Find tests for this file' }
+			];
+		case 'usages':
+			return [
+				{ prompt: `the definition of ${command.subject}`, command: 'find', label: `Find the definition of ${command.subject}` },
+				...(topFile ? [{ prompt: `How is ${command.subject} used in ${topFile}?`, label: `Explain its use in ${path.basename(topFile)}` }] : [])
+			];
+		case 'tests':
+			return [
+				{ prompt: `Which cases of ${command.subject} are not tested yet?`, label: 'What is not tested yet?' },
+				{ prompt: `the code ${command.subject} depends on`, command: 'find', label: 'Find what this file depends on' }
+			];
+		case 'summary':
+			return [
+				{ prompt: 'the entry point of the application', command: 'find', label: 'Find the entry point' },
+				{ prompt: 'What are the main modules and how do they interact?', label: 'Describe the main modules' }
+			];
+		case 'changes':
+			return [
+				{ prompt: 'What could these changes break?', command: 'changes', label: 'What could they break?' },
+				...(topFile ? [{ prompt: `Tests covering ${topFile}`, command: 'tests', label: `Find tests for ${path.basename(topFile)}` }] : [])
+			];
+		default:
+			return topFile ? [{ prompt: `Tests covering ${topFile}`, command: 'tests', label: 'Find related tests' }] : [];
+	}
+}
@@ -0,0 +1,455 @@
+import * as vscode from 'vscode';
+import { ChunkKind, CodeChunk, CodeSymbol } from './types';
+
+// Units longer than this are split along their members, or into windows of this size
+const MAX_CHUNK_LINES = 150;
+
+// How far below a declaration we look for its opening brace
+const MAX_SIGNATURE_LINES = 8;
+
+// A declaration found in a file, with 0-based inclusive line numbers
+interface SymbolRange {
+	name: string;
+	kind: ChunkKind;
+	start: number;
+	end: number;
+	children: SymbolRange[];
+}
+
+const INDENT_LANGUAGES = new Set(['python']);
+const BRACE_LANGUAGES = new Set([
+	'typescript', 'typescriptreact', 'javascript', 'javascriptreact', 'java', 'csharp', 'go', 'rust',
+	'c', 'cpp', 'objective-c', 'objective-cpp', 'swift', 'php', 'scala', 'kotlin', 'dart', 'vue', 'svelte'
+]);
+
+// Kinds whose bodies hold further declarations worth chunking separately
+const CONTAINER_KINDS = new Set<ChunkKind>(['class', 'interface', 'module']);
+
+const CONTROL_KEYWORDS = new Set([
+	'if', 'else', 'for', 'foreach', 'while', 'do', 'switch', 'case', 'catch', 'try', 'finally',
+	'return', 'throw', 'new', 'await', 'yield', 'typeof', 'using', 'lock', 'synchronized', 'with', 'function', 'async'
+]);
+
+const DECLARATION_PATTERN = /^\s*(?:export\s+)?(?:default\s+)?(?:declare\s+)?(?:pub(?:\([^)]*\))?\s+)?(?:(?:public|private|protected|internal|abstract|static|sealed|final|partial|async|unsafe|data|open)\s+)*(class|interface|enum|struct|trait|impl|namespace|module|object|type|function\*?|func|fn|def)\s+([A-Za-z_$][\w$]*)/;
+const ARROW_FUNCTION_PATTERN = /^\s*(?:export\s+)?(?:const|let|var)\s+([A-Za-z_$][\w$]*)\s*(?::[^=]+)?=\s*(?:async\s+)?(?:function\b|\([^)]*\)\s*(?::[^=]+)?=>|[A-Za-z_$][\w$]*\s*=>)/;
+const MEMBER_PATTERN = /^\s*(?:[\w$<>[\],.?*&]+\s+)*?([A-Za-z_$][\w$]*)\s*(?:<[^>]*>)?\s*\([^;]*$/;
+const PYTHON_PATTERN = /^(\s*)(?:async\s+)?(def|class)\s+([A-Za-z_]\w*)/;
+const MARKDOWN_HEADING_PATTERN = /^(#{1,3})\s+(.+)$/;
+
+// Languages whose modules export with `export`; their exported constants are indexed as symbols too
+const MODULE_LANGUAGES = new Set(['typescript', 'typescriptreact', 'javascript', 'javascriptreact', 'vue', 'svelte']);
+const EXPORTED_VARIABLE_PATTERN = /^export\s+(?:declare\s+)?(?:const|let|var)\s+([A-Za-z_$][\w$]*)/;
+const EXPORT_LIST_PATTERN = /^export\s+(?:type\s+)?\{([^}]*)\}/;
+
+// Split a file into semantic chunks with exact line ranges; language server symbols win over the heuristic
+export function chunkText(text: string, languageId: string | undefined, documentSymbols?: vscode.DocumentSymbol[]): CodeChunk[] {
+	return analyzeText(text, languageId, documentSymbols).chunks;
+}
+
+// Chunks of a file and the index of its declarations, from the same symbols
+export function analyzeText(text: string, languageId: string | undefined, documentSymbols?: vscode.DocumentSymbol[]): { chunks: CodeChunk[]; symbols: CodeSymbol[] } {
+	const lines = text.split('\n');
+	const symbols = documentSymbols && documentSymbols.length > 0
+		? fromDocumentSymbols(documentSymbols)
+		: detectSymbols(lines, languageId);
+	return {
+		chunks: buildChunks(lines, symbols, 0, lines.length - 1, undefined),
+		symbols: indexSymbols(lines, symbols, languageId)
+	};
+}
+
+// Symbols from the language server, for documents that are already open and unmodified
+export async function getOpenDocumentSymbols(uri: vscode.Uri): Promise<vscode.DocumentSymbol[] | undefined> {
+	const document = vscode.workspace.textDocuments.find(d => d.uri.toString() === uri.toString());
+	if (!document || document.isDirty) {
+		return undefined;
+	}
+
+	try {
+		const symbols = await vscode.commands.executeCommand<Array<vscode.DocumentSymbol | vscode.SymbolInformation>>(
+			'vscode.executeDocumentSymbolProvider',
+			uri
+		);
+		// Flat SymbolInformation results carry no nesting, so they are left to the heuristic
+		if (symbols && symbols.length > 0 && 'children' in symbols[0]) {
+			return symbols as vscode.DocumentSymbol[];
+		}
+	} catch (err) {
+		// No symbol provider for this language
+	}
+	return undefined;
+}
+
+// Rebuild the text of a file from its chunks; lines outside every chunk were blank
+export function textFromChunks(chunks: CodeChunk[]): string {
+	const lines: string[] = [];
+	for (const chunk of chunks) {
+		chunk.content.split('\n').forEach((line, offset) => {
+			lines[chunk.start_line - 1 + offset] = line;
+		});
+	}
+	return Array.from(lines, line => line ?? '').join('\n');
+}
+
+function fromDocumentSymbols(symbols: vscode.DocumentSymbol[]): SymbolRange[] {
+	return symbols
+		.map(symbol => {
+			const kind = toChunkKind(symbol.kind);
+			if (!kind) {
+				return undefined;
+			}
+			return {
+				name: symbol.name,
+				kind,
+				start: symbol.range.start.line,
+				end: symbol.range.end.line,
+				children: CONTAINER_KINDS.has(kind) ? fromDocumentSymbols(symbol.children) : []
+			};
+		})
+		.filter((symbol): symbol is SymbolRange => symbol !== undefined)
+		.sort((a, b) => a.start - b.start);
+}
+
+function toChunkKind(kind: vscode.SymbolKind): ChunkKind | undefined {
+	switch (kind) {
+		case vscode.SymbolKind.Class:
+		case vscode.SymbolKind.Struct:
+			return 'class';
+		case vscode.SymbolKind.Interface:
+			return 'interface';
+		case vscode.SymbolKind.Enum:
+			return 'enum';
+		case vscode.SymbolKind.Module:
+		case vscode.SymbolKind.Namespace:
+		case vscode.SymbolKind.Package:
+			return 'module';
+		case vscode.SymbolKind.Function:
+			return 'function';
+		case vscode.SymbolKind.Method:
+		case vscode.SymbolKind.Constructor:
+			return 'method';
+		case vscode.SymbolKind.TypeParameter:
+			return 'type';
+		case vscode.SymbolKind.String:
+			// Markdown headings are reported as strings
+			return 'section';
+		default:
+			return undefined;
+	}
+}
+
+// Heuristic declaration detection for files without a language server
+function detectSymbols(lines: string[], languageId: string | undefined): SymbolRange[] {
+	if (!languageId) {
+		return [];
+	}
+	if (INDENT_LANGUAGES.has(languageId)) {
+		return detectIndentedSymbols(lines, 0, lines.length - 1, -1);
+	}
+	if (BRACE_LANGUAGES.has(languageId)) {
+		return detectBraceSymbols(lines, 0, lines.length - 1, false);
+	}
+	if (languageId === 'markdown') {
+		return detectMarkdownSections(lines);
+	}
+	return [];
+}
+
+function detectBraceSymbols(lines: string[], from: number, to: number, inContainer: boolean): SymbolRange[] {
+	const symbols: SymbolRange[] = [];
+	let i = from;
+	while (i <= to) {
+		const match = matchBraceDeclaration(lines, i, inContainer);
+		if (!match) {
+			i++;
+			continue;
+		}
+
+		const end = findBraceEnd(lines, i, to);
+		const children = CONTAINER_KINDS.has(match.kind) && end > i
+			? detectBraceSymbols(lines, i + 1, end - 1, true)
+			: [];
+		symbols.push({ name: match.name, kind: match.kind, start: i, end, children });
+		i = end + 1;
+	}
+	return symbols;
+}
+
+function matchBraceDeclaration(lines: string[], index: number, inContainer: boolean): { name: string; kind: ChunkKind } | undefined {
+	const line = lines[index];
+	const declaration = DECLARATION_PATTERN.exec(line);
+	if (declaration) {
+		return { name: declaration[2], kind: keywordKind(declaration[1], inContainer) };
+	}
+
+	const arrow = ARROW_FUNCTION_PATTERN.exec(line);
+	if (arrow) {
+		return { name: arrow[1], kind: inContainer ? 'method' : 'function' };
+	}
+
+	// Methods, and C-style functions at the top level, look like `name(...) {`
+	const member = MEMBER_PATTERN.exec(line);
+	if (member && !CONTROL_KEYWORDS.has(member[1]) && !/^\s*[.)}]/.test(line) && (inContainer || /^\S/.test(line)) && signatureOpensBody(lines, index)) {
+		return { name: member[1], kind: inContainer ? 'method' : 'function' };
+	}
+	return undefined;
+}
+
+// Check that the parameter list starting on this line is followed by a body, possibly on the next line
+function signatureOpensBody(lines: string[], start: number): boolean {
+	let depth = 0;
+	for (let i = start; i < lines.length && i - start <= MAX_SIGNATURE_LINES; i++) {
+		const code = stripStringsAndComments(lines[i]);
+		for (const char of code) {
+			if (char === '(') {
+				depth++;
+			} else if (char === ')') {
+				depth--;
+			}
+		}
+		if (depth <= 0) {
+			const trimmed = code.trimEnd();
+			if (trimmed.endsWith('{')) {
+				return true;
+			}
+			return !trimmed.endsWith(';') && !trimmed.endsWith(',') && (lines[i + 1] ?? '').trim().startsWith('{');
+		}
+	}
+	return false;
+}
+
+function keywordKind(keyword: string, inContainer: boolean): ChunkKind {
+	switch (keyword) {
+		case 'class':
+		case 'struct':
+		case 'trait':
+		case 'impl':
+		case 'object':
+			return 'class';
+		case 'interface':
+			return 'interface';
+		case 'enum':
+			return 'enum';
+		case 'namespace':
+		case 'module':
+			return 'module';
+		case 'type':
+			return 'type';
+		default:
+			return inContainer ? 'method' : 'function';
+	}
+}
+
+// Follow braces from a declaration to its closing line; declarations without a body end at `;`
+function findBraceEnd(lines: string[], start: number, to: number): number {
+	let depth = 0;
+	let opened = false;
+	for (let i = start; i <= to; i++) {
+		const code = stripStringsAndComments(lines[i]);
+		for (const char of code) {
+			if (char === '{') {
+				depth++;
+				opened = true;
+			} else if (char === '}') {
+				depth--;
+			}
+		}
+		if (opened && depth <= 0) {
+			return i;
+		}
+		if (!opened && (code.trimEnd().endsWith(';') || i - start >= MAX_SIGNATURE_LINES)) {
+			return i;
+		}
+	}
+	return to;
+}
+
+function stripStringsAndComments(line: string): string {
+	return line
+		.replace(/\/\/.*$/, '')
+		.replace(/\/\*.*?\*\//g, '')
+		.replace(/(["'`])(?:\\.|(?!\1).)*\1/g, '""');
+}
+
+function detectIndentedSymbols(lines: string[], from: number, to: number, parentIndent: number): SymbolRange[] {
+	const symbols: SymbolRange[] = [];
+	let i = from;
+	while (i <= to) {
+		const match = PYTHON_PATTERN.exec(lines[i]);
+		if (!match || match[1].length <= parentIndent) {
+			i++;
+			continue;
+		}
+
+		const indent = match[1].length;
+		let start = i;
+		while (start > from && /^\s*@/.test(lines[start - 1])) {
+			start--;
+		}
+
+		// The body ends before the next non-blank line that is not indented further
+		let end = i;
+		for (let j = i + 1; j <= to; j++) {
+			if (lines[j].trim() === '') {
+				continue;
+			}
+			if (indentation(lines[j]) <= indent) {
+				break;
+			}
+			end = j;
+		}
+
+		const kind: ChunkKind = match[2] === 'class' ? 'class' : (parentIndent >= 0 ? 'method' : 'function');
+		const children = kind === 'class' ? detectIndentedSymbols(lines, i + 1, end, indent) : [];
+		symbols.push({ name: match[3], kind, start, end, children });
+		i = end + 1;
+	}
+	return symbols;
+}
+
+function indentation(line: string): number {
+	return line.length - line.trimStart().length;
+}
+
+function detectMarkdownSections(lines: string[]): SymbolRange[] {
+	const headings: Array<{ name: string; line: number }> = [];
+	lines.forEach((line, index) => {
+		const match = MARKDOWN_HEADING_PATTERN.exec(line);
+		if (match) {
+			headings.push({ name: match[2].trim(), line: index });
+		}
+	});
+	return headings.map((heading, index) => ({
+		name: heading.name,
+		kind: 'section' as ChunkKind,
+		start: heading.line,
+		end: index + 1 < headings.length ? headings[index + 1].line - 1 : lines.length - 1,
+		children: []
+	}));
+}
+
+// Flatten symbols into an index in file order. Containers qualify the names of their members, as in chunk
+// names; top-level declarations are marked exported or not.
+function indexSymbols(lines: string[], symbols: SymbolRange[], languageId: string | undefined): CodeSymbol[] {
+	const indexed: CodeSymbol[] = [];
+	const add = (symbol: SymbolRange, container: string | undefined) => {
+		if (symbol.kind === 'section' || symbol.kind === 'block') {
+			return;
+		}
+		const entry: CodeSymbol = { name: symbol.name, kind: symbol.kind, start_line: symbol.start + 1, end_line: symbol.end + 1 };
+		if (container) {
+			entry.container = container;
+		} else {
+			entry.exported = isExported(lines[symbol.start], symbol.name, languageId);
+		}
+		indexed.push(entry);
+		symbol.children.forEach(child => add(child, container ? `${container}.${symbol.name}` : symbol.name));
+	};
+	symbols.forEach(symbol => add(symbol, undefined));
+	if (!languageId || !MODULE_LANGUAGES.has(languageId)) {
+		return indexed;
+	}
+
+	// Exported constants are not declarations the chunks are split along, and `export { ... }` lists
+	// export declarations made elsewhere in the module
+	const starts = new Set(symbols.map(symbol => symbol.start));
+	const listed = new Set<string>();
+	lines.forEach((line, index) => {
+		const variable = EXPORTED_VARIABLE_PATTERN.exec(line);
+		if (variable && !starts.has(index)) {
+			indexed.push({ name: variable[1], kind: 'variable', start_line: index + 1, end_line: findBraceEnd(lines, index, lines.length - 1) + 1, exported: true });
+		}
+		const list = EXPORT_LIST_PATTERN.exec(line);
+		for (const item of list ? list[1].split(',') : []) {
+			const name = item.trim().split(/\s+as\s+/)[0].replace(/^type\s+/, '');
+			if (name) {
+				listed.add(name);
+			}
+		}
+	});
+	indexed.forEach(entry => {
+		if (entry.exported === false && listed.has(entry.name)) {
+			entry.exported = true;
+		}
+	});
+	return indexed.sort((a, b) => a.start_line - b.start_line);
+}
+
+// Whether a top-level declaration can be used from other modules, by the conventions of its language
+function isExported(line: string, name: string, languageId: string | undefined): boolean {
+	switch (languageId) {
+		case 'go':
+			return /^[A-Z]/.test(name);
+		case 'python':
+		case 'dart':
+			return !name.startsWith('_');
+		case 'c':
+		case 'cpp':
+		case 'objective-c':
+		case 'objective-cpp':
+			return !/\bstatic\b/.test(line);
+		default:
+			return /^\s*(?:export|pub|public)\b/.test(line);
+	}
+}
+
+// Turn symbols into chunks, filling the gaps between them with top-level blocks
+function buildChunks(lines: string[], symbols: SymbolRange[], from: number, to: number, parent: string | undefined): CodeChunk[] {
+	const chunks: CodeChunk[] = [];
+	let cursor = from;
+
+	for (const symbol of symbols) {
+		// Overlapping symbols (e.g. a variable holding a function) keep the first one
+		if (symbol.start < cursor || symbol.start > to) {
+			continue;
+		}
+		const end = Math.min(symbol.end, to);
+		if (symbol.start > cursor) {
+			chunks.push(...windowChunks(lines, cursor, symbol.start - 1, parent, 'block'));
+		}
+
+		const name = parent ? `${parent}.${symbol.name}` : symbol.name;
+		if (end - symbol.start + 1 <= MAX_CHUNK_LINES) {
+			chunks.push(makeChunk(lines, symbol.start, end, name, symbol.kind));
+		} else if (symbol.children.length > 0) {
+			// Large containers are split along their members; the code between members stays with the container
+			chunks.push(...buildChunks(lines, symbol.children, symbol.start, end, name).map(chunk =>
+				chunk.kind === 'block' ? { ...chunk, kind: symbol.kind } : chunk
+			));
+		} else {
+			chunks.push(...windowChunks(lines, symbol.start, end, name, symbol.kind));
+		}
+		cursor = end + 1;
+	}
+
+	if (cursor <= to) {
+		chunks.push(...windowChunks(lines, cursor, to, parent, 'block'));
+	}
+	return chunks;
+}
+
+function windowChunks(lines: string[], from: number, to: number, name: string | undefined, kind: ChunkKind): CodeChunk[] {
+	const chunks: CodeChunk[] = [];
+	for (let start = from; start <= to; start += MAX_CHUNK_LINES) {
+		const end = Math.min(start + MAX_CHUNK_LINES - 1, to);
+		// Blank stretches between declarations carry nothing worth sending
+		if (lines.slice(start, end + 1).every(line => line.trim() === '')) {
+			continue;
+		}
+		chunks.push(makeChunk(lines, start, end, name, kind));
+	}
+	return chunks;
+}
+
+function makeChunk(lines: string[], start: number, end: number, name: string | undefined, kind: ChunkKind): CodeChunk {
+	const chunk: CodeChunk = {
+		kind,
+		start_line: start + 1,
+		end_line: end + 1,
+		content: lines.slice(start, end + 1).join('\n')
+	};
+	if (name) {
+		chunk.name = name;
+	}
+	return chunk;
+}
@@ -0,0 +1,415 @@
+import * as path from 'path';
+import { textFromChunks } from './chunker';
+import { toPayloadFile } from './deltaSync';
+import { payloadBytes } from './outgoingContext';
+import { tokenize } from './retrieval';
+import { CodeChunk, ConversationTurn, FileInfo, GitContext, QueryAnchor, WorkspaceAnalysis } from './types';
+
+// Rough size of a token in source code, for budgets given in tokens
+export const BYTES_PER_TOKEN = 4;
+
+// What a file contributes to the request: all of its content, the parts relevant to the query, or its metadata and symbols only
+export type FileTreatment = 'full' | 'excerpt' | 'metadata';
+
+// Ranking weights; a file's score is the sum of the signals it matches
+const ACTIVE_FILE_SCORE = 100;
+const IMPORT_NEIGHBOR_SCORE = 40;
+const OPEN_TAB_SCORE = 30;
+const QUERY_MATCH_SCORE = 25;
+const DIRECTORY_PROXIMITY_SCORE = 20;
+const RECENCY_SCORE = 15;
+
+// Files further from the active file than this many directory steps are not near it
+const MAX_PROXIMITY_DISTANCE = 3;
+
+// Edits older than this no longer count as recent
+const RECENCY_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Entries of every file are placed first, in rank order, up to this share of the budget;
+// the rest goes to content, and entries that did not fit are added from what content left over
+const METADATA_SHARE = 0.25;
+
+// Files listed one by one in the logged plan
+const PLAN_LOG_FILES = 25;
+
+const IMPORT_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs', '.py', '.h', '.hpp'];
+
+// What the user is working on, which files are ranked against
+export interface PlanSignals {
+	query: string;
+	// As vscode.workspace.asRelativePath gives it: prefixed with the root name in multi-root workspaces
+	activeFile: string | null;
+	selection: { startLine: number; endLine: number } | null;
+	// Files open in editor tabs, in the same form as activeFile
+	openFiles: string[];
+	// How well each file matches the query, from 0 to 1
+	queryScores: Map<FileInfo, number>;
+	now: number;
+}
+
+export interface PlanOptions {
+	budgetBytes: number;
+	// Most an excerpt of one file may take
+	excerptBytes: number;
+	// Taken by the rest of the request before any file: the query, anchor, history and git context
+	reservedBytes?: number;
+}
+
+// The parts of a request sent besides the files
+export interface RequestExtras {
+	query: string;
+	anchor?: QueryAnchor;
+	history: ConversationTurn[];
+	git?: GitContext[];
+}
+
+export interface PlannedFile {
+	workspaceName: string;
+	path: string;
+	score: number;
+	// The signals the file matched, for the logged plan
+	reasons: string[];
+	// Omitted files did not fit even as metadata
+	treatment: FileTreatment | 'omitted';
+	bytes: number;
+}
+
+export interface ContextPlan {
+	budgetBytes: number;
+	// Included in usedBytes
+	reservedBytes: number;
+	usedBytes: number;
+	// Most relevant first
+	files: PlannedFile[];
+}
+
+interface Candidate {
+	analysis: WorkspaceAnalysis;
+	file: FileInfo;
+	planned: PlannedFile;
+	metadata: FileInfo;
+}
+
+// Whether a path in asRelativePath form names a file of an analysis
+function namesFile(relativePath: string, analysis: WorkspaceAnalysis, file: FileInfo): boolean {
+	return relativePath === file.path || relativePath === `${analysis.workspaceName}/${file.path}`;
+}
+
+function fileContent(file: FileInfo): string {
+	return file.chunks ? textFromChunks(file.chunks) : (file.sample ?? '');
+}
+
+// Module specifiers of relative imports and includes, for the languages whose syntax is recognized
+function importSpecifiers(text: string): string[] {
+	const specifiers: string[] = [];
+	const patterns = [
+		/\b(?:import|export)\b[^'"`;]*?\bfrom\s*['"]([^'"]+)['"]/g,
+		/\bimport\s*\(?\s*['"]([^'"]+)['"]/g,
+		/\brequire\(\s*['"]([^'"]+)['"]\s*\)/g,
+		/^\s*from\s+(\.+[\w.]*)\s+import\b/gm,
+		/^\s*#\s*include\s*"([^"]+)"/gm
+	];
+	for (const pattern of patterns) {
+		for (const match of text.matchAll(pattern)) {
+			specifiers.push(match[1]);
+		}
+	}
+	return specifiers;
+}
+
+// Paths within the root an import of fromFile may refer to
+function importCandidates(fromFile: string, specifier: string): string[] {
+	const directory = path.posix.dirname(fromFile);
+	let target: string;
+	if (/^\.+\w/.test(specifier)) {
+		// Python: each leading dot beyond the first goes up a package
+		const dots = specifier.match(/^\.+/)![0].length;
+		target = path.posix.join(directory, '../'.repeat(dots - 1), specifier.substring(dots).replace(/\./g, '/'));
+	} else if (specifier.startsWith('.') || /\.(c|cc|cpp|h|hpp)$/.test(fromFile)) {
+		// C includes in quotes are relative to the including file
+		target = path.posix.join(directory, specifier);
+	} else {
+		// Packages, not files of the workspace
+		return [];
+	}
+	target = target.replace(/^\.\//, '');
+	// TypeScript imports name the compiled .js file
+	const stem = target.replace(/\.(js|jsx|mjs|cjs)$/, '');
+	return [
+		target,
+		...IMPORT_EXTENSIONS.map(extension => `${stem}${extension}`),
+		...IMPORT_EXTENSIONS.map(extension => `${target}/index${extension}`),
+		`${target}/__init__.py`
+	];
+}
+
+function resolvesTo(fromFile: string, text: string, targets: Set<string>): boolean {
+	return importSpecifiers(text).some(specifier => importCandidates(fromFile, specifier).some(candidate => targets.has(candidate)));
+}
+
+// Files the active file imports, and files that import it, within its root
+function importNeighbors(analysis: WorkspaceAnalysis, active: FileInfo): Set<FileInfo> {
+	const neighbors = new Set<FileInfo>();
+	const byPath = new Map(analysis.files.map(file => [file.path, file]));
+	for (const specifier of importSpecifiers(fileContent(active))) {
+		const imported = importCandidates(active.path, specifier).map(candidate => byPath.get(candidate)).find(file => file !== undefined);
+		if (imported && imported !== active) {
+			neighbors.add(imported);
+		}
+	}
+
+	// Only files that mention the active file's name can import it
+	const stem = path.posix.basename(active.path).replace(/\.[^.]+$/, '');
+	const targets = new Set([active.path]);
+	for (const file of analysis.files) {
+		if (file === active || neighbors.has(file)) {
+			continue;
+		}
+		const text = fileContent(file);
+		if (text.includes(stem) && resolvesTo(file.path, text, targets)) {
+			neighbors.add(file);
+		}
+	}
+	return neighbors;
+}
+
+// Directory steps between two files of the same root
+function directoryDistance(a: string, b: string): number {
+	const aParts = path.posix.dirname(a).split('/').filter(part => part !== '.');
+	const bParts = path.posix.dirname(b).split('/').filter(part => part !== '.');
+	let common = 0;
+	while (common < aParts.length && common < bParts.length && aParts[common] === bParts[common]) {
+		common++;
+	}
+	return aParts.length - common + bParts.length - common;
+}
+
+// The chunks most relevant to the query and selection, in file order, within maxBytes;
+// for files without chunks, the start of the sample
+function excerptOf(file: FileInfo, queryTerms: string[], selection: PlanSignals['selection'], maxBytes: number): FileInfo | undefined {
+	const { sample, chunks, redactions, ...metadata } = file;
+	if (!chunks || chunks.length === 0) {
+		if (!sample) {
+			return undefined;
+		}
+		return { ...metadata, sample: sample.substring(0, maxBytes), excerpt: true };
+	}
+
+	const relevance = (chunk: CodeChunk): number => {
+		const overlapsSelection = selection !== null && chunk.start_line <= selection.endLine && chunk.end_line >= selection.startLine;
+		const content = `${chunk.name ?? ''}\n${chunk.content}`.toLowerCase();
+		return (overlapsSelection ? queryTerms.length + 1 : 0) + queryTerms.filter(term => content.includes(term)).length;
+	};
+	const ranked = chunks
+		.map((chunk, index) => ({ chunk, index, relevance: relevance(chunk) }))
+		.sort((a, b) => b.relevance - a.relevance || a.index - b.index);
+
+	const selected: Array<{ chunk: CodeChunk; index: number }> = [];
+	let bytes = 0;
+	for (const entry of ranked) {
+		const size = Buffer.byteLength(JSON.stringify(entry.chunk), 'utf-8');
+		if (bytes + size > maxBytes) {
+			continue;
+		}
+		selected.push(entry);
+		bytes += size;
+	}
+	if (selected.length === 0) {
+		return undefined;
+	}
+	return { ...metadata, chunks: selected.sort((a, b) => a.index - b.index).map(entry => entry.chunk), excerpt: true };
+}
+
+function extrasBytes(extras: RequestExtras): number {
+	return Buffer.byteLength(JSON.stringify(extras), 'utf-8');
+}
+
+// Cut the parts of a request other than its files to maxBytes, least needed first: the commit history of
+// the git context, then its diffs (the changed files stay listed), then the oldest turns. The query and the
+// anchor are what the question is about and are kept whole, even past maxBytes.
+export function fitRequestExtras(extras: RequestExtras, maxBytes: number): { extras: RequestExtras; bytes: number; trimmed: string[] } {
+	const trimmed: string[] = [];
+	let fitted = extras;
+	let bytes = extrasBytes(fitted);
+
+	if (bytes > maxBytes && fitted.git?.some(context => context.history)) {
+		fitted = { ...fitted, git: fitted.git!.map(({ history, ...context }) => context) };
+		bytes = extrasBytes(fitted);
+		trimmed.push('git commit history');
+	}
+	if (bytes > maxBytes && fitted.git?.some(context => context.staged || context.unstaged)) {
+		fitted = {
+			...fitted,
+			git: fitted.git!.map(({ staged, unstaged, ...context }) => {
+				const omitted = new Set([...(context.omitted ?? []), ...context.changes.filter(change => change.status !== 'untracked').map(change => change.path)]);
+				return omitted.size > 0 ? { ...context, omitted: Array.from(omitted) } : context;
+			})
+		};
+		bytes = extrasBytes(fitted);
+		trimmed.push('git diffs');
+	}
+	let dropped = 0;
+	while (bytes > maxBytes && dropped < fitted.history.length) {
+		dropped++;
+		bytes = extrasBytes({ ...fitted, history: fitted.history.slice(dropped) });
+	}
+	if (dropped > 0) {
+		fitted = { ...fitted, history: fitted.history.slice(dropped) };
+		trimmed.push(`${dropped} earlier ${dropped === 1 ? 'turn' : 'turns'}`);
+	}
+	return { extras: fitted, bytes, trimmed };
+}
+
+// Rank every file against what the user is working on and fit the request into the budget: files are
+// sent in full while it lasts, then as excerpts, then as metadata and symbols only; the least relevant are left out.
+// Returns copies of the analyses holding the planned files, and the plan.
+export function planContext(analyses: WorkspaceAnalysis[], signals: PlanSignals, options: PlanOptions): { analyses: WorkspaceAnalysis[]; plan: ContextPlan } {
+	const queryTerms = Array.from(new Set(tokenize(signals.query)));
+	const openFiles = new Set(signals.openFiles);
+
+	// The active file and its import neighbors
+	let activeRoot: WorkspaceAnalysis | undefined;
+	let active: FileInfo | undefined;
+	if (signals.activeFile) {
+		for (const analysis of analyses) {
+			active = analysis.files.find(file => namesFile(signals.activeFile!, analysis, file));
+			if (active) {
+				activeRoot = analysis;
+				break;
+			}
+		}
+	}
+	const neighbors = activeRoot && active ? importNeighbors(activeRoot, active) : new Set<FileInfo>();
+
+	const candidates: Candidate[] = [];
+	for (const analysis of analyses) {
+		for (const file of analysis.files) {
+			const reasons: string[] = [];
+			let score = 0;
+			const add = (points: number, reason: string) => {
+				if (points > 0.5) {
+					score += points;
+					reasons.push(reason);
+				}
+			};
+
+			if (file === active) {
+				add(ACTIVE_FILE_SCORE, 'active file');
+			} else {
+				if (neighbors.has(file)) {
+					add(IMPORT_NEIGHBOR_SCORE, 'imports or is imported by the active file');
+				}
+				const distance = active && analysis === activeRoot ? directoryDistance(active.path, file.path) : Infinity;
+				if (distance <= MAX_PROXIMITY_DISTANCE) {
+					add(DIRECTORY_PROXIMITY_SCORE / (1 + distance), 'near the active file');
+				}
+			}
+			if (file !== active && Array.from(openFiles).some(open => namesFile(open, analysis, file))) {
+				add(OPEN_TAB_SCORE, 'open in an editor');
+			}
+			add(QUERY_MATCH_SCORE * (signals.queryScores.get(file) ?? 0), 'matches the query');
+			add(RECENCY_SCORE * Math.max(0, 1 - (signals.now - file.mtime) / RECENCY_WINDOW_MS), 'recently modified');
+
+			const { sample, chunks, redactions, ...metadata } = file;
+			candidates.push({
+				analysis,
+				file,
+				metadata,
+				planned: { workspaceName: analysis.workspaceName, path: file.path, score, reasons, treatment: 'omitted', bytes: 0 }
+			});
+		}
+	}
+	// Stable, so equally ranked files keep the analysis order
+	candidates.sort((a, b) => b.planned.score - a.planned.score);
+
+	// Files get what the rest of the request leaves
+	const reserved = options.reservedBytes ?? 0;
+	const budget = Math.max(0, options.budgetBytes - reserved);
+	let used = 0;
+	const place = (candidate: Candidate, treatment: FileTreatment, bytes: number) => {
+		used += bytes - candidate.planned.bytes;
+		candidate.planned.treatment = treatment;
+		candidate.planned.bytes = bytes;
+	};
+
+	// Entries first, within their share
+	for (const candidate of candidates) {
+		const bytes = payloadBytes(candidate.metadata);
+		if (used + bytes <= budget * METADATA_SHARE) {
+			place(candidate, 'metadata', bytes);
+		}
+	}
+
+	// Then content, most relevant first
+	const contents = new Map<Candidate, FileInfo>();
+	for (const candidate of candidates) {
+		if (candidate.planned.treatment === 'omitted' || (!candidate.file.sample && !candidate.file.chunks)) {
+			continue;
+		}
+		const full = toPayloadFile(candidate.file);
+		const fullBytes = payloadBytes(full);
+		if (used - candidate.planned.bytes + fullBytes <= budget) {
+			place(candidate, 'full', fullBytes);
+			contents.set(candidate, candidate.file);
+			continue;
+		}
+		const excerptBudget = Math.min(options.excerptBytes, budget - used);
+		const excerpt = excerptBudget > 0 ? excerptOf(candidate.file, queryTerms, candidate.file === active ? signals.selection : null, excerptBudget) : undefined;
+		if (excerpt) {
+			const excerptBytes = payloadBytes(toPayloadFile(excerpt));
+			if (used - candidate.planned.bytes + excerptBytes <= budget) {
+				place(candidate, 'excerpt', excerptBytes);
+				contents.set(candidate, excerpt);
+			}
+		}
+	}
+
+	// Entries that did not fit their share, from what is left
+	for (const candidate of candidates) {
+		if (candidate.planned.treatment === 'omitted') {
+			const bytes = payloadBytes(candidate.metadata);
+			if (used + bytes <= budget) {
+				place(candidate, 'metadata', bytes);
+			}
+		}
+	}
+
+	const byFile = new Map(candidates.map(candidate => [candidate.file, candidate]));
+	const planned = analyses.map(analysis => {
+		const files = analysis.files.flatMap(file => {
+			const candidate = byFile.get(file)!;
+			if (candidate.planned.treatment === 'omitted') {
+				return [];
+			}
+			return [contents.get(candidate) ?? candidate.metadata];
+		});
+		return { ...analysis, files };
+	});
+
+	return {
+		analyses: planned,
+		plan: { budgetBytes: options.budgetBytes, reservedBytes: reserved, usedBytes: reserved + used, files: candidates.map(candidate => candidate.planned) }
+	};
+}
+
+function formatBytes(bytes: number): string {
+	return bytes < 1024 ? `${bytes} B` : bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
+}
+
+// The plan as output channel lines: totals, then the highest ranked files with why they rank there
+export function describePlan(plan: ContextPlan, multiRoot: boolean): string[] {
+	const count = (treatment: PlannedFile['treatment']) => plan.files.filter(file => file.treatment === treatment).length;
+	const lines = [
+		`Context plan: ${formatBytes(plan.usedBytes)} of ${formatBytes(plan.budgetBytes)} (~${Math.ceil(plan.usedBytes / BYTES_PER_TOKEN)} tokens): `
+		+ `${count('full')} full, ${count('excerpt')} excerpted, ${count('metadata')} metadata only, ${count('omitted')} left out`
+		+ (plan.reservedBytes > 0 ? `; ${formatBytes(plan.reservedBytes)} of it for the query, history and git context` : '')
+	];
+	for (const file of plan.files.slice(0, PLAN_LOG_FILES)) {
+		const name = multiRoot ? `${file.workspaceName}/${file.path}` : file.path;
+		lines.push(`  ${file.treatment.padEnd(8)} ${name} (${formatBytes(file.bytes)}, score ${file.score.toFixed(1)}${file.reasons.length > 0 ? `: ${file.reasons.join(', ')}` : ''})`);
+	}
+	if (plan.files.length > PLAN_LOG_FILES) {
+		lines.push(`  ... and ${plan.files.length - PLAN_LOG_FILES} more`);
+	}
+	return lines;
+}
@@ -0,0 +1,106 @@
+import * as vscode from 'vscode';
+import { ConversationMessage, ConversationTurn, QueryAnswer } from './types';
+
+// Explanations are cut to this length in full turns; the file and lines carry most of the context
+const MAX_EXPLANATION_LENGTH = 400;
+// A prose reply covers the whole answer, so more of it is kept
+const MAX_REPLY_LENGTH = 1200;
+// Summarized turns keep this much of the question and this many answer references
+const SUMMARY_QUERY_LENGTH = 160;
+const SUMMARY_MAX_ANSWERS = 5;
+
+export interface FittedHistory {
+	turns: ConversationTurn[];
+	summarized: number;
+	dropped: number;
+}
+
+// The turn a question and its answers become in the history of later queries
+export function toConversationTurn(query: string, answers: QueryAnswer[], reply?: string): ConversationTurn {
+	return {
+		query,
+		reply: reply ? truncate(reply, MAX_REPLY_LENGTH) : undefined,
+		answers: answers.map(answer => ({
+			file: answer.file,
+			start_line: answer.start_line,
+			end_line: answer.end_line,
+			explanation: truncate(answer.explanation, MAX_EXPLANATION_LENGTH) || undefined
+		}))
+	};
+}
+
+// Turns of a sidebar conversation: questions that got answers, cancelled and failed ones left out
+export function turnsFromMessages(messages: ConversationMessage[]): ConversationTurn[] {
+	const turns: ConversationTurn[] = [];
+	for (let i = 0; i + 1 < messages.length; i++) {
+		const question = messages[i];
+		const reply = messages[i + 1];
+		if (question.role === 'user' && reply.role === 'assistant' && reply.answers) {
+			turns.push(toConversationTurn(question.content, reply.answers, reply.reply));
+			i++;
+		}
+	}
+	return turns;
+}
+
+// Turns of a chat conversation, from the metadata this participant returned with each response
+export function turnsFromChatHistory(history: ReadonlyArray<vscode.ChatRequestTurn | vscode.ChatResponseTurn>, participant: string): ConversationTurn[] {
+	const turns: ConversationTurn[] = [];
+	for (const turn of history) {
+		if (turn instanceof vscode.ChatResponseTurn && turn.participant === participant) {
+			const recorded = turn.result.metadata?.turn as ConversationTurn | undefined;
+			if (recorded) {
+				turns.push(recorded);
+			}
+		}
+	}
+	return turns;
+}
+
+// Keep the latest turns within the budget: as many as fit in summarized form, then the newest of
+// those in full while the budget allows, so older turns are summarized before any is dropped
+export function fitHistory(turns: ConversationTurn[], maxTurns: number, budgetChars: number): FittedHistory {
+	const recent = maxTurns > 0 ? turns.slice(-maxTurns) : [];
+	const size = (turn: ConversationTurn) => JSON.stringify(turn).length;
+
+	const fitted: ConversationTurn[] = [];
+	let used = 0;
+	for (let i = recent.length - 1; i >= 0; i--) {
+		const summary = summarizeTurn(recent[i]);
+		if (used + size(summary) > budgetChars) {
+			break;
+		}
+		fitted.unshift(summary);
+		used += size(summary);
+	}
+
+	const offset = recent.length - fitted.length;
+	let summarized = fitted.length;
+	for (let i = fitted.length - 1; i >= 0; i--) {
+		const full = recent[offset + i];
+		const extra = size(full) - size(fitted[i]);
+		if (used + extra > budgetChars) {
+			break;
+		}
+		fitted[i] = full;
+		used += extra;
+		summarized--;
+	}
+
+	return { turns: fitted, summarized, dropped: turns.length - fitted.length };
+}
+
+function summarizeTurn(turn: ConversationTurn): ConversationTurn {
+	if (turn.summarized) {
+		return turn;
+	}
+	return {
+		query: truncate(turn.query, SUMMARY_QUERY_LENGTH),
+		answers: turn.answers.slice(0, SUMMARY_MAX_ANSWERS).map(({ file, start_line, end_line }) => ({ file, start_line, end_line })),
+		summarized: true
+	};
+}
+
+function truncate(text: string, length: number): string {
+	return text.length > length ? `${text.substring(0, length - 1)}…` : text;
+}
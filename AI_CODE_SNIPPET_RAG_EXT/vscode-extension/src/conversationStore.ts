@@ -0,0 +1,192 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import { ConversationMessage, ConversationSession } from './types';
+
+const CONVERSATIONS_KEY = 'aiCodeSnippetRag.conversations';
+// Bump when the stored layout changes
+const CONVERSATIONS_VERSION = 1;
+
+const UNTITLED_SESSION = 'New conversation';
+const MAX_DERIVED_NAME_LENGTH = 48;
+const SEARCH_CONTEXT_LENGTH = 40;
+
+interface StoredConversations {
+	version: number;
+	activeId: string;
+	sessions: ConversationSession[];
+}
+
+export interface ConversationSummary {
+	id: string;
+	name: string;
+	updatedAt: number;
+	messageCount: number;
+	active: boolean;
+}
+
+export interface ConversationSearchResult {
+	sessionId: string;
+	sessionName: string;
+	messageIndex: number;
+	role: 'user' | 'assistant';
+	// The text around the match
+	excerpt: string;
+}
+
+// Named sidebar conversations, persisted per workspace; there is always an active one
+export class ConversationStore {
+	private _sessions: ConversationSession[];
+	private _activeId: string;
+
+	constructor(private readonly _state: vscode.Memento) {
+		const stored = _state.get<StoredConversations>(CONVERSATIONS_KEY);
+		this._sessions = stored?.version === CONVERSATIONS_VERSION ? stored.sessions : [];
+		if (this._sessions.length === 0) {
+			this._sessions.push(newSession());
+		}
+		this._activeId = this._sessions.some(session => session.id === stored?.activeId) ? stored!.activeId : this._sessions[0].id;
+	}
+
+	public get active(): ConversationSession {
+		return this._sessions.find(session => session.id === this._activeId)!;
+	}
+
+	public get(id: string): ConversationSession | undefined {
+		return this._sessions.find(session => session.id === id);
+	}
+
+	// Most recently used first
+	public list(): ConversationSummary[] {
+		return [...this._sessions]
+			.sort((a, b) => b.updatedAt - a.updatedAt)
+			.map(session => ({
+				id: session.id,
+				name: sessionName(session),
+				updatedAt: session.updatedAt,
+				messageCount: session.messages.length,
+				active: session.id === this._activeId
+			}));
+	}
+
+	public async create(name?: string): Promise<ConversationSession> {
+		const session = newSession(name);
+		this._sessions.push(session);
+		this._activeId = session.id;
+		await this._save();
+		return session;
+	}
+
+	public async switchTo(id: string): Promise<boolean> {
+		if (!this.get(id)) {
+			return false;
+		}
+		this._activeId = id;
+		await this._save();
+		return true;
+	}
+
+	public async rename(id: string, name: string): Promise<void> {
+		const session = this.get(id);
+		if (session) {
+			session.name = name.trim() || undefined;
+			await this._save();
+		}
+	}
+
+	// Deleting the active session activates the most recent other one, or a new empty one
+	public async delete(id: string): Promise<void> {
+		this._sessions = this._sessions.filter(session => session.id !== id);
+		if (this._sessions.length === 0) {
+			this._sessions.push(newSession());
+		}
+		if (!this.get(this._activeId)) {
+			this._activeId = [...this._sessions].sort((a, b) => b.updatedAt - a.updatedAt)[0].id;
+		}
+		await this._save();
+	}
+
+	// Append to a given session, so a query finishing after a switch lands where it was asked
+	public async append(session: ConversationSession, message: ConversationMessage): Promise<void> {
+		session.messages.push(message);
+		session.updatedAt = message.timestamp;
+		if (this.get(session.id)) {
+			await this._save();
+		}
+	}
+
+	// Case-insensitive search over every message and session name
+	public search(text: string): ConversationSearchResult[] {
+		const needle = text.trim().toLowerCase();
+		if (!needle) {
+			return [];
+		}
+
+		const results: ConversationSearchResult[] = [];
+		for (const session of this._sessions) {
+			const name = sessionName(session);
+			session.messages.forEach((message, messageIndex) => {
+				const haystack = searchableText(message);
+				const index = haystack.toLowerCase().indexOf(needle);
+				if (index >= 0) {
+					results.push({ sessionId: session.id, sessionName: name, messageIndex, role: message.role, excerpt: excerptAround(haystack, index, needle.length) });
+				}
+			});
+			if (name.toLowerCase().includes(needle) && !results.some(result => result.sessionId === session.id)) {
+				results.push({ sessionId: session.id, sessionName: name, messageIndex: -1, role: 'user', excerpt: name });
+			}
+		}
+		return results;
+	}
+
+	private _save(): Thenable<void> {
+		const stored: StoredConversations = { version: CONVERSATIONS_VERSION, activeId: this._activeId, sessions: this._sessions };
+		return this._state.update(CONVERSATIONS_KEY, stored);
+	}
+}
+
+function newSession(name?: string): ConversationSession {
+	const now = Date.now();
+	return { id: crypto.randomUUID(), name, createdAt: now, updatedAt: now, messages: [] };
+}
+
+// The given name, else the first question
+export function sessionName(session: ConversationSession): string {
+	if (session.name) {
+		return session.name;
+	}
+	const question = session.messages.find(message => message.role === 'user')?.content.replace(/\s+/g, ' ').trim();
+	if (!question) {
+		return UNTITLED_SESSION;
+	}
+	return question.length > MAX_DERIVED_NAME_LENGTH ? `${question.substring(0, MAX_DERIVED_NAME_LENGTH - 1)}…` : question;
+}
+
+// Answers are searched by file, code and explanation, not by their rendered markdown
+function searchableText(message: ConversationMessage): string {
+	if (!message.answers || message.answers.length === 0) {
+		return message.content;
+	}
+	const answers = message.answers.map(answer => `${answer.file}\n${answer.explanation}\n${answer.code}`);
+	return [message.notice, message.reply, ...answers].filter(text => text).join('\n');
+}
+
+function excerptAround(text: string, index: number, length: number): string {
+	const start = Math.max(0, index - SEARCH_CONTEXT_LENGTH);
+	const end = Math.min(text.length, index + length + SEARCH_CONTEXT_LENGTH);
+	return `${start > 0 ? '…' : ''}${text.substring(start, end).replace(/\s+/g, ' ')}${end < text.length ? '…' : ''}`;
+}
+
+// A session as Markdown, for attaching a thread to a code review
+export function conversationToMarkdown(session: ConversationSession): string {
+	const lines = [`# ${sessionName(session)}`, '', `_${session.messages.length} messages, last updated ${new Date(session.updatedAt).toLocaleString()}_`, ''];
+	for (const message of session.messages) {
+		const time = new Date(message.timestamp).toLocaleString();
+		lines.push(message.role === 'user' ? `## Question (${time})` : `### Answer (${time})`, '', message.content, '');
+	}
+	return lines.join('\n');
+}
+
+// A session as JSON, with the structured answers
+export function conversationToJson(session: ConversationSession): string {
+	return JSON.stringify({ ...session, name: sessionName(session) }, null, 2);
+}
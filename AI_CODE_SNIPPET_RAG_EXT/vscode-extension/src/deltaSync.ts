@@ -0,0 +1,115 @@
+import * as crypto from 'crypto';
+import { FileInfo, ManifestEntry, SyncManifestRequest, SyncManifestResponse, SyncUploadRequest, WorkspaceAnalysis } from './types';
+import { textFromChunks } from './chunker';
+import { BackendHttpError } from './backendClient';
+
+// Posts an already serialized JSON body to a backend endpoint
+export type PostJson = (endpoint: string, body: string) => Promise<Response>;
+
+export interface SyncResult {
+	manifestFiles: number;
+	uploadedFiles: number;
+	uploadedBytes: number;
+}
+
+// Content hashes are cached per FileInfo; incremental updates replace the object, so stale hashes fall away
+const fileHashes: WeakMap<FileInfo, string> = new WeakMap();
+
+// Files with chunks are sent without the truncated sample, which the chunks already cover;
+// redaction details stay on this machine
+export function toPayloadFile(file: FileInfo): FileInfo {
+	const { sample, redactions, ...rest } = file;
+	return file.chunks ? rest : { ...rest, sample };
+}
+
+// Hash of what the backend holds for a file, so edits that keep size and mtime still show up. The symbols
+// count too: the same content is indexed differently once the language server provides them.
+export function fileHash(file: FileInfo): string {
+	let hash = fileHashes.get(file);
+	if (!hash) {
+		const content = file.chunks ? textFromChunks(file.chunks) : (file.sample ?? '');
+		hash = crypto.createHash('sha256').update(`${file.path}|${file.size}|${content}`).update(JSON.stringify(file.symbols ?? [])).digest('hex');
+		fileHashes.set(file, hash);
+	}
+	return hash;
+}
+
+export function buildManifest(files: FileInfo[]): ManifestEntry[] {
+	return files.map(file => ({ path: file.path, hash: fileHash(file) }));
+}
+
+// Tracks which fingerprint each backend already holds, and which backends lack the handshake
+export class DeltaSync {
+	private _synced: Map<string, string> = new Map();
+	private _unsupported: Set<string> = new Set();
+
+	public isSupported(serverUrl: string): boolean {
+		return !this._unsupported.has(serverUrl);
+	}
+
+	public isSynced(serverUrl: string, fingerprint: string): boolean {
+		return this._synced.get(serverUrl) === fingerprint;
+	}
+
+	// Forget what a backend holds, e.g. after it reported an unknown fingerprint
+	public invalidate(serverUrl: string): void {
+		this._synced.delete(serverUrl);
+	}
+
+	// Send the manifest, then upload only the files the backend is missing or holds stale.
+	// Returns undefined when the backend does not implement the handshake.
+	public async sync(serverUrl: string, fingerprint: string, analyses: WorkspaceAnalysis[], post: PostJson): Promise<SyncResult | undefined> {
+		const manifestRequest: SyncManifestRequest = {
+			fingerprint,
+			roots: analyses.map(analysis => ({
+				workspaceName: analysis.workspaceName,
+				workspaceRoot: analysis.workspaceRoot,
+				fingerprint: analysis.fingerprint,
+				manifest: buildManifest(analysis.files)
+			}))
+		};
+
+		const manifestResponse = await post('/sync', JSON.stringify(manifestRequest));
+		if (manifestResponse.status === 404 || manifestResponse.status === 405 || manifestResponse.status === 501) {
+			this._unsupported.add(serverUrl);
+			return undefined;
+		}
+		if (!manifestResponse.ok) {
+			throw new BackendHttpError(manifestResponse.status, `HTTP ${manifestResponse.status}: ${await manifestResponse.text()}`);
+		}
+
+		const { missing = [] } = await manifestResponse.json() as SyncManifestResponse;
+		const uploadRequest: SyncUploadRequest = {
+			fingerprint,
+			roots: missing
+				.map(entry => {
+					const analysis = analyses.find(a => a.workspaceRoot === entry.workspaceRoot);
+					const paths = new Set(entry.paths);
+					return {
+						workspaceRoot: entry.workspaceRoot,
+						fingerprint: analysis?.fingerprint ?? '',
+						files: analysis ? analysis.files.filter(file => paths.has(file.path)).map(toPayloadFile) : []
+					};
+				})
+				.filter(root => root.files.length > 0)
+		};
+
+		const uploadedFiles = uploadRequest.roots.reduce((sum, root) => sum + root.files.length, 0);
+		let uploadedBytes = 0;
+		if (uploadedFiles > 0) {
+			const body = JSON.stringify(uploadRequest);
+			uploadedBytes = Buffer.byteLength(body, 'utf-8');
+			const uploadResponse = await post('/sync/upload', body);
+			if (!uploadResponse.ok) {
+				throw new BackendHttpError(uploadResponse.status, `HTTP ${uploadResponse.status}: ${await uploadResponse.text()}`);
+			}
+		}
+
+		this._synced.set(serverUrl, fingerprint);
+		return {
+			manifestFiles: manifestRequest.roots.reduce((sum, root) => sum + root.manifest.length, 0),
+			uploadedFiles,
+			uploadedBytes
+		};
+	}
+}
@@ -0,0 +1,163 @@
+import * as vscode from 'vscode';
+import { chunkText, getOpenDocumentSymbols } from './chunker';
+import { OutgoingFilter } from './outgoingFilter';
+import { WebviewProvider } from './webviewProvider';
+import { CodeChunk, ChunkKind, QueryAnchor } from './types';
+
+// Chunks that get a "Find similar code" lens and count as the function at the cursor
+const FUNCTION_KINDS = new Set<ChunkKind>(['function', 'method']);
+
+// How an anchor is named in labels and prompts, e.g. `sendQuery` in src/extension.ts:10-20
+function describeAnchor(anchor: QueryAnchor): string {
+	return `${anchor.symbol ? `\`${anchor.symbol}\` in ` : ''}${anchor.file}:${anchor.startLine}-${anchor.endLine}`;
+}
+
+function warnNotSent(document: vscode.TextDocument): void {
+	vscode.window.showWarningMessage(`AI Code Snippet RAG: ${vscode.workspace.asRelativePath(document.uri)} is outside the workspace or excluded from the outgoing context, so its code is not sent`);
+}
+
+// Functions and methods of a document with their full line ranges. Long functions are chunked
+// in parts, which are joined back together here.
+async function findFunctions(document: vscode.TextDocument): Promise<CodeChunk[]> {
+	const chunks = chunkText(document.getText(), document.languageId, await getOpenDocumentSymbols(document.uri));
+	const functions: CodeChunk[] = [];
+	for (const chunk of chunks) {
+		if (!FUNCTION_KINDS.has(chunk.kind)) {
+			continue;
+		}
+		const last = functions[functions.length - 1];
+		if (last && last.name === chunk.name && last.kind === chunk.kind && chunk.start_line <= last.end_line + 1) {
+			last.end_line = Math.max(last.end_line, chunk.end_line);
+		} else {
+			functions.push({ ...chunk });
+		}
+	}
+	return functions;
+}
+
+function toRange(chunk: CodeChunk): vscode.Range {
+	return new vscode.Range(chunk.start_line - 1, 0, chunk.end_line - 1, Number.MAX_SAFE_INTEGER);
+}
+
+// Ask a question about the selected code, answered in the sidebar
+async function askAboutSelection(webviewProvider: WebviewProvider, outgoingFilter: OutgoingFilter): Promise<void> {
+	const editor = vscode.window.activeTextEditor;
+	if (!editor || editor.selection.isEmpty) {
+		vscode.window.showWarningMessage('AI Code Snippet RAG: Select the code to ask about');
+		return;
+	}
+	const anchor = await outgoingFilter.editorAnchor(editor.document);
+	if (!anchor) {
+		warnNotSent(editor.document);
+		return;
+	}
+
+	const question = await vscode.window.showInputBox({
+		prompt: `Ask about ${describeAnchor(anchor)}`,
+		placeHolder: 'What does this code do?'
+	});
+	if (question === undefined) {
+		return;
+	}
+	const query = question.trim() || 'What does this code do?';
+	await webviewProvider.askFromEditor(`${query}\n\n(about ${describeAnchor(anchor)})`, { intent: 'ask', query, subject: describeAnchor(anchor), anchor });
+}
+
+// Find code like the given range, the selection, or the function at the cursor. The CodeLens passes the range and name.
+async function findSimilarCode(webviewProvider: WebviewProvider, outgoingFilter: OutgoingFilter, uri?: vscode.Uri, range?: vscode.Range, symbol?: string): Promise<void> {
+	let document: vscode.TextDocument | undefined;
+	if (uri) {
+		document = await vscode.workspace.openTextDocument(uri);
+	} else {
+		const editor = vscode.window.activeTextEditor;
+		document = editor?.document;
+		if (editor && editor.selection.isEmpty) {
+			const line = editor.selection.active.line + 1;
+			// The innermost function holding the cursor
+			const enclosing = (await findFunctions(editor.document))
+				.filter(chunk => chunk.start_line <= line && chunk.end_line >= line)
+				.sort((a, b) => (a.end_line - a.start_line) - (b.end_line - b.start_line))[0];
+			if (!enclosing) {
+				vscode.window.showWarningMessage('AI Code Snippet RAG: Select code, or put the cursor in a function, to find similar code');
+				return;
+			}
+			range = toRange(enclosing);
+			symbol = enclosing.name;
+		}
+	}
+	if (!document) {
+		vscode.window.showWarningMessage('AI Code Snippet RAG: Open a file to find similar code');
+		return;
+	}
+
+	const anchor = await outgoingFilter.editorAnchor(document, range, symbol);
+	if (!anchor) {
+		warnNotSent(document);
+		return;
+	}
+	await webviewProvider.askFromEditor(`Find code similar to ${describeAnchor(anchor)}`, {
+		intent: 'similar',
+		query: `Find code similar to ${anchor.symbol ?? 'the selected code'}`,
+		subject: describeAnchor(anchor),
+		anchor
+	});
+}
+
+// Explain the whole file, from the editor or the explorer
+async function explainFile(webviewProvider: WebviewProvider, outgoingFilter: OutgoingFilter, uri?: vscode.Uri): Promise<void> {
+	const document = uri ? await vscode.workspace.openTextDocument(uri) : vscode.window.activeTextEditor?.document;
+	if (!document) {
+		vscode.window.showWarningMessage('AI Code Snippet RAG: Open the file to explain');
+		return;
+	}
+
+	const anchor = await outgoingFilter.editorAnchor(document, new vscode.Range(0, 0, Math.max(0, document.lineCount - 1), Number.MAX_SAFE_INTEGER));
+	if (!anchor) {
+		warnNotSent(document);
+		return;
+	}
+	await webviewProvider.askFromEditor(`Explain ${anchor.file}`, { intent: 'explain', query: 'Explain this file', subject: anchor.file, anchor });
+}
+
+// "Find similar code" above each function of workspace files
+class SimilarCodeLensProvider implements vscode.CodeLensProvider {
+	private _onDidChangeCodeLenses = new vscode.EventEmitter<void>();
+	public readonly onDidChangeCodeLenses = this._onDidChangeCodeLenses.event;
+
+	public refresh(): void {
+		this._onDidChangeCodeLenses.fire();
+	}
+
+	public async provideCodeLenses(document: vscode.TextDocument): Promise<vscode.CodeLens[]> {
+		if (!vscode.workspace.getConfiguration('aiCodeSnippetRag').get<boolean>('codeLens', true) || !vscode.workspace.getWorkspaceFolder(document.uri)) {
+			return [];
+		}
+		return (await findFunctions(document)).map(chunk => new vscode.CodeLens(new vscode.Range(chunk.start_line - 1, 0, chunk.start_line - 1, 0), {
+			title: 'Find similar code',
+			tooltip: `Find code in the workspace similar to ${chunk.name ?? 'this function'}`,
+			command: 'aiCodeSnippetRag.findSimilarCode',
+			arguments: [document.uri, toRange(chunk), chunk.name]
+		}));
+	}
+
+	public dispose(): void {
+		this._onDidChangeCodeLenses.dispose();
+	}
+}
+
+// Editor context menu commands, their keybindings' targets, and the CodeLens
+export function registerEditorActions(webviewProvider: WebviewProvider, outgoingFilter: OutgoingFilter): vscode.Disposable {
+	const codeLensProvider = new SimilarCodeLensProvider();
+	return vscode.Disposable.from(
+		vscode.commands.registerCommand('aiCodeSnippetRag.askAboutSelection', () => askAboutSelection(webviewProvider, outgoingFilter)),
+		vscode.commands.registerCommand('aiCodeSnippetRag.findSimilarCode', (uri?: vscode.Uri, range?: vscode.Range, symbol?: string) => findSimilarCode(webviewProvider, outgoingFilter, uri, range, symbol)),
+		vscode.commands.registerCommand('aiCodeSnippetRag.explainFile', (uri?: vscode.Uri) => explainFile(webviewProvider, outgoingFilter, uri)),
+		vscode.languages.registerCodeLensProvider({ scheme: 'file' }, codeLensProvider),
+		vscode.workspace.onDidChangeConfiguration(event => {
+			if (event.affectsConfiguration('aiCodeSnippetRag.codeLens')) {
+				codeLensProvider.refresh();
+			}
+		}),
+		codeLensProvider
+	);
+}
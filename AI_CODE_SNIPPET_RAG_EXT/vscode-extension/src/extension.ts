@@ -2,53 +2,46 @@ import * as vscode from 'vscode';
 import * as crypto from 'crypto';
 import * as path from 'path';
 import { WebviewProvider } from './webviewProvider';
-
-// Types
-interface FileInfo {
-	path: string;
-	size: number;
-	mtime: number;
-	languageId?: string;
-	sample?: string;
-}
-
-interface WorkspaceAnalysis {
-	workspaceName: string;
-	workspaceRoot: string;
-	fingerprint: string;
-	fileCount: number;
-	files: FileInfo[];
-}
-
-interface QueryRequest {
-	query: string;
-	repo_context: {
-		workspaceName: string;
-		workspaceRoot: string;
-		fingerprint: string;
-		fileCount: number;
-		activeFile: string | null;
-		selection: { startLine: number; endLine: number } | null;
-		files: FileInfo[];
-	};
-}
-
-interface QueryAnswer {
-	file: string;
-	start_line: number;
-	end_line: number;
-	code: string;
-	score: number;
-	explanation: string;
-}
-
-interface QueryResponse {
-	answers: QueryAnswer[];
-}
+import { WorkspaceWatcher, FileChange } from './workspaceWatcher';
+import { AnalysisStore } from './analysisStore';
+import { LocalIndex, SearchHit } from './retrieval';
+import { analyzeText, getOpenDocumentSymbols } from './chunker';
+import { DeltaSync, toPayloadFile } from './deltaSync';
+import { describeApi } from './backendApi';
+import { FileTreatment, PlanSignals, BYTES_PER_TOKEN, describePlan, fitRequestExtras, planContext } from './contextPlanner';
+import { collectGitContext, describeGitContext, diffAnswers } from './gitContext';
+import { LocalMockProvider, LocalRetriever, OPENAI_COMPATIBLE_BACKEND, OpenAiCompatibleProvider, ProviderQuery, QueryProvider, RagBackendProvider, describeProvider } from './queryProviders';
+import { IGNORE_FILE_NAMES } from './ignoreRules';
+import { OutgoingFilter } from './outgoingFilter';
+import { AnswerLocation, WORKSPACE_SUMMARY_FILE, locateAnswer, registerAnswerActions } from './answerActions';
+import { registerEditorActions } from './editorActions';
+import { ResolvedCommand, followupsFor, isTestFile, resolveCommand } from './chatCommands';
+import { fitHistory, toConversationTurn, turnsFromChatHistory } from './conversationContext';
+import { AuditLog, payloadBytes } from './outgoingContext';
+import { FeedbackReporter, feedbackToMarkdown } from './feedback';
+import { BackendClient, BackendHttpError, BackendSchemaError, BackendTimeoutError, BackendUnavailableError, CircuitOpenError, ConnectionStatus, RequestCancelledError, isAuthError } from './backendClient';
+import { FileInfo, GitContext, WorkspaceAnalysis, AnalysisUpdate, QueryAnswer, QueryResponse, QueryStreamEvent, OutgoingContextPreview, ConversationTurn, QueryIntent, QueryAnchor, AnswerContext, FeedbackRating, FeedbackRequest, FeedbackStatus, ProviderInfo, QueryProviderId, ReadLimits } from './types';
 
 // Extension state
 let outputChannel: vscode.OutputChannel;
 let analysisCache: Map<string, WorkspaceAnalysis> = new Map();
+// Scans in progress per root, joined by later callers; forgetting a root drops its entry
+let pendingAnalyses: Map<string, Promise<WorkspaceAnalysis | null>> = new Map();
+let fingerprintDigests: Map<string, Buffer> = new Map();
+let analysisStore: AnalysisStore;
+let retrievalIndexes: WeakMap<WorkspaceAnalysis, LocalIndex> = new WeakMap();
+// Ignore rules, session exclusions and secret redaction of what leaves the machine
+let outgoingFilter: OutgoingFilter;
+let deltaSync = new DeltaSync();
+let auditLog: AuditLog | undefined;
+// Client of the RAG backend, which feedback always goes to
+let backendClient: BackendClient;
+let queryProviders: Record<QueryProviderId, QueryProvider>;
+let feedbackReporter: FeedbackReporter;
+let extensionContext: vscode.ExtensionContext;
+
+const SELECTED_ROOTS_KEY = 'aiCodeSnippetRag.selectedRoots';
+const CHAT_PARTICIPANT_ID = 'aiCodeSnippetRag.ask';
 
 // Text file extensions that we'll sample
 const TEXT_FILE_EXTENSIONS = new Set([
@@ -60,19 +53,17 @@ const TEXT_FILE_EXTENSIONS = new Set([
 	'.vue', '.svelte', '.jsx', '.tsx'
 ]);
 
-// Sensitive file patterns to exclude
-const SENSITIVE_PATTERNS = [
-	'**/.env',
-	'**/.env.*',
-	'**/secrets*',
-	'**/id_rsa*',
-	'**/*.pfx',
-	'**/*.pem',
-	'**/*.key',
-	'**/*.p12',
-	'**/credentials*',
-	'**/config/secrets*'
-];
+// Maximum number of answers returned by the local retrieval index
+const OFFLINE_MAX_ANSWERS = 5;
+// Intents whose offline answers start with the declarations the query names
+const DEFINITION_INTENTS = new Set<QueryIntent>(['ask', 'find', 'explain']);
+// Shared terms listed in the explanation of a similar-code answer
+const SIMILAR_MAX_SHARED_TERMS = 8;
+// Best local matches per root that the context plan scores as matching the query
+const PLAN_QUERY_MATCHES = 50;
+
+// Directories that are never analyzed
+const EXCLUDED_DIRECTORIES = ['node_modules', '.git', 'dist', 'build', 'out'];
 
 // Language ID mapping
 function getLanguageId(filePath: string): string | undefined {
@@ -156,23 +147,143 @@ function isSensitiveFile(filePath: string): boolean {
 	return false;
 }
 
+// Fingerprint contribution of a single file
+function fingerprintEntry(file: FileInfo): Buffer {
+	return crypto.createHash('sha256').update(`${file.path}|${file.size}|${file.mtime}`).digest();
+}
+
+// XOR a file's entry into a digest; applying it twice removes the file again
+function toggleFingerprintEntry(digest: Buffer, file: FileInfo): void {
+	const entry = fingerprintEntry(file);
+	for (let i = 0; i < digest.length; i++) {
+		digest[i] ^= entry[i];
+	}
+}
+
+// Order-independent digest of a file list that can be updated file by file
+function computeFingerprintDigest(files: FileInfo[]): Buffer {
+	const digest = Buffer.alloc(32);
+	files.forEach(file => toggleFingerprintEntry(digest, file));
+	return digest;
+}
+
 // Compute fingerprint from file list
-function computeFingerprint(files: FileInfo[]): string {
-	const entries = files
-		.map(f => `${f.path}|${f.size}|${f.mtime}`)
+function computeFingerprint(digest: Buffer, fileCount: number): string {
+	return crypto.createHash('sha256').update(digest).update(`|${fileCount}`).digest('hex');
+}
+
+// Combine per-root fingerprints into a single fingerprint for the whole workspace
+function combineFingerprints(analyses: WorkspaceAnalysis[]): string {
+	const entries = analyses
+		.map(a => `${a.workspaceRoot}|${a.fingerprint}`)
 		.sort()
 		.join('\n');
 	return crypto.createHash('sha256').update(entries).digest('hex');
 }
 
-// Analyze workspace
-export async function analyzeWorkspace(): Promise<WorkspaceAnalysis | null> {
-	const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-	if (!workspaceFolder) {
-		outputChannel.appendLine('No workspace folder found');
-		return null;
+// Exclusions no setting or ignore file can lift
+function builtInExclusion(relativePath: string, isDirectory: boolean): string | undefined {
+	if (isDirectory && EXCLUDED_DIRECTORIES.includes(path.posix.basename(relativePath))) {
+		return `${path.posix.basename(relativePath)}/ directories are always excluded`;
 	}
+	if (isSensitiveFile(relativePath)) {
+		return 'it looks like a secret or credential, which is always excluded';
+	}
+	return undefined;
+}
+
+// How much of each file is read, from the settings
+function getReadLimits(): ReadLimits {
+	const config = vscode.workspace.getConfiguration('aiCodeSnippetRag');
+	return {
+		maxBytesPerFile: config.get<number>('maxBytesPerFile', 40000),
+		maxChunkedFileBytes: config.get<number>('maxChunkedFileBytes', 1000000)
+	};
+}
+
+// Stat a file (unless already done) and read its sample
+async function readFileInfo(fileUri: vscode.Uri, relativePath: string, limits: ReadLimits, stat?: vscode.FileStat): Promise<FileInfo> {
+	stat = stat ?? await vscode.workspace.fs.stat(fileUri);
+	const ext = path.extname(relativePath).toLowerCase();
+	const languageId = getLanguageId(relativePath);
+
+	const fileInfo: FileInfo = {
+		path: relativePath,
+		size: stat.size,
+		mtime: stat.mtime,
+		languageId
+	};
 
+	// Sample text files, split them into chunks covering the whole file and index their declarations;
+	// files over maxChunkedFileBytes keep their metadata only
+	if (TEXT_FILE_EXTENSIONS.has(ext) && stat.size > 0 && stat.size <= limits.maxChunkedFileBytes) {
+		try {
+			const content = await vscode.workspace.fs.readFile(fileUri);
+			const { text, findings } = outgoingFilter.redact(Buffer.from(content).toString('utf-8'), relativePath);
+			if (findings.length > 0) {
+				fileInfo.redactions = findings;
+			}
+			if (text.length > limits.maxBytesPerFile) {
+				fileInfo.sample = text.substring(0, limits.maxBytesPerFile);
+			} else {
+				fileInfo.sample = text;
+			}
+			const { chunks, symbols } = analyzeText(text, languageId, await getOpenDocumentSymbols(fileUri));
+			fileInfo.chunks = chunks;
+			if (symbols.length > 0) {
+				fileInfo.symbols = symbols;
+			}
+		} catch (err) {
+			// Skip files that can't be read
+		}
+	}
+
+	return fileInfo;
+}
+
+// Audit log of sent requests, when enabled; a relative path is taken from the first workspace folder
+function getAuditLog(): AuditLog | undefined {
+	const config = vscode.workspace.getConfiguration('aiCodeSnippetRag');
+	if (!config.get<boolean>('auditLog', false)) {
+		return undefined;
+	}
+
+	let filePath = config.get<string>('auditLogPath', '').trim();
+	if (!filePath) {
+		filePath = path.join(extensionContext.globalStorageUri.fsPath, 'audit.jsonl');
+	} else if (!path.isAbsolute(filePath)) {
+		const base = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath ?? extensionContext.globalStorageUri.fsPath;
+		filePath = path.join(base, filePath);
+	}
+	if (auditLog?.filePath !== filePath) {
+		auditLog = new AuditLog(filePath);
+	}
+	return auditLog;
+}
+
+// Write an analysis to the on-disk store without holding up the caller; bursts of updates are written once
+function persistAnalysis(analysis: WorkspaceAnalysis, limits: ReadLimits): void {
+	analysisStore.scheduleSave(analysis, limits, outgoingFilter.redaction.signature, error => {
+		outputChannel.appendLine(`Failed to store analysis for ${analysis.workspaceName}: ${error}`);
+	});
+}
+
+// Drop a root's cached analysis; a scan of it still running is neither joined nor cached any more
+function forgetAnalysis(cacheKey: string): void {
+	analysisCache.delete(cacheKey);
+	fingerprintDigests.delete(cacheKey);
+	pendingAnalyses.delete(cacheKey);
+}
+
+function forgetAllAnalyses(): void {
+	analysisCache.clear();
+	fingerprintDigests.clear();
+	pendingAnalyses.clear();
+}
+
+// Analyze a single workspace folder. Callers that arrive while it is being scanned, such as the first
+// query during the scan started at activation, wait for that scan instead of starting another.
+export async function analyzeWorkspaceFolder(workspaceFolder: vscode.WorkspaceFolder): Promise<WorkspaceAnalysis | null> {
 	const cacheKey = workspaceFolder.uri.toString();
 	const cached = analysisCache.get(cacheKey);
 	if (cached) {
@@ -180,68 +291,68 @@ export async function analyzeWorkspace(): Promise<WorkspaceAnalysis | null> {
 		return cached;
 	}
 
+	const pending = pendingAnalyses.get(cacheKey);
+	if (pending) {
+		outputChannel.appendLine(`Waiting for the running analysis of workspace: ${workspaceFolder.name}`);
+		return pending;
+	}
+	const scan: Promise<WorkspaceAnalysis | null> = scanWorkspaceFolder(workspaceFolder, () => pendingAnalyses.get(cacheKey) === scan)
+		.finally(() => {
+			if (pendingAnalyses.get(cacheKey) === scan) {
+				pendingAnalyses.delete(cacheKey);
+			}
+		});
+	pendingAnalyses.set(cacheKey, scan);
+	return scan;
+}
+
+// Scan a root's files, reusing stored ones that did not change. The result is cached and stored only while
+// isCurrent holds: a root forgotten during the scan (rebuild, settings change) is scanned again by the next caller.
+async function scanWorkspaceFolder(workspaceFolder: vscode.WorkspaceFolder, isCurrent: () => boolean): Promise<WorkspaceAnalysis | null> {
+	const cacheKey = workspaceFolder.uri.toString();
 	outputChannel.appendLine(`Starting workspace analysis for: ${workspaceFolder.name}`);
 	const startTime = Date.now();
 
 	try {
 		const config = vscode.workspace.getConfiguration('aiCodeSnippetRag');
 		const maxFiles = config.get<number>('maxFiles', 5000);
-		const maxBytesPerFile = config.get<number>('maxBytesPerFile', 40000);
-
-		// Find files
-		const excludePattern = `{${SENSITIVE_PATTERNS.join(',')},**/node_modules/**,**/.git/**,**/dist/**,**/build/**,**/out/**}`;
-		const files = await vscode.workspace.findFiles(
-			'**/*',
-			excludePattern,
-			maxFiles
-		);
+		const limits = getReadLimits();
+
+		// Find files, honoring ignore files and the include/exclude settings
+		const files = await outgoingFilter.ignoreMatcher(workspaceFolder).listFiles(maxFiles);
 
-		outputChannel.appendLine(`Found ${files.length} files`);
+		outputChannel.appendLine(`Found ${files.length} files in ${workspaceFolder.name}`);
+
+		// Files whose size and mtime match the stored analysis are not read again
+		const stored = await analysisStore.load(workspaceFolder.uri.fsPath, limits, outgoingFilter.redaction.signature);
+		const storedFiles = new Map((stored?.files ?? []).map(f => [f.path, f]));
+		let reused = 0;
 
 		const fileInfos: FileInfo[] = [];
 
-		for (const fileUri of files.slice(0, maxFiles)) {
+		// Paths are relative to their own root so each root stands alone
+		for (const { uri: fileUri, relativePath } of files) {
 			try {
-				const relativePath = vscode.workspace.asRelativePath(fileUri);
-				
-				// Skip sensitive files
-				if (isSensitiveFile(relativePath)) {
-					continue;
-				}
-
 				const stat = await vscode.workspace.fs.stat(fileUri);
-				const ext = path.extname(relativePath).toLowerCase();
-				const languageId = getLanguageId(relativePath);
-
-				const fileInfo: FileInfo = {
-					path: relativePath,
-					size: stat.size,
-					mtime: stat.mtime,
-					languageId
-				};
-
-				// Sample text files
-				if (TEXT_FILE_EXTENSIONS.has(ext) && stat.size > 0 && stat.size <= maxBytesPerFile * 10) {
-					try {
-						const content = await vscode.workspace.fs.readFile(fileUri);
-						const text = Buffer.from(content).toString('utf-8');
-						if (text.length > maxBytesPerFile) {
-							fileInfo.sample = text.substring(0, maxBytesPerFile);
-						} else {
-							fileInfo.sample = text;
-						}
-					} catch (err) {
-						// Skip files that can't be read
-					}
+				const storedFile = storedFiles.get(relativePath);
+				if (storedFile && storedFile.size === stat.size && storedFile.mtime === stat.mtime) {
+					fileInfos.push(storedFile);
+					reused++;
+					continue;
 				}
 
-				fileInfos.push(fileInfo);
+				fileInfos.push(await readFileInfo(fileUri, relativePath, limits, stat));
 			} catch (err) {
 				// Skip files that cause errors
 			}
 		}
 
-		const fingerprint = computeFingerprint(fileInfos);
+		if (stored) {
+			outputChannel.appendLine(`Reused ${reused} of ${fileInfos.length} files from stored analysis (saved ${new Date(stored.savedAt).toLocaleString()})`);
+		}
+
+		const digest = computeFingerprintDigest(fileInfos);
+		const fingerprint = computeFingerprint(digest, fileInfos.length);
 		const analysis: WorkspaceAnalysis = {
 			workspaceName: workspaceFolder.name,
 			workspaceRoot: workspaceFolder.uri.fsPath,
@@ -250,73 +361,285 @@ export async function analyzeWorkspace(): Promise<WorkspaceAnalysis | null> {
 			files: fileInfos
 		};
 
+		if (!isCurrent()) {
+			outputChannel.appendLine(`Analysis of ${workspaceFolder.name} was started before its cache was cleared, not keeping it`);
+			return analysis;
+		}
 		analysisCache.set(cacheKey, analysis);
+		fingerprintDigests.set(cacheKey, digest);
+		persistAnalysis(analysis, limits);
 
 		const elapsed = Date.now() - startTime;
-		outputChannel.appendLine(`Analysis complete: ${fileInfos.length} files, fingerprint: ${fingerprint.substring(0, 8)}..., elapsed: ${elapsed}ms`);
+		outputChannel.appendLine(`Analysis complete for ${workspaceFolder.name}: ${fileInfos.length} files, fingerprint: ${fingerprint.substring(0, 8)}..., elapsed: ${elapsed}ms`);
 
 		return analysis;
 	} catch (error) {
-		outputChannel.appendLine(`Analysis error: ${error}`);
+		outputChannel.appendLine(`Analysis error in ${workspaceFolder.name}: ${error}`);
 		return null;
 	}
 }
 
-// Test backend connection
-export async function testConnection(): Promise<boolean> {
+// Apply file system changes to the cached analyses of the affected roots
+export async function applyFileChanges(changes: FileChange[]): Promise<AnalysisUpdate[]> {
 	const config = vscode.workspace.getConfiguration('aiCodeSnippetRag');
-	const serverUrl = config.get<string>('serverUrl', 'http://localhost:8000');
-	const timeoutMs = config.get<number>('requestTimeoutMs', 20000);
+	const maxFiles = config.get<number>('maxFiles', 5000);
+	const limits = getReadLimits();
+	const updates = new Map<string, AnalysisUpdate>();
+	const rescans = new Map<string, vscode.WorkspaceFolder>();
+
+	for (const change of changes) {
+		const workspaceFolder = vscode.workspace.getWorkspaceFolder(change.uri);
+		if (!workspaceFolder) {
+			continue;
+		}
 
-	outputChannel.appendLine(`Testing connection to: ${serverUrl}/health`);
+		// Roots that were never analyzed pick the change up on their first full scan
+		const cacheKey = workspaceFolder.uri.toString();
+		const analysis = analysisCache.get(cacheKey);
+		const digest = fingerprintDigests.get(cacheKey);
+		if (!analysis || !digest) {
+			continue;
+		}
 
-	try {
-		const controller = new AbortController();
-		const timeout = setTimeout(() => controller.abort(), timeoutMs);
+		// Changed ignore rules can include or exclude any file below them, so the root is scanned again
+		const relativePath = vscode.workspace.asRelativePath(change.uri, false);
+		if (IGNORE_FILE_NAMES.includes(path.posix.basename(relativePath))) {
+			outgoingFilter.ignoreMatcher(workspaceFolder).invalidate(path.posix.dirname(relativePath).replace(/^\.$/, ''));
+			rescans.set(cacheKey, workspaceFolder);
+		}
+		const matcher = outgoingFilter.ignoreMatcher(workspaceFolder);
+		if (rescans.has(cacheKey) || await matcher.excludedParent(relativePath)) {
+			continue;
+		}
 
-		const response = await fetch(`${serverUrl}/health`, {
-			method: 'GET',
-			signal: controller.signal,
-			headers: {
-				'Content-Type': 'application/json'
+		let update = updates.get(cacheKey);
+		if (!update) {
+			update = { workspaceName: analysis.workspaceName, created: 0, changed: 0, deleted: 0, fingerprint: analysis.fingerprint };
+			updates.set(cacheKey, update);
+		}
+
+		// Drop the file, or every file below it when a directory was removed
+		const removeEntries = (): number => {
+			const prefix = `${relativePath}/`;
+			const removed = analysis.files.filter(f => f.path === relativePath || f.path.startsWith(prefix));
+			if (removed.length > 0) {
+				removed.forEach(file => {
+					toggleFingerprintEntry(digest, file);
+					retrievalIndexes.get(analysis)?.remove(file.path);
+				});
+				analysis.files = analysis.files.filter(f => !removed.includes(f));
 			}
-		});
+			return removed.length;
+		};
 
-		clearTimeout(timeout);
+		if (change.kind === 'deleted') {
+			update.deleted += removeEntries();
+			continue;
+		}
 
-		if (response.ok) {
-			const data = await response.json();
-			outputChannel.appendLine(`Connection successful: ${JSON.stringify(data)}`);
-			vscode.window.showInformationMessage(`AI Code Snippet RAG: Connection successful to ${serverUrl}`);
-			return true;
-		} else {
-			outputChannel.appendLine(`Connection failed: HTTP ${response.status}`);
-			vscode.window.showErrorMessage(`AI Code Snippet RAG: Connection failed (HTTP ${response.status})`);
-			return false;
+		let stat: vscode.FileStat;
+		try {
+			stat = await vscode.workspace.fs.stat(change.uri);
+		} catch (err) {
+			// Gone again before we got to it
+			update.deleted += removeEntries();
+			continue;
 		}
-	} catch (error: any) {
-		outputChannel.appendLine(`Connection error: ${error.message}`);
-		if (error.name === 'AbortError') {
-			vscode.window.showErrorMessage(`AI Code Snippet RAG: Connection timeout after ${timeoutMs}ms`);
-		} else {
-			vscode.window.showErrorMessage(`AI Code Snippet RAG: Connection error - ${error.message}`);
+
+		// Directories that appear at once (checkout, copy) are scanned as a whole
+		const isDirectory = (stat.type & vscode.FileType.Directory) !== 0;
+		if (!(await matcher.isIncluded(relativePath, isDirectory))) {
+			continue;
+		}
+		const targets = isDirectory
+			? await matcher.listFiles(Math.max(0, maxFiles - analysis.files.length), relativePath)
+			: [{ uri: change.uri, relativePath }];
+
+		for (const { uri: target, relativePath: targetPath } of targets) {
+
+			try {
+				const fileInfo = await readFileInfo(target, targetPath, limits);
+				const index = analysis.files.findIndex(f => f.path === targetPath);
+				if (index >= 0) {
+					const previous = analysis.files[index];
+					if (previous.size === fileInfo.size && previous.mtime === fileInfo.mtime) {
+						continue;
+					}
+					toggleFingerprintEntry(digest, previous);
+					analysis.files[index] = fileInfo;
+					update.changed++;
+				} else if (analysis.files.length < maxFiles) {
+					analysis.files.push(fileInfo);
+					update.created++;
+				} else {
+					continue;
+				}
+				toggleFingerprintEntry(digest, fileInfo);
+				retrievalIndexes.get(analysis)?.upsert(fileInfo);
+			} catch (err) {
+				// Skip files that can't be read
+			}
+		}
+	}
+
+	for (const [cacheKey, workspaceFolder] of rescans) {
+		const update = await rescanWorkspaceFolder(workspaceFolder);
+		if (update) {
+			updates.set(cacheKey, update);
+		}
+	}
+
+	for (const [cacheKey, update] of updates) {
+		if (rescans.has(cacheKey)) {
+			continue;
+		}
+		const analysis = analysisCache.get(cacheKey)!;
+		analysis.fileCount = analysis.files.length;
+		analysis.fingerprint = computeFingerprint(fingerprintDigests.get(cacheKey)!, analysis.fileCount);
+		update.fingerprint = analysis.fingerprint;
+		if (update.created + update.changed + update.deleted > 0) {
+			persistAnalysis(analysis, limits);
 		}
-		return false;
 	}
+
+	return Array.from(updates.values()).filter(u => u.created + u.changed + u.deleted > 0);
 }
 
-// Generate hardcoded response based on workspace analysis
-function generateHardcodedResponse(query: string, analysis: WorkspaceAnalysis, activeFile: string | null): QueryResponse {
-	const answers: QueryAnswer[] = [];
+// Analyze a root again from scratch, reusing unchanged files from the store, and report the difference
+async function rescanWorkspaceFolder(workspaceFolder: vscode.WorkspaceFolder): Promise<AnalysisUpdate | undefined> {
+	const cacheKey = workspaceFolder.uri.toString();
+	const previous = analysisCache.get(cacheKey);
+	forgetAnalysis(cacheKey);
+	outputChannel.appendLine(`Ignore rules changed in ${workspaceFolder.name}, scanning it again`);
+
+	const analysis = await analyzeWorkspaceFolder(workspaceFolder);
+	if (!analysis) {
+		return undefined;
+	}
+
+	const before = new Map((previous?.files ?? []).map(file => [file.path, file]));
+	const after = new Set(analysis.files.map(file => file.path));
+	return {
+		workspaceName: analysis.workspaceName,
+		created: analysis.files.filter(file => !before.has(file.path)).length,
+		changed: analysis.files.filter(file => before.has(file.path) && before.get(file.path)!.mtime !== file.mtime).length,
+		deleted: Array.from(before.keys()).filter(filePath => !after.has(filePath)).length,
+		fingerprint: analysis.fingerprint
+	};
+}
+
+// Analyze every workspace folder, one analysis per root
+export async function analyzeWorkspace(): Promise<WorkspaceAnalysis[]> {
+	const workspaceFolders = vscode.workspace.workspaceFolders;
+	if (!workspaceFolders || workspaceFolders.length === 0) {
+		outputChannel.appendLine('No workspace folder found');
+		return [];
+	}
+
+	const analyses: WorkspaceAnalysis[] = [];
+	for (const workspaceFolder of workspaceFolders) {
+		const analysis = await analyzeWorkspaceFolder(workspaceFolder);
+		if (analysis) {
+			analyses.push(analysis);
+		}
+	}
+	return analyses;
+}
+
+// Restrict analyses to the selected roots, named by path or folder name; an empty or missing selection means all roots.
+// Names that match no root are returned in `unknown` rather than widening the query to every root.
+export function filterAnalysesByRoots(analyses: WorkspaceAnalysis[], roots: string[] | undefined): { analyses: WorkspaceAnalysis[]; unknown: string[] } {
+	if (!roots || roots.length === 0) {
+		return { analyses, unknown: [] };
+	}
+	const selected = analyses.filter(a => roots.includes(a.workspaceRoot) || roots.includes(a.workspaceName));
+	const unknown = roots.filter(root => !analyses.some(a => a.workspaceRoot === root || a.workspaceName === root));
+	return { analyses: selected, unknown };
+}
+
+// Why a query naming roots that do not exist was not sent, with the roots it can name
+export function describeUnknownRoots(unknown: string[], analyses: WorkspaceAnalysis[]): string {
+	const names = unknown.map(root => `"${path.basename(root)}"`).join(', ');
+	const available = analyses.map(a => a.workspaceName).join(', ');
+	return `No workspace root is named ${names}, so nothing was sent. The roots are: ${available}. Check the \`root:\` names, or run "AI Code Snippet RAG: Select Workspace Roots".`;
+}
+
+// Extract `root:<name>` directives from a chat prompt
+export function parseRootDirectives(prompt: string): { prompt: string; roots: string[] } {
+	const roots: string[] = [];
+	const stripped = prompt.replace(/(^|\s)root:(\S+)/g, (_match, leading: string, names: string) => {
+		roots.push(...names.split(',').filter(name => name.length > 0));
+		return leading;
+	});
+	return { prompt: stripped.trim(), roots };
+}
+
+// Display path for a file, prefixed with its root name in multi-root workspaces
+function getDisplayPath(analysis: WorkspaceAnalysis, filePath: string, multiRoot: boolean): string {
+	return multiRoot ? `${analysis.workspaceName}/${filePath}` : filePath;
+}
+
+// Test the connection to the provider's server
+export async function testConnection(): Promise<boolean> {
+	const provider = getQueryProvider();
+	if (!provider.client) {
+		vscode.window.showInformationMessage(`AI Code Snippet RAG: ${provider.label} answers from the local retrieval index; there is no server to test`);
+		return true;
+	}
+	const client = provider.client;
+	const serverUrl = client.serverUrl;
+	outputChannel.appendLine(`Testing connection to: ${serverUrl}${client.healthEndpoint}`);
+
+	const result = await client.checkHealth(true);
+	if (result.ok) {
+		outputChannel.appendLine(`Connection successful: ${JSON.stringify(result.data)}`);
+		// The RAG backend also says which API it speaks
+		let details = '';
+		if (provider instanceof RagBackendProvider) {
+			try {
+				details = ` (${describeApi(provider.negotiate(result.data))})`;
+			} catch (error: any) {
+				outputChannel.appendLine(`Connection error: ${error.message}`);
+				vscode.window.showErrorMessage(`AI Code Snippet RAG: ${error.message}`);
+				return false;
+			}
+		}
+		vscode.window.showInformationMessage(`AI Code Snippet RAG: Connection successful to ${serverUrl}${details}`);
+		return true;
+	}
+
+	outputChannel.appendLine(`Connection error: ${result.error.message}`);
+	if (isAuthError(result.error)) {
+		promptForApiToken(result.error.status);
+	} else if (result.error instanceof BackendHttpError) {
+		vscode.window.showErrorMessage(`AI Code Snippet RAG: Connection failed (HTTP ${result.error.status})`);
+	} else if (result.error instanceof BackendTimeoutError) {
+		vscode.window.showErrorMessage(`AI Code Snippet RAG: Connection timeout after ${result.error.timeoutMs}ms`);
+	} else {
+		vscode.window.showErrorMessage(`AI Code Snippet RAG: Connection error - ${result.error.message}`);
+	}
+	return false;
+}
+
+// Refresh the connection status quietly, for views that want it current
+export async function checkBackendHealth(): Promise<void> {
+	await getQueryProvider().client?.checkHealth();
+}
+
+// Build the workspace summary answer from the analysis statistics
+function buildWorkspaceSummary(analyses: WorkspaceAnalysis[]): QueryAnswer {
+	const multiRoot = analyses.length > 1;
+	const allFiles = analyses.flatMap(analysis => analysis.files);
+	const fileCount = analyses.reduce((sum, analysis) => sum + analysis.fileCount, 0);
 	
 	// Analyze workspace statistics
 	const fileTypes = new Map<string, number>();
 	const languages = new Set<string>();
 	let totalLines = 0;
 	let totalBytes = 0;
-	const filesWithSamples = analysis.files.filter(f => f.sample);
+	const filesWithSamples = allFiles.filter(f => f.sample);
 	
-	analysis.files.forEach(file => {
+	allFiles.forEach(file => {
 		const ext = path.extname(file.path).toLowerCase();
 		fileTypes.set(ext, (fileTypes.get(ext) || 0) + 1);
 		if (file.languageId) {
@@ -334,31 +657,38 @@ function generateHardcodedResponse(query: string, analysis: WorkspaceAnalysis, a
 		.map(([ext, count]) => `  ${ext || '(no extension)'}: ${count} files`);
 	
 	// Calculate average file size
-	const avgFileSize = analysis.fileCount > 0 ? Math.round(totalBytes / analysis.fileCount) : 0;
+	const avgFileSize = fileCount > 0 ? Math.round(totalBytes / fileCount) : 0;
 	const avgFileSizeKB = (avgFileSize / 1024).toFixed(2);
 	const totalSizeMB = (totalBytes / (1024 * 1024)).toFixed(2);
 	
 	// Get top-level directories
 	const dirs = new Set<string>();
-	analysis.files.forEach(file => {
-		const dir = path.dirname(file.path);
-		if (dir !== '.' && dir !== file.path) {
-			const topDir = dir.split(path.sep)[0];
-			if (topDir) {
-				dirs.add(topDir);
+	analyses.forEach(analysis => {
+		analysis.files.forEach(file => {
+			const dir = path.dirname(file.path);
+			if (dir !== '.' && dir !== file.path) {
+				const topDir = dir.split(/[\\/]/)[0];
+				if (topDir) {
+					dirs.add(getDisplayPath(analysis, topDir, multiRoot));
+				}
 			}
-		}
+		});
 	});
+
+	const rootLines = analyses
+		.map(analysis => `  • ${analysis.workspaceName} (${analysis.fileCount} files) - ${analysis.workspaceRoot}`)
+		.join('\n');
 	
 	// Always include comprehensive workspace summary as first answer
 	const summaryCode = `📊 WORKSPACE SUMMARY
 
-📁 Workspace Name: ${analysis.workspaceName}
-📂 Workspace Root: ${analysis.workspaceRoot}
-🔑 Fingerprint: ${analysis.fingerprint.substring(0, 16)}...
+📁 Workspace Name: ${vscode.workspace.name || analyses[0].workspaceName}
+📂 Workspace Roots:
+${rootLines}
+🔑 Fingerprint: ${combineFingerprints(analyses).substring(0, 16)}...
 
 📈 STATISTICS:
-  • Total Files: ${analysis.fileCount}
+  • Total Files: ${fileCount}
   • Files with Code Samples: ${filesWithSamples.length}
   • Total Lines of Code: ${totalLines.toLocaleString()}
   • Total Size: ${totalSizeMB} MB
@@ -377,145 +707,601 @@ ${topFileTypes.join('\n')}
 ✅ Analysis Status: Complete
 📅 Analyzed: ${new Date().toLocaleString()}`;
 	
-	answers.push({
-		file: 'Workspace Summary',
+	return {
+		file: WORKSPACE_SUMMARY_FILE,
 		start_line: 1,
 		end_line: 30,
 		code: summaryCode,
 		score: 1.0,
-		explanation: `Comprehensive workspace analysis complete. Found ${analysis.fileCount} files with ${totalLines.toLocaleString()} lines of code across ${languages.size} programming languages.`
-	});
-	
-	// Find relevant files based on query if query is specific
-	const queryLower = query.toLowerCase();
-	if (queryLower && queryLower.length > 2 && !queryLower.includes('summary') && !queryLower.includes('workspace')) {
-		const relevantFiles = analysis.files
-			.filter(file => {
-				const fileName = path.basename(file.path).toLowerCase();
-				const filePath = file.path.toLowerCase();
-				return fileName.includes(queryLower) || 
-					   filePath.includes(queryLower) ||
-					   (file.sample && file.sample.toLowerCase().includes(queryLower));
-			})
-			.slice(0, 3);
-		
-		relevantFiles.forEach((file, index) => {
-			if (file.sample) {
-				const lines = file.sample.split('\n');
-				const sampleLines = lines.slice(0, 30).join('\n');
-				answers.push({
-					file: file.path,
-					start_line: 1,
-					end_line: Math.min(30, lines.length),
-					code: sampleLines,
-					score: 0.85 - (index * 0.1),
-					explanation: `Found relevant code in ${file.path} (${file.size} bytes, ${lines.length} lines) based on your query.`
-				});
-			}
+		explanation: `Comprehensive workspace analysis complete. Found ${fileCount} files in ${analyses.length} root${analyses.length === 1 ? '' : 's'} with ${totalLines.toLocaleString()} lines of code across ${languages.size} programming languages.`
+	};
+}
+
+// Answer a query offline from the local retrieval index
+function generateOfflineResponse(query: string, analyses: WorkspaceAnalysis[], intent: QueryIntent = 'ask', activeFile: string | null = null, anchor?: QueryAnchor, maxAnswers = OFFLINE_MAX_ANSWERS): QueryResponse {
+	// The summary comes from the analysis itself rather than a search
+	if (intent === 'summary') {
+		return { answers: [buildWorkspaceSummary(analyses)], local: true };
+	}
+
+	const answers: QueryAnswer[] = [];
+	const multiRoot = analyses.length > 1;
+
+	// Tests are found by the name of the file they cover, and preferred over the file itself
+	let searchText = query;
+	if (intent === 'tests' && activeFile) {
+		searchText = `${query} ${path.basename(activeFile, path.extname(activeFile))}`;
+	}
+	// Similar code shares the anchor's identifiers; the anchor itself is not an answer
+	const isAnchor = (analysis: WorkspaceAnalysis, hit: SearchHit) => anchor !== undefined
+		&& [hit.file.path, `${analysis.workspaceName}/${hit.file.path}`].includes(anchor.file)
+		&& hit.startLine <= anchor.endLine && hit.endLine >= anchor.startLine;
+	if (intent === 'similar' && anchor) {
+		searchText = anchor.code;
+	}
+	let hits = analyses
+		.flatMap(analysis => getRetrievalIndex(analysis)
+			.search(searchText, intent === 'tests' || intent === 'similar' ? maxAnswers * 3 : maxAnswers)
+			.filter(hit => intent !== 'similar' || !isAnchor(analysis, hit))
+			.map(hit => ({ analysis, hit })))
+		.sort((a, b) => b.hit.score - a.hit.score);
+	if (intent === 'tests' && hits.some(({ hit }) => isTestFile(hit.file.path))) {
+		hits = hits.filter(({ hit }) => isTestFile(hit.file.path));
+	}
+
+	// Declarations the query names lead, whether or not their text matches; search hits within them are not repeated
+	const definitions = DEFINITION_INTENTS.has(intent)
+		? analyses
+			.flatMap(analysis => getRetrievalIndex(analysis).findDefinitions(query, maxAnswers).map(hit => ({ analysis, hit })))
+			.sort((a, b) => b.hit.score - a.hit.score)
+			.slice(0, maxAnswers)
+		: [];
+	const withinDefinition = (analysis: WorkspaceAnalysis, hit: SearchHit) => definitions.some(definition => definition.analysis === analysis
+		&& definition.hit.file === hit.file && hit.startLine >= definition.hit.startLine && hit.endLine <= definition.hit.definition!.end_line);
+	hits = hits.filter(({ analysis, hit }) => !withinDefinition(analysis, hit)).slice(0, maxAnswers - definitions.length);
+
+	for (const { analysis, hit } of definitions) {
+		const displayPath = getDisplayPath(analysis, hit.file.path, multiRoot);
+		const definition = hit.definition!;
+		answers.push({
+			file: displayPath,
+			start_line: hit.startLine,
+			end_line: hit.endLine,
+			code: hit.code,
+			score: 1,
+			languageId: hit.file.languageId,
+			explanation: `Definition of \`${hit.symbol}\` (${definition.exported ? 'exported ' : ''}${definition.kind}) in ${displayPath} (lines ${definition.start_line}-${definition.end_line}).`
 		});
 	}
-	
-	return { answers };
+
+	// BM25 scores are unbounded; report them relative to the best hit
+	const topScore = hits[0]?.hit.score || 1;
+	for (const { analysis, hit } of hits) {
+		const displayPath = getDisplayPath(analysis, hit.file.path, multiRoot);
+		answers.push({
+			file: displayPath,
+			start_line: hit.startLine,
+			end_line: hit.endLine,
+			code: hit.code,
+			score: hit.score / topScore,
+			languageId: hit.file.languageId,
+			explanation: intent === 'similar'
+				? `Similar code in ${hit.symbol ? `\`${hit.symbol}\` in ` : ''}${displayPath} (lines ${hit.startLine}-${hit.endLine}), sharing: ${hit.matchedTerms.slice(0, SIMILAR_MAX_SHARED_TERMS).join(', ')}${hit.matchedTerms.length > SIMILAR_MAX_SHARED_TERMS ? ', ...' : ''}.`
+				: `Local match in ${hit.symbol ? `\`${hit.symbol}\` in ` : ''}${displayPath} (lines ${hit.startLine}-${hit.endLine}) for: ${hit.matchedTerms.join(', ')}.`
+		});
+	}
+
+	const notice = intent === 'explain' ? 'Explanations need the backend; these are the closest local matches.' : undefined;
+	return { answers, notice, local: true };
 }
 
-// Send query to backend
-export async function sendQuery(query: string, analysis: WorkspaceAnalysis, activeFile: string | null, selection: { startLine: number; endLine: number } | null): Promise<QueryResponse | null> {
+// Git state of the roots a query is sent with, for the files it is about; roots outside a repository are left out.
+// Files are named as in answers, prefixed with the root name in multi-root workspaces.
+async function collectQueryGitContext(analyses: WorkspaceAnalysis[], files: string[]): Promise<GitContext[]> {
 	const config = vscode.workspace.getConfiguration('aiCodeSnippetRag');
-	const useHardcoded = config.get<boolean>('useHardcodedResponse', false);
-	
-	// Use hardcoded response if enabled
-	if (useHardcoded) {
-		outputChannel.appendLine('Using hardcoded response mode');
-		const hardcodedResponse = generateHardcodedResponse(query, analysis, activeFile);
-		outputChannel.appendLine(`Generated ${hardcodedResponse.answers.length} hardcoded answers`);
-		return hardcodedResponse;
+	const multiRoot = analyses.length > 1;
+	const contexts: GitContext[] = [];
+	for (const analysis of analyses) {
+		const workspaceFolder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(analysis.workspaceRoot));
+		if (!workspaceFolder) {
+			continue;
+		}
+		const matcher = outgoingFilter.ignoreMatcher(workspaceFolder);
+		const prefix = `${analysis.workspaceName}/`;
+		const historyFiles = multiRoot
+			? files.filter(file => file.startsWith(prefix)).map(file => file.substring(prefix.length))
+			: files;
+		try {
+			const context = await collectGitContext(analysis.workspaceName, analysis.workspaceRoot, {
+				maxDiffBytes: config.get<number>('gitMaxDiffBytes', 20000),
+				historyCommits: config.get<number>('gitHistoryCommits', 5),
+				historyFiles,
+				isIncluded: async relativePath => !outgoingFilter.sessionExclusions.has(analysis.workspaceRoot, relativePath) && await matcher.isIncluded(relativePath),
+				redact: (text, relativePath) => outgoingFilter.redact(text, relativePath).text
+			});
+			outputChannel.appendLine(`Git context: ${describeGitContext(context)}`);
+			contexts.push(context);
+		} catch (error: any) {
+			outputChannel.appendLine(`No git context for ${analysis.workspaceName}: ${error.message}`);
+		}
+	}
+	return contexts;
+}
+
+// Answer from this machine: the local retrieval index, or for /changes the hunks of the diff.
+// The OpenAI-compatible provider retrieves this way too, with more snippets than offline answers show.
+const retrieveLocally: LocalRetriever = (request, maxAnswers = OFFLINE_MAX_ANSWERS) => {
+	if (request.intent === 'changes') {
+		return { answers: diffAnswers(request.git ?? [], request.query, maxAnswers), local: true };
+	}
+	return generateOfflineResponse(request.query, request.analyses, request.intent, request.activeFile, request.anchor, maxAnswers);
+};
+
+// Fingerprint a query against these roots is sent with
+function contextFingerprint(analyses: WorkspaceAnalysis[]): string {
+	return analyses.length === 1 ? analyses[0].fingerprint : combineFingerprints(analyses);
+}
+
+// Fingerprint of the context a query is sent with, which feedback on its answers refers to
+export function getQueryFingerprint(analyses: WorkspaceAnalysis[]): string {
+	return contextFingerprint(outgoingFilter.sessionExclusions.apply(analyses));
+}
+
+// The provider that answers queries; offline mode overrides the provider setting
+export function getQueryProvider(): QueryProvider {
+	const config = vscode.workspace.getConfiguration('aiCodeSnippetRag');
+	if (config.get<boolean>('useHardcodedResponse', false)) {
+		return queryProviders.mock;
+	}
+	return queryProviders[config.get<QueryProviderId>('provider', 'rag')] ?? queryProviders.rag;
+}
+
+export function getProviderInfo(): ProviderInfo {
+	return describeProvider(getQueryProvider());
+}
+
+// Client of the provider's server, whose status is shown and whose token the token commands manage.
+// The RAG backend's when the provider answers locally.
+function activeClient(): BackendClient {
+	return getQueryProvider().client ?? backendClient;
+}
+
+function activeClientLabel(): string {
+	const provider = getQueryProvider();
+	return provider.client ? provider.label : queryProviders.rag.label;
+}
+
+// Record a request in the audit log without holding it up
+function recordAudit(serverUrl: string, endpoint: string, query: string, body: string): void {
+	getAuditLog()?.record(serverUrl, endpoint, query, body).catch(err => {
+		outputChannel.appendLine(`Failed to write audit log: ${err.message}`);
+	});
+}
+
+// Retrieval index for an analysis, built on first use and kept in step by applyFileChanges
+function getRetrievalIndex(analysis: WorkspaceAnalysis): LocalIndex {
+	let index = retrievalIndexes.get(analysis);
+	if (!index) {
+		const startTime = Date.now();
+		index = new LocalIndex(analysis.files);
+		retrievalIndexes.set(analysis, index);
+		outputChannel.appendLine(`Built local retrieval index for ${analysis.workspaceName}: ${index.size} documents, elapsed: ${Date.now() - startTime}ms`);
+	}
+	return index;
+}
+
+// Budget for the files of a request in bytes, or undefined when every file is sent in full
+function getContextBudgetBytes(): number | undefined {
+	const config = vscode.workspace.getConfiguration('aiCodeSnippetRag');
+	const budget = config.get<number>('contextBudget', 1000000);
+	if (budget <= 0) {
+		return undefined;
+	}
+	return config.get<string>('contextBudgetUnit', 'bytes') === 'tokens' ? budget * BYTES_PER_TOKEN : budget;
+}
+
+// What the context plan ranks files against: the editor state, and how well each file matches the query
+function getPlanSignals(query: string, analyses: WorkspaceAnalysis[], activeFile: string | null, selection: { startLine: number; endLine: number } | null): PlanSignals {
+	const openFiles = vscode.window.tabGroups.all
+		.flatMap(group => group.tabs)
+		.flatMap(tab => tab.input instanceof vscode.TabInputText ? [vscode.workspace.asRelativePath(tab.input.uri)] : []);
+
+	// Local retrieval scores, relative to the best match
+	const queryScores = new Map<FileInfo, number>();
+	const hits = query ? analyses.flatMap(analysis => getRetrievalIndex(analysis).search(query, PLAN_QUERY_MATCHES)) : [];
+	const topScore = Math.max(...hits.map(hit => hit.score), 0) || 1;
+	for (const hit of hits) {
+		queryScores.set(hit.file, Math.max(queryScores.get(hit.file) ?? 0, hit.score / topScore));
+	}
+	return { query, activeFile, selection, openFiles, queryScores, now: Date.now() };
+}
+
+// Fit a full-context request into the budget, logging the plan. The query, anchor, history and git context
+// are counted first, and cut down if they alone would go over; the files get what they leave.
+function packContext(request: ProviderQuery): ProviderQuery {
+	const budgetBytes = getContextBudgetBytes();
+	if (budgetBytes === undefined) {
+		return request;
+	}
+	const startTime = Date.now();
+	const fitted = fitRequestExtras({ query: request.query, anchor: request.anchor, history: request.history, git: request.git }, budgetBytes);
+	if (fitted.trimmed.length > 0) {
+		outputChannel.appendLine(`Context budget: left out ${fitted.trimmed.join(', ')}`);
+	}
+	const { analyses, plan } = planContext(request.analyses, getPlanSignals(request.query, request.analyses, request.activeFile, request.selection), {
+		budgetBytes,
+		excerptBytes: vscode.workspace.getConfiguration('aiCodeSnippetRag').get<number>('contextExcerptBytes', 4000),
+		reservedBytes: fitted.bytes
+	});
+	describePlan(plan, request.analyses.length > 1).forEach(line => outputChannel.appendLine(line));
+	outputChannel.appendLine(`Context planned in ${Date.now() - startTime}ms`);
+	return { ...request, ...fitted.extras, analyses };
+}
+
+export interface SendQueryOptions {
+	// Reports streamed answers as they arrive; it is not called for non-streaming backends
+	onEvent?: (event: QueryStreamEvent) => void;
+	// Aborting cancels the sync and query requests, including a stream being read
+	signal?: AbortSignal;
+	// Earlier turns of the conversation, oldest first
+	history?: ConversationTurn[];
+	intent?: QueryIntent;
+	// Code from the editor the query is about
+	anchor?: QueryAnchor;
+}
+
+// Send a query to the selected provider, falling back to the local retrieval index when its server cannot be reached
+export async function sendQuery(query: string, analyses: WorkspaceAnalysis[], activeFile: string | null, selection: { startLine: number; endLine: number } | null, options: SendQueryOptions = {}): Promise<QueryResponse | null> {
+	const { onEvent, signal, history = [], intent = 'ask', anchor } = options;
+	if (analyses.length === 0) {
+		throw new Error('No workspace roots selected for this query.');
 	}
+
+	const config = vscode.workspace.getConfiguration('aiCodeSnippetRag');
+	const provider = getQueryProvider();
 	
-	const serverUrl = config.get<string>('serverUrl', 'http://localhost:8000');
-	const timeoutMs = config.get<number>('requestTimeoutMs', 20000);
+	if (signal?.aborted) {
+		throw new RequestCancelledError();
+	}
 
-	const request: QueryRequest = {
+	// Files excluded for this session never leave the machine
+	if (provider.capabilities.sendsCode) {
+		analyses = outgoingFilter.sessionExclusions.apply(analyses);
+	}
+	const fileCount = analyses.reduce((sum, analysis) => sum + analysis.fileCount, 0);
+	const fitted = fitHistory(history, config.get<number>('historyMaxTurns', 6), config.get<number>('historyBudgetChars', 6000));
+	const request: ProviderQuery = {
 		query,
-		repo_context: {
-			workspaceName: analysis.workspaceName,
-			workspaceRoot: analysis.workspaceRoot,
-			fingerprint: analysis.fingerprint,
-			fileCount: analysis.fileCount,
-			activeFile,
-			selection,
-			files: analysis.files
-		}
+		intent,
+		anchor,
+		analyses,
+		fingerprint: contextFingerprint(analyses),
+		activeFile,
+		selection,
+		history: fitted.turns
 	};
+	// Git state goes with /changes, which is about it, and with other queries when the setting is on
+	if (intent === 'changes' || (provider.capabilities.sendsCode && config.get<boolean>('gitContext', false))) {
+		const files = [anchor?.file, activeFile, ...fitted.turns.flatMap(turn => turn.answers.map(answer => answer.file))]
+			.filter((file): file is string => Boolean(file));
+		request.git = await collectQueryGitContext(analyses, [...new Set(files)]);
+		if (intent === 'changes' && !request.git.some(context => context.changes.length > 0)) {
+			return {
+				answers: [],
+				notice: request.git.length > 0
+					? 'There are no uncommitted changes in the selected roots.'
+					: 'None of the selected roots is in a git repository, so there are no changes to ask about.',
+				local: true
+			};
+		}
+	}
+	// Answers are reported as they arrive only by providers that stream
+	const streamResponses = onEvent !== undefined && provider.capabilities.streaming && config.get<boolean>('streamResponses', true);
 
-	outputChannel.appendLine(`Sending query to: ${serverUrl}/query`);
-	outputChannel.appendLine(`Query: ${query.substring(0, 100)}${query.length > 100 ? '...' : ''}`);
-	outputChannel.appendLine(`Workspace context: ${analysis.fileCount} files, fingerprint: ${analysis.fingerprint.substring(0, 8)}...`);
+	outputChannel.appendLine(`Provider: ${provider.label}`);
+	outputChannel.appendLine(`Query${intent !== 'ask' ? ` (${intent})` : ''}: ${query.substring(0, 100)}${query.length > 100 ? '...' : ''}`);
+	outputChannel.appendLine(`Workspace context: ${analyses.length} root(s) [${analyses.map(a => a.workspaceName).join(', ')}], ${fileCount} files, fingerprint: ${request.fingerprint.substring(0, 8)}...`);
 	outputChannel.appendLine(`Active file: ${activeFile || 'none'}`);
+	if (anchor) {
+		outputChannel.appendLine(`Anchor: ${anchor.file} (lines ${anchor.startLine}-${anchor.endLine}), ${anchor.code.length} chars${anchor.truncated ? ', truncated' : ''}`);
+	}
+	if (history.length > 0) {
+		outputChannel.appendLine(`History: ${fitted.turns.length} turn(s), ${fitted.summarized} summarized, ${fitted.dropped} dropped`);
+	}
 	if (activeFile) {
-		outputChannel.appendLine(`Files with samples: ${analysis.files.filter(f => f.sample).length}`);
+		outputChannel.appendLine(`Files with samples: ${analyses.reduce((sum, analysis) => sum + analysis.files.filter(f => f.sample).length, 0)}, chunks: ${analyses.reduce((sum, analysis) => sum + analysis.files.reduce((count, f) => count + (f.chunks?.length ?? 0), 0), 0)}`);
 	}
 
 	try {
-		const controller = new AbortController();
-		const timeout = setTimeout(() => controller.abort(), timeoutMs);
-
-		const response = await fetch(`${serverUrl}/query`, {
-			method: 'POST',
-			signal: controller.signal,
-			headers: {
-				'Content-Type': 'application/json'
-			},
-			body: JSON.stringify(request)
-		});
-
-		clearTimeout(timeout);
-
-		if (response.ok) {
-			const data = await response.json() as QueryResponse;
-			outputChannel.appendLine(`Query successful: ${data.answers?.length || 0} answers`);
-			return data;
-		} else {
-			const errorText = await response.text();
-			outputChannel.appendLine(`Query failed: HTTP ${response.status} - ${errorText}`);
-			outputChannel.appendLine(`Request payload summary: ${analysis.fileCount} files, ${JSON.stringify(request).length} bytes`);
-			if (response.status === 404) {
-				throw new Error(`HTTP 404: Backend endpoint /query not found. The endpoint needs to be implemented in the backend. Context collected: ${analysis.fileCount} files.`);
-			}
-			throw new Error(`HTTP ${response.status}: ${errorText}`);
+		const response = await provider.query(request, { onEvent: streamResponses ? onEvent : undefined, signal });
+		if (provider.id === 'mock') {
+			outputChannel.appendLine(`Generated ${response.answers.length} offline answers`);
 		}
+		return response;
 	} catch (error: any) {
+		if (error instanceof RequestCancelledError || signal?.aborted) {
+			outputChannel.appendLine('Query cancelled');
+			throw new RequestCancelledError();
+		}
 		outputChannel.appendLine(`Query error: ${error.message}`);
-		outputChannel.appendLine(`Error details: ${JSON.stringify(error)}`);
-		if (error.name === 'AbortError') {
-			throw new Error(`Request timeout after ${timeoutMs}ms`);
+		if (isAuthError(error)) {
+			promptForApiToken(error.status);
 		}
-		if (error.message?.includes('fetch failed') || error.code === 'ECONNREFUSED' || error.code === 'ENOTFOUND') {
-			throw new Error(`Cannot connect to backend at ${serverUrl}. Make sure the backend is running. Use "AI Code Snippet RAG: Test Connection" to verify.`);
+		if (error instanceof BackendUnavailableError && config.get<boolean>('offlineFallback', true)) {
+			outputChannel.appendLine(`${provider.label} unreachable, answering from the local retrieval index`);
+			const reason = error instanceof CircuitOpenError ? 'is failing repeatedly' : 'is unreachable';
+			return {
+				...retrieveLocally(request),
+				notice: `${provider.label} at ${error.serverUrl} ${reason}; these results come from the local retrieval index.`
+			};
 		}
 		throw error;
 	}
 }
 
+// Language of an answer's code for highlighting
+export function answerLanguageId(answer: QueryAnswer): string {
+	return answer.languageId || getLanguageId(answer.file) || 'text';
+}
+
+// Render a single answer as markdown
+function renderAnswer(answer: QueryAnswer): string {
+	return renderAnswerHeader(answer) + (answer.explanation ? `${answer.explanation}\n\n` : '') + '---\n\n';
+}
+
+// File, line range, score and code of an answer, without its explanation
+function renderAnswerHeader(answer: QueryAnswer): string {
+	const languageId = answerLanguageId(answer);
+	return `**${answer.file}** (lines ${answer.start_line}-${answer.end_line}) [score: ${answer.score.toFixed(2)}]\n\n`
+		+ `\`\`\`${languageId}\n${answer.code}\n\`\`\`\n\n`;
+}
+
 // Render query response as markdown
 export function renderResponse(response: QueryResponse): string {
+	const reply = response.reply ? `${response.reply}\n\n` : '';
 	if (!response.answers || response.answers.length === 0) {
-		return 'No results found.';
+		return response.notice ? `> ${response.notice}\n\n${reply || 'No results found.'}` : reply || 'No results found.';
 	}
 
-	let markdown = '';
+	let markdown = (response.notice ? `> ${response.notice}\n\n` : '') + reply;
 	for (const answer of response.answers) {
-		const languageId = getLanguageId(answer.file) || 'text';
-		markdown += `**${answer.file}** (lines ${answer.start_line}-${answer.end_line}) [score: ${answer.score.toFixed(2)}]\n\n`;
-		markdown += `\`\`\`${languageId}\n${answer.code}\n\`\`\`\n\n`;
-		if (answer.explanation) {
-			markdown += `${answer.explanation}\n\n`;
-		}
-		markdown += '---\n\n';
+		markdown += renderAnswer(answer);
 	}
 
 	return markdown;
 }
 
+// Why an answer's lines may not show its code any more, if they may not
+export function describeAnswerState(answer: QueryAnswer, location: AnswerLocation | undefined): string | undefined {
+	switch (location?.state) {
+		case 'missing':
+			return `${answer.file} is not in the workspace any more.`;
+		case 'moved':
+			return `The cited code has moved to lines ${location.startLine}-${location.endLine}.`;
+		case 'changed':
+			return `${answer.file} has changed since this answer; lines ${answer.start_line}-${answer.end_line} no longer hold the cited code.`;
+		default:
+			return undefined;
+	}
+}
+
+// Header of a chat answer: a link to the cited lines (where they are now), a flag when the file changed, and the code
+async function renderChatAnswerHeader(response: vscode.ChatResponseStream, answer: QueryAnswer): Promise<AnswerLocation | undefined> {
+	const location = await locateAnswer(answer);
+	renderChatAnswerLink(response, answer, location, `${answer.file} (lines ${answer.start_line}-${answer.end_line})`);
+	response.markdown(` [score: ${answer.score.toFixed(2)}]\n\n`);
+
+	const note = describeAnswerState(answer, location);
+	if (note) {
+		response.markdown(`> ⚠️ ${note}\n\n`);
+	}
+	const languageId = answerLanguageId(answer);
+	response.markdown(`\`\`\`${languageId}\n${answer.code}\n\`\`\`\n\n`);
+	return location;
+}
+
+// Actions under a chat answer; answers to a query can also be rated
+function renderChatAnswerButtons(response: vscode.ChatResponseStream, answer: QueryAnswer, location: AnswerLocation | undefined, context?: AnswerContext): void {
+	response.button({ command: 'aiCodeSnippetRag.copyAnswer', title: 'Copy', arguments: [answer] });
+	response.button({ command: 'aiCodeSnippetRag.insertAnswer', title: 'Insert at Cursor', arguments: [answer] });
+	if (location?.uri) {
+		response.button({ command: 'aiCodeSnippetRag.compareAnswer', title: 'Compare with Current File', arguments: [answer] });
+	}
+	if (context) {
+		response.button({ command: 'aiCodeSnippetRag.rateAnswer', title: '👍 Useful', arguments: [{ context, answer, rating: 'up' }] });
+		response.button({ command: 'aiCodeSnippetRag.rateAnswer', title: '👎 Wrong', arguments: [{ context, answer, rating: 'down' }] });
+	}
+}
+
+// Write answers to a chat response as they arrive. Locating an answer's file is asynchronous,
+// so events are written in order through a queue that finish() waits for.
+function createChatStreamRenderer(response: vscode.ChatResponseStream, context?: AnswerContext): { onEvent: (event: QueryStreamEvent) => void; finish: () => Promise<void>; streamed: () => boolean } {
+	let answerCount = 0;
+	let streamed = false;
+	let explanationOpen = false;
+	let replyOpen = false;
+	let current: { answer: QueryAnswer; location: AnswerLocation | undefined } | undefined;
+	let queue: Promise<void> = Promise.resolve();
+
+	const closeAnswer = () => {
+		if (current) {
+			if (explanationOpen) {
+				response.markdown('\n\n');
+			}
+			renderChatAnswerButtons(response, current.answer, current.location, context);
+			response.markdown('\n\n---\n\n');
+		}
+		explanationOpen = false;
+		current = undefined;
+	};
+
+	const write = async (event: QueryStreamEvent) => {
+		switch (event.type) {
+			case 'answer':
+				if (replyOpen) {
+					response.markdown('\n\n---\n\n');
+					replyOpen = false;
+				}
+				closeAnswer();
+				current = { answer: event.answer, location: await renderChatAnswerHeader(response, event.answer) };
+				if (event.answer.explanation) {
+					response.markdown(event.answer.explanation);
+					explanationOpen = true;
+				}
+				answerCount++;
+				break;
+			case 'explanation':
+				// Only the answer being written can still grow in an append-only chat stream
+				if (event.index === answerCount - 1) {
+					response.markdown(event.text);
+					explanationOpen = true;
+				}
+				break;
+			case 'notice':
+				response.markdown(`> ${event.text}\n\n`);
+				break;
+			case 'reply':
+				// Prose replies come before the answers they cite
+				if (answerCount === 0) {
+					response.markdown(event.text);
+					replyOpen = true;
+				}
+				break;
+		}
+	};
+
+	return {
+		onEvent: event => {
+			streamed = true;
+			queue = queue.then(() => write(event)).catch(error => {
+				outputChannel.appendLine(`Failed to render answer: ${error.message}`);
+			});
+		},
+		finish: async () => {
+			await queue;
+			if (answerCount === 0 && !replyOpen) {
+				response.markdown('No results found.');
+			}
+			closeAnswer();
+		},
+		streamed: () => streamed
+	};
+}
+
+// Link to where an answer's lines are now, or its file and lines in bold when it cannot be opened
+function renderChatAnswerLink(response: vscode.ChatResponseStream, answer: QueryAnswer, location: AnswerLocation | undefined, title: string): void {
+	if (location?.uri) {
+		response.anchor(new vscode.Location(location.uri, new vscode.Range(location.startLine - 1, 0, location.endLine - 1, 0)), title);
+	} else {
+		response.markdown(`**${title}**`);
+	}
+}
+
+function firstLine(text: string): string {
+	return text.split('\n').map(line => line.trim()).find(line => line.length > 0) ?? '';
+}
+
+// Lay out the answers of a slash command that does not stream: /find lists locations, /usages groups
+// them by file, /tests separates existing tests from suggestions, and /summary reads as text
+async function renderCommandResponse(response: vscode.ChatResponseStream, command: ResolvedCommand, queryResponse: QueryResponse, context: AnswerContext): Promise<void> {
+	if (queryResponse.notice) {
+		response.markdown(`> ${queryResponse.notice}\n\n`);
+	}
+	if (queryResponse.reply) {
+		response.markdown(`${queryResponse.reply}\n\n`);
+	}
+	const answers = queryResponse.answers || [];
+	if (answers.length === 0) {
+		if (!queryResponse.reply) {
+			response.markdown(command.intent === 'usages' ? `No usages of \`${command.subject}\` found.` : 'No results found.');
+		}
+		return;
+	}
+	const located = await Promise.all(answers.map(async answer => ({ answer, location: await locateAnswer(answer) })));
+
+	switch (command.intent) {
+		case 'find':
+			response.markdown(`Found ${answers.length} location${answers.length === 1 ? '' : 's'}:\n\n`);
+			located.forEach(({ answer, location }, index) => {
+				response.markdown(`${index + 1}. `);
+				renderChatAnswerLink(response, answer, location, `${answer.file} (lines ${answer.start_line}-${answer.end_line})`);
+				const note = describeAnswerState(answer, location);
+				response.markdown(` [score: ${answer.score.toFixed(2)}]${answer.explanation ? ` - ${firstLine(answer.explanation)}` : ''}${note ? ` ⚠️ ${note}` : ''}\n`);
+			});
+			break;
+
+		case 'usages': {
+			const byFile = new Map<string, typeof located>();
+			for (const entry of located) {
+				byFile.set(entry.answer.file, [...(byFile.get(entry.answer.file) ?? []), entry]);
+			}
+			response.markdown(`\`${command.subject}\` is used in ${byFile.size} file${byFile.size === 1 ? '' : 's'}:\n\n`);
+			for (const [file, entries] of byFile) {
+				response.markdown(`**${file}**\n\n`);
+				for (const { answer, location } of entries) {
+					response.markdown('- ');
+					renderChatAnswerLink(response, answer, location, `lines ${answer.start_line}-${answer.end_line}`);
+					const code = firstLine(answer.code);
+					const note = describeAnswerState(answer, location);
+					response.markdown(`${code ? `: \`${code.replace(/`/g, "'")}\`` : ''}${note ? ` ⚠️ ${note}` : ''}\n`);
+				}
+				response.markdown('\n');
+			}
+			break;
+		}
+
+		case 'tests': {
+			// Answers citing files that do not exist yet are tests the backend suggests writing
+			const existing = located.filter(({ answer, location }) => location?.state !== 'missing' && isTestFile(answer.file));
+			const suggested = located.filter(({ location }) => location?.state === 'missing');
+			const related = located.filter(entry => !existing.includes(entry) && !suggested.includes(entry));
+
+			if (existing.length > 0) {
+				response.markdown(`**Tests for ${command.subject}**\n\n`);
+				for (const { answer, location } of existing) {
+					response.markdown('- ');
+					renderChatAnswerLink(response, answer, location, `${answer.file} (lines ${answer.start_line}-${answer.end_line})`);
+					response.markdown(`${answer.explanation ? ` - ${firstLine(answer.explanation)}` : ''}\n`);
+				}
+				response.markdown('\n');
+			} else {
+				response.markdown(`No tests for ${command.subject} were found.\n\n`);
+			}
+
+			if (suggested.length > 0) {
+				response.markdown('**Suggested tests**\n\n');
+				for (const { answer } of suggested) {
+					const languageId = answerLanguageId(answer);
+					response.markdown(`*${answer.file}*${answer.explanation ? ` - ${answer.explanation}` : ''}\n\n\`\`\`${languageId}\n${answer.code}\n\`\`\`\n\n`);
+					renderChatAnswerButtons(response, answer, undefined, context);
+					response.markdown('\n\n');
+				}
+			}
+
+			if (related.length > 0) {
+				response.markdown('**Related code**\n\n');
+				for (const { answer, location } of related) {
+					response.markdown('- ');
+					renderChatAnswerLink(response, answer, location, `${answer.file} (lines ${answer.start_line}-${answer.end_line})`);
+					response.markdown('\n');
+				}
+			}
+			break;
+		}
+
+		case 'summary':
+			for (const { answer, location } of located) {
+				if (answer.file === WORKSPACE_SUMMARY_FILE) {
+					response.markdown(`${answer.explanation}\n\n\`\`\`text\n${answer.code}\n\`\`\`\n\n`);
+				} else {
+					renderChatAnswerLink(response, answer, location, `${answer.file} (lines ${answer.start_line}-${answer.end_line})`);
+					response.markdown(`\n\n${answer.explanation}\n\n`);
+				}
+			}
+			break;
+	}
+}
+
 // Get active editor context
 export function getActiveEditorContext(): { file: string | null; selection: { startLine: number; endLine: number } | null } {
 	const editor = vscode.window.activeTextEditor;
@@ -540,67 +1326,228 @@ export function getActiveEditorContext(): { file: string | null; selection: { st
 }
 
 // Chat participant handler
-async function handleChatRequest(request: vscode.ChatRequest, context: vscode.ChatContext, response: vscode.ChatResponseStream, token: vscode.CancellationToken): Promise<void> {
-	let analysis: WorkspaceAnalysis | null = null;
+// The result's metadata records the turn, so later requests in the same chat can send it as history
+async function handleChatRequest(request: vscode.ChatRequest, context: vscode.ChatContext, response: vscode.ChatResponseStream, token: vscode.CancellationToken): Promise<vscode.ChatResult | void> {
+	let analyses: WorkspaceAnalysis[] = [];
 	let editorContext: { file: string | null; selection: { startLine: number; endLine: number } | null } = { file: null, selection: null };
+	const controller = new AbortController();
+	const cancellation = token.onCancellationRequested(() => controller.abort());
 	
 	try {
 		// Ensure workspace analysis
-		analysis = await analyzeWorkspace();
-		if (!analysis) {
+		const allAnalyses = await analyzeWorkspace();
+		if (allAnalyses.length === 0) {
 			response.markdown('Error: Could not analyze workspace. Please ensure a workspace is open.');
 			return;
 		}
 
+		// `root:<name>` in the prompt overrides the roots selected in the sidebar
+		const directives = parseRootDirectives(request.prompt);
+		const filtered = filterAnalysesByRoots(allAnalyses, directives.roots.length > 0 ? directives.roots : getSelectedRoots());
+		if (filtered.unknown.length > 0) {
+			response.markdown(describeUnknownRoots(filtered.unknown, allAnalyses));
+			return;
+		}
+		analyses = filtered.analyses;
+
 		// Get active editor context
 		editorContext = getActiveEditorContext();
 
-		// Send query
+		const command = resolveCommand(request.command, directives.prompt, vscode.window.activeTextEditor);
+		if ('error' in command) {
+			response.markdown(command.error);
+			return;
+		}
+		if (command.intent === 'explain' && command.subject) {
+			response.markdown(`Explaining ${command.subject}\n\n`);
+		}
+
+		// Plain questions, explanations and questions about the changes stream; the other commands are laid out once every answer is in
+		const streams = command.intent === 'ask' || command.intent === 'explain' || command.intent === 'changes';
+		const answerContext: AnswerContext = { query: command.query, intent: command.intent, fingerprint: getQueryFingerprint(analyses) };
+		const renderer = createChatStreamRenderer(response, answerContext);
 		const queryResponse = await sendQuery(
-			request.prompt,
-			analysis,
+			command.query,
+			analyses,
 			editorContext.file,
-			editorContext.selection
+			editorContext.selection,
+			{
+				onEvent: streams ? renderer.onEvent : undefined,
+				signal: controller.signal,
+				history: turnsFromChatHistory(context.history, CHAT_PARTICIPANT_ID),
+				intent: command.intent,
+				anchor: vscode.window.activeTextEditor ? await outgoingFilter.editorAnchor(vscode.window.activeTextEditor.document) : undefined
+			}
 		);
 
 		if (!queryResponse) {
 			response.markdown('Error: No response from backend. Please check the connection and try again.');
 			return;
 		}
+		// Streamed answers come from the backend; the rest are rendered after this is known
+		answerContext.local = queryResponse.local;
+
+		if (streams) {
+			// Offline answers and non-streaming backends go through the same renderer, so every answer gets its link and actions
+			if (!renderer.streamed()) {
+				if (queryResponse.notice) {
+					renderer.onEvent({ type: 'notice', text: queryResponse.notice });
+				}
+				if (queryResponse.reply) {
+					renderer.onEvent({ type: 'reply', text: queryResponse.reply });
+				}
+				for (const answer of queryResponse.answers || []) {
+					renderer.onEvent({ type: 'answer', answer });
+				}
+			}
+			await renderer.finish();
+		} else {
+			await renderCommandResponse(response, command, queryResponse, answerContext);
+		}
 
-		// Render response
-		const markdown = renderResponse(queryResponse);
-		response.markdown(markdown);
+		const answers = queryResponse.answers || [];
+		const turnQuery = request.command ? `/${request.command} ${directives.prompt}`.trim() : directives.prompt;
+		return { metadata: { turn: toConversationTurn(turnQuery, answers, queryResponse.reply), command, answerFiles: answers.map(answer => answer.file), answerContext, answers } };
 	} catch (error: any) {
+		if (error instanceof RequestCancelledError) {
+			// The chat view already shows the request as stopped
+			return;
+		}
 		outputChannel.appendLine(`Chat request error: ${error.message}`);
 		outputChannel.appendLine(`Stack: ${error.stack}`);
 		
 		let errorMessage = `**Error:** ${error.message}`;
+		const fileCount = analyses.reduce((sum, analysis) => sum + analysis.fileCount, 0);
 		
 		// Show workspace context that was collected
-		if (analysis) {
+		if (analyses.length > 0) {
 			errorMessage += `\n\n**Workspace Context Collected:**\n`;
-			errorMessage += `- **Files analyzed:** ${analysis.fileCount}\n`;
-			errorMessage += `- **Workspace:** ${analysis.workspaceName}\n`;
-			errorMessage += `- **Files with samples:** ${analysis.files.filter((f: FileInfo) => f.sample).length}\n`;
+			errorMessage += `- **Files analyzed:** ${fileCount}\n`;
+			errorMessage += `- **Workspace roots:** ${analyses.map(a => a.workspaceName).join(', ')}\n`;
+			errorMessage += `- **Files with samples:** ${analyses.reduce((sum, analysis) => sum + analysis.files.filter((f: FileInfo) => f.sample).length, 0)}\n`;
 			if (editorContext.file) {
 				errorMessage += `- **Active file:** ${editorContext.file}\n`;
 			}
 			errorMessage += `\n*All file metadata and samples were collected and would be sent to the backend.*`;
 		}
 		
-		if (error.message?.includes('Cannot connect to backend') || error.message?.includes('404')) {
+		if (isAuthError(error)) {
+			errorMessage += `\n\n**Note:** The backend rejected the request (HTTP ${error.status}). Run "AI Code Snippet RAG: Set API Token" to enter a valid token.`;
+		} else if (error instanceof BackendSchemaError) {
+			errorMessage += `\n\n**Note:** The backend's reply does not match what this extension expects. Run "AI Code Snippet RAG: Test Connection" to see the API version it reports, and check the Output panel for each mismatch.`;
+		} else if (error instanceof BackendHttpError && error.status === 404) {
 			errorMessage += `\n\n**Note:** The backend \`/query\` endpoint is not yet implemented (404 error).`;
-			errorMessage += `\nThe extension has successfully collected ${analysis?.fileCount || 0} files from your workspace.`;
+			errorMessage += `\nThe extension has successfully collected ${fileCount} files from your workspace.`;
 			errorMessage += `\nOnce the backend implements the \`/query\` endpoint, this context will be sent automatically.`;
-		} else if (error.message?.includes('Cannot connect to backend')) {
+		} else if (error instanceof BackendUnavailableError) {
 			errorMessage += `\n\n**Troubleshooting:**\n1. Ensure your backend is running: \`docker compose up\`\n2. Test connection: Run "AI Code Snippet RAG: Test Connection" command\n3. Check backend URL in settings (default: http://localhost:8000)`;
 		}
 		
 		errorMessage += `\n\nPlease check the Output panel (AI Code Snippet RAG) for detailed logs.`;
 		
 		response.markdown(errorMessage);
+	} finally {
+		cancellation.dispose();
+	}
+}
+
+// Roots selected for queries, shared by the sidebar and the chat participant
+export function getSelectedRoots(): string[] {
+	return extensionContext.workspaceState.get<string[]>(SELECTED_ROOTS_KEY, []);
+}
+
+export async function setSelectedRoots(roots: string[]): Promise<void> {
+	await extensionContext.workspaceState.update(SELECTED_ROOTS_KEY, roots);
+	outputChannel.appendLine(`Query roots: ${roots.length > 0 ? roots.map(root => path.basename(root)).join(', ') : 'all'}`);
+}
+
+export function hasApiToken(): boolean {
+	return activeClient().hasApiToken;
+}
+
+// Ask for the API token of the active provider's server and keep it in secret storage; returns whether one was stored
+async function setApiToken(prompt = `Enter the API token for the ${activeClientLabel()}`): Promise<boolean> {
+	const token = await vscode.window.showInputBox({
+		prompt,
+		password: true,
+		ignoreFocusOut: true,
+		placeHolder: 'API key or bearer token',
+		validateInput: value => value.trim() ? undefined : 'The token cannot be empty'
+	});
+	if (token === undefined) {
+		return false;
+	}
+
+	await activeClient().setApiToken(token.trim());
+	outputChannel.appendLine(`API token for the ${activeClientLabel()} stored in secret storage`);
+	vscode.window.showInformationMessage('AI Code Snippet RAG: API token saved');
+	return true;
+}
+
+async function rotateApiToken(): Promise<void> {
+	if (!activeClient().hasApiToken) {
+		await setApiToken(`No API token is set yet. Enter the API token for the ${activeClientLabel()}`);
+		return;
+	}
+	if (await setApiToken('Enter the new API token; it replaces the current one')) {
+		outputChannel.appendLine('API token rotated');
+	}
+}
+
+async function clearApiToken(): Promise<void> {
+	if (!activeClient().hasApiToken) {
+		vscode.window.showInformationMessage('AI Code Snippet RAG: No API token is set');
+		return;
+	}
+
+	const choice = await vscode.window.showWarningMessage(`Clear the stored API token for the ${activeClientLabel()}? Requests will be sent without authentication.`, { modal: true }, 'Clear Token');
+	if (choice === 'Clear Token') {
+		await activeClient().setApiToken(undefined);
+		outputChannel.appendLine('API token cleared');
+		vscode.window.showInformationMessage('AI Code Snippet RAG: API token cleared');
+	}
+}
+
+let authPromptOpen = false;
+
+// Offer to re-enter the token after the backend rejected it; concurrent rejections share one prompt
+async function promptForApiToken(status: number): Promise<void> {
+	if (authPromptOpen) {
+		return;
 	}
+	authPromptOpen = true;
+	try {
+		const message = activeClient().hasApiToken
+			? `AI Code Snippet RAG: The ${activeClientLabel()} rejected the API token (HTTP ${status}).`
+			: `AI Code Snippet RAG: The ${activeClientLabel()} requires an API token (HTTP ${status}).`;
+		const choice = await vscode.window.showWarningMessage(message, 'Enter Token');
+		if (choice === 'Enter Token') {
+			await setApiToken();
+		}
+	} finally {
+		authPromptOpen = false;
+	}
+}
+
+function updateConnectionStatusItem(item: vscode.StatusBarItem, status: ConnectionStatus): void {
+	const provider = getQueryProvider();
+	if (!provider.client || !provider.capabilities.healthCheck) {
+		item.text = '$(circle-slash) RAG';
+		item.tooltip = `AI Code Snippet RAG: ${provider.label}. Queries are answered from the local retrieval index and nothing is sent.`;
+		return;
+	}
+
+	const icons: Record<ConnectionStatus, string> = { connected: '$(pass)', disconnected: '$(error)', checking: '$(sync~spin)', unauthorized: '$(key)' };
+	item.text = `${icons[status]} RAG`;
+
+	const client = provider.client;
+	const openUntil = client.circuitOpenUntil;
+	const lastCheck = client.lastCheck;
+	item.tooltip = `AI Code Snippet RAG: ${provider.label} (${client.serverUrl}): ${status}`
+		+ (status === 'unauthorized' ? `\nThe server requires a valid API token; run "AI Code Snippet RAG: Set API Token"` : '')
+		+ (openUntil ? `\nRequests paused after repeated failures until ${new Date(openUntil).toLocaleTimeString()}` : '')
+		+ (lastCheck ? `\nLast health check: ${new Date(lastCheck).toLocaleTimeString()}` : '')
+		+ '\nClick to test the connection';
 }
 
 // Commands
@@ -611,37 +1558,526 @@ async function openChat() {
 }
 
 export async function rebuildAnalysis() {
-	const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-	if (!workspaceFolder) {
+	const workspaceFolders = vscode.workspace.workspaceFolders;
+	if (!workspaceFolders || workspaceFolders.length === 0) {
 		vscode.window.showWarningMessage('No workspace folder found');
 		return;
 	}
 
-	const cacheKey = workspaceFolder.uri.toString();
-	analysisCache.delete(cacheKey);
+	// A rebuild rereads every file, so the stored analysis goes too
+	forgetAllAnalyses();
+	outgoingFilter.forgetIgnoreRules();
+	await analysisStore.purge();
 	outputChannel.appendLine('Analysis cache cleared, rebuilding...');
 
 	vscode.window.showInformationMessage('AI Code Snippet RAG: Rebuilding workspace analysis...');
-	const analysis = await analyzeWorkspace();
-	if (analysis) {
-		vscode.window.showInformationMessage(`AI Code Snippet RAG: Analysis complete - ${analysis.fileCount} files`);
+	const analyses = await analyzeWorkspace();
+	if (analyses.length > 0) {
+		const fileCount = analyses.reduce((sum, analysis) => sum + analysis.fileCount, 0);
+		vscode.window.showInformationMessage(`AI Code Snippet RAG: Analysis complete - ${fileCount} files in ${analyses.length} root(s)`);
 	} else {
 		vscode.window.showErrorMessage('AI Code Snippet RAG: Analysis failed');
 	}
 }
 
+// Tell why a file is or is not part of the analysis
+async function explainFileInclusion(uri?: vscode.Uri) {
+	if (!uri) {
+		uri = vscode.window.activeTextEditor?.document.uri;
+	}
+	if (!uri) {
+		const picked = await vscode.window.showOpenDialog({
+			canSelectMany: false,
+			canSelectFolders: true,
+			defaultUri: vscode.workspace.workspaceFolders?.[0]?.uri,
+			openLabel: 'Explain'
+		});
+		uri = picked?.[0];
+	}
+	if (!uri) {
+		return;
+	}
+
+	const workspaceFolder = vscode.workspace.getWorkspaceFolder(uri);
+	if (!workspaceFolder) {
+		vscode.window.showWarningMessage(`AI Code Snippet RAG: ${uri.fsPath} is not in an open workspace folder`);
+		return;
+	}
+
+	const relativePath = vscode.workspace.asRelativePath(uri, false);
+	let isDirectory = false;
+	let size = 0;
+	try {
+		const stat = await vscode.workspace.fs.stat(uri);
+		isDirectory = (stat.type & vscode.FileType.Directory) !== 0;
+		size = stat.size;
+	} catch (err) {
+		// Deleted or unsaved; explain it as a file
+	}
+
+	const verdict = await outgoingFilter.ignoreMatcher(workspaceFolder).explain(relativePath, isDirectory);
+	let message = `${relativePath} is ${verdict.included ? 'included' : 'excluded'} because ${verdict.reason}.`;
+	if (verdict.included && !isDirectory && !TEXT_FILE_EXTENSIONS.has(path.extname(relativePath).toLowerCase())) {
+		message += ' Only its metadata is sent, since it is not a recognized text file type.';
+	} else if (verdict.included && !isDirectory && size > getReadLimits().maxChunkedFileBytes) {
+		message += ` Only its metadata is sent, since it is larger than aiCodeSnippetRag.maxChunkedFileBytes (${getReadLimits().maxChunkedFileBytes} bytes).`;
+	}
+
+	outputChannel.appendLine(`Explain ${workspaceFolder.name}/${message}`);
+	vscode.window.showInformationMessage(`AI Code Snippet RAG: ${message}`);
+}
+
+// The analyses the next query would draw on, after root selection and session exclusions
+async function collectOutgoingContext(): Promise<WorkspaceAnalysis[]> {
+	return outgoingFilter.sessionExclusions.apply(filterAnalysesByRoots(await analyzeWorkspace(), getSelectedRoots()).analyses);
+}
+
+// Every file the next query would carry, with its size in the request body and what was redacted from it
+export async function getOutgoingContextPreview(): Promise<OutgoingContextPreview> {
+	return buildOutgoingContextPreview(await collectOutgoingContext());
+}
+
+function buildOutgoingContextPreview(analyses: WorkspaceAnalysis[]): OutgoingContextPreview {
+	const config = vscode.workspace.getConfiguration('aiCodeSnippetRag');
+	const provider = getQueryProvider();
+	const serverUrl = provider.client?.serverUrl ?? '';
+
+	let mode: OutgoingContextPreview['mode'] = 'full';
+	if (!provider.capabilities.sendsCode) {
+		mode = 'offline';
+	} else if (!provider.capabilities.deltaUpload) {
+		// Providers that do not take the workspace get what is retrieved for each query
+		mode = 'snippets';
+	} else if (config.get<boolean>('deltaUpload', true) && deltaSync.isSupported(serverUrl)) {
+		mode = 'delta';
+	}
+	const fingerprint = contextFingerprint(analyses);
+
+	// A full upload is fitted to the budget as a query without terms would be, from the editor state alone
+	const budgetBytes = mode === 'full' ? getContextBudgetBytes() : undefined;
+	let planned: Map<string, { file: FileInfo; treatment: FileTreatment }> | undefined;
+	if (budgetBytes !== undefined && analyses.length > 0) {
+		const editor = getActiveEditorContext();
+		const result = planContext(analyses, getPlanSignals('', analyses, editor.file, editor.selection), {
+			budgetBytes,
+			excerptBytes: config.get<number>('contextExcerptBytes', 4000)
+		});
+		planned = new Map();
+		for (const analysis of result.analyses) {
+			for (const file of analysis.files) {
+				const treatment = file.excerpt ? 'excerpt' : file.sample || file.chunks ? 'full' : 'metadata';
+				planned.set(`${analysis.workspaceRoot}\0${file.path}`, { file, treatment });
+			}
+		}
+	}
+
+	const roots = analyses.map(analysis => ({
+		workspaceName: analysis.workspaceName,
+		workspaceRoot: analysis.workspaceRoot,
+		files: analysis.files.flatMap(file => {
+			const plannedFile = planned?.get(`${analysis.workspaceRoot}\0${file.path}`);
+			if (planned && !plannedFile) {
+				// Left out by the plan
+				return [];
+			}
+			const sent = plannedFile?.file ?? file;
+			return [{
+				path: file.path,
+				bytes: payloadBytes(toPayloadFile(sent)),
+				chunks: sent.chunks?.length ?? 0,
+				redactions: file.redactions ?? [],
+				treatment: plannedFile?.treatment
+			}];
+		}),
+		sessionExclusions: outgoingFilter.sessionExclusions.list(analysis.workspaceRoot)
+	}));
+
+	return {
+		mode,
+		provider: describeProvider(provider),
+		serverUrl,
+		synced: mode === 'delta' && analyses.length > 0 && deltaSync.isSynced(serverUrl, fingerprint),
+		contextBudget: budgetBytes,
+		fileCount: roots.reduce((sum, root) => sum + root.files.length, 0),
+		totalBytes: roots.reduce((sum, root) => sum + root.files.reduce((bytes, file) => bytes + file.bytes, 0), 0),
+		roots
+	};
+}
+
+function formatBytes(bytes: number): string {
+	if (bytes < 1024) {
+		return `${bytes} B`;
+	}
+	return bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
+}
+
+function describeOutgoingMode(preview: OutgoingContextPreview): string {
+	switch (preview.mode) {
+		case 'offline':
+			return 'Offline mode is on, so nothing is sent';
+		case 'snippets':
+			return `Only the snippets retrieved for each query, from the files below, are sent to ${preview.serverUrl}`;
+		case 'delta':
+			return preview.synced
+				? `The backend already holds this context; only the query is sent to ${preview.serverUrl}`
+				: `Only files the backend lacks are uploaded to ${preview.serverUrl}`;
+		default:
+			return preview.contextBudget !== undefined
+				? `The files below are sent to ${preview.serverUrl}, fitted to the ${formatBytes(preview.contextBudget)} context budget; each query plans again from its terms`
+				: `Every file below is sent to ${preview.serverUrl}`;
+	}
+}
+
+// Open the request entries of some files as JSON, exactly as they would be serialized
+async function showPayloadDocument(analyses: WorkspaceAnalysis[]): Promise<void> {
+	const content = JSON.stringify(analyses.map(analysis => ({
+		workspaceName: analysis.workspaceName,
+		workspaceRoot: analysis.workspaceRoot,
+		files: analysis.files.map(toPayloadFile)
+	})), null, 2);
+	const document = await vscode.workspace.openTextDocument({ language: 'json', content });
+	await vscode.window.showTextDocument(document, { preview: true });
+}
+
+// List what the next query would send; files can be opened as JSON or excluded from there
+async function previewOutgoingContext(): Promise<void> {
+	const analyses = await collectOutgoingContext();
+	const preview = buildOutgoingContextPreview(analyses);
+	const multiRoot = preview.roots.length > 1;
+	const excludeButton = { iconPath: new vscode.ThemeIcon('eye-closed'), tooltip: 'Exclude from context' };
+
+	type PreviewItem = vscode.QuickPickItem & { action: 'all' | 'file' | 'restore'; workspaceRoot?: string; path?: string };
+	const items: PreviewItem[] = [{
+		label: '$(json) Open the whole payload as JSON',
+		description: `${preview.fileCount} files, ${formatBytes(preview.totalBytes)}`,
+		detail: describeOutgoingMode(preview),
+		action: 'all'
+	}];
+	if (outgoingFilter.sessionExclusions.size > 0) {
+		items.push({ label: '$(discard) Restore files excluded for this session', description: `${outgoingFilter.sessionExclusions.size} path(s)`, action: 'restore' });
+	}
+	for (const root of preview.roots) {
+		items.push({ label: root.workspaceName, kind: vscode.QuickPickItemKind.Separator, action: 'file' });
+		for (const file of root.files) {
+			const details = [formatBytes(file.bytes)];
+			if (file.treatment === 'excerpt' || file.treatment === 'metadata') {
+				details.push(file.treatment === 'excerpt' ? 'excerpt' : 'metadata only');
+			}
+			if (file.chunks > 0) {
+				details.push(`${file.chunks} chunks`);
+			}
+			if (file.redactions.length > 0) {
+				details.push(`$(shield) ${file.redactions.length} redacted (${[...new Set(file.redactions.map(r => r.detector))].join(', ')})`);
+			}
+			items.push({
+				label: multiRoot ? `${root.workspaceName}/${file.path}` : file.path,
+				description: details.join(' · '),
+				buttons: [excludeButton],
+				action: 'file',
+				workspaceRoot: root.workspaceRoot,
+				path: file.path
+			});
+		}
+	}
+
+	const quickPick = vscode.window.createQuickPick<PreviewItem>();
+	quickPick.title = 'Outgoing Context';
+	quickPick.placeholder = 'Select a file to see its request entry';
+	quickPick.matchOnDescription = true;
+	quickPick.items = items;
+
+	quickPick.onDidTriggerItemButton(async event => {
+		quickPick.hide();
+		await excludeFromContext(event.item.workspaceRoot!, event.item.path!);
+	});
+	quickPick.onDidAccept(async () => {
+		const pick = quickPick.selectedItems[0];
+		quickPick.hide();
+		if (!pick) {
+			return;
+		}
+		if (pick.action === 'restore') {
+			outgoingFilter.sessionExclusions.clear();
+			outputChannel.appendLine('Restored all files excluded for this session');
+			WebviewProvider.createOrShow(extensionContext, outputChannel, outgoingFilter).refreshContextPreview();
+		} else if (pick.action === 'all') {
+			await showPayloadDocument(analyses);
+		} else {
+			const analysis = analyses.find(a => a.workspaceRoot === pick.workspaceRoot);
+			const file = analysis?.files.find(f => f.path === pick.path);
+			if (analysis && file) {
+				await showPayloadDocument([{ ...analysis, files: [file] }]);
+			}
+		}
+	});
+	quickPick.onDidHide(() => quickPick.dispose());
+	quickPick.show();
+}
+
+// Keep a file or one of its folders out of outgoing requests, for this session or in the exclude setting
+export async function excludeFromContext(workspaceRoot: string, filePath: string): Promise<boolean> {
+	const segments = filePath.split('/');
+	const targets = segments.map((_segment, index) => segments.slice(0, segments.length - index).join('/'));
+	const target = await vscode.window.showQuickPick(
+		targets.map((target, index) => ({
+			label: index === 0 ? `$(file) ${target}` : `$(folder) ${target}/`,
+			target,
+			isFolder: index > 0
+		})),
+		{ placeHolder: 'What should be excluded from the context?' }
+	);
+	if (!target) {
+		return false;
+	}
+
+	const sessionOnly = { label: 'For this session', description: 'Until the window is closed or reloaded' };
+	const permanently = { label: 'Permanently', description: 'Adds a glob to aiCodeSnippetRag.exclude in the workspace folder settings' };
+	const scope = await vscode.window.showQuickPick([sessionOnly, permanently], { placeHolder: `Exclude ${target.target}${target.isFolder ? '/' : ''}` });
+	if (!scope) {
+		return false;
+	}
+
+	if (scope === sessionOnly) {
+		outgoingFilter.sessionExclusions.add(workspaceRoot, target.target);
+		outputChannel.appendLine(`Excluded ${target.target} from the context for this session`);
+	} else {
+		const folder = vscode.workspace.workspaceFolders?.find(f => f.uri.fsPath === workspaceRoot);
+		if (!folder) {
+			vscode.window.showWarningMessage(`AI Code Snippet RAG: ${workspaceRoot} is no longer an open workspace folder`);
+			return false;
+		}
+		// Written at folder level so the glob only applies to the root it was meant for
+		const config = vscode.workspace.getConfiguration('aiCodeSnippetRag', folder.uri);
+		const glob = target.isFolder ? `${target.target}/**` : target.target;
+		const current = config.inspect<string[]>('exclude')?.workspaceFolderValue ?? [];
+		if (!current.includes(glob)) {
+			await config.update('exclude', [...current, glob], vscode.ConfigurationTarget.WorkspaceFolder);
+		}
+		outputChannel.appendLine(`Added ${glob} to aiCodeSnippetRag.exclude for ${folder.name}`);
+	}
+	vscode.window.showInformationMessage(`AI Code Snippet RAG: ${target.target}${target.isFolder ? '/' : ''} excluded ${scope === sessionOnly ? 'for this session' : 'permanently'}`);
+	WebviewProvider.createOrShow(extensionContext, outputChannel, outgoingFilter).refreshContextPreview();
+	return true;
+}
+
+export function restoreContextPath(workspaceRoot: string, relativePath: string): void {
+	outgoingFilter.sessionExclusions.remove(workspaceRoot, relativePath);
+	outputChannel.appendLine(`Restored ${relativePath} to the context`);
+}
+
+async function openAuditLog(): Promise<void> {
+	const log = getAuditLog();
+	if (!log) {
+		const choice = await vscode.window.showInformationMessage('AI Code Snippet RAG: The audit log is off. Enable aiCodeSnippetRag.auditLog to record every request sent.', 'Open Settings');
+		if (choice === 'Open Settings') {
+			vscode.commands.executeCommand('workbench.action.openSettings', 'aiCodeSnippetRag.auditLog');
+		}
+		return;
+	}
+	try {
+		await vscode.window.showTextDocument(vscode.Uri.file(log.filePath));
+	} catch (err) {
+		vscode.window.showInformationMessage(`AI Code Snippet RAG: No request has been recorded yet in ${log.filePath}`);
+	}
+}
+
+// The latest rating given to an answer, for showing it as selected
+export function getAnswerRating(context: AnswerContext, answer: QueryAnswer): FeedbackRating | undefined {
+	return feedbackReporter.ratingFor(context, answer);
+}
+
+// Rate an answer from the sidebar or the chat. Enter sends the rating without a comment; Escape cancels it.
+async function rateAnswer(args: { context: AnswerContext; answer: QueryAnswer; rating: FeedbackRating } | undefined): Promise<FeedbackStatus | undefined> {
+	if (!args?.context || !args.answer) {
+		return undefined;
+	}
+	const { context, answer, rating } = args;
+	const comment = await vscode.window.showInputBox({
+		title: `${rating === 'up' ? 'Useful' : 'Wrong'}: ${answer.file} (lines ${answer.start_line}-${answer.end_line})`,
+		prompt: rating === 'up' ? 'What made this answer useful? (optional)' : 'What is wrong with this answer? (optional)',
+		placeHolder: 'Press Enter to send without a comment'
+	});
+	if (comment === undefined) {
+		return undefined;
+	}
+
+	const send = vscode.workspace.getConfiguration('aiCodeSnippetRag').get<boolean>('sendFeedback', true);
+	const status = await feedbackReporter.submit(context, answer, rating, comment, send);
+	switch (status) {
+		case 'sent':
+			vscode.window.setStatusBarMessage('AI Code Snippet RAG: Feedback sent', 3000);
+			break;
+		case 'queued':
+			vscode.window.showInformationMessage('AI Code Snippet RAG: The backend is not reachable; the feedback will be sent once it is back');
+			break;
+		case 'local':
+			vscode.window.setStatusBarMessage('AI Code Snippet RAG: Feedback saved to the local history', 3000);
+			break;
+		case 'unsupported':
+			vscode.window.showInformationMessage('AI Code Snippet RAG: The backend does not accept feedback; it is kept in the local history');
+			break;
+		case 'rejected':
+			vscode.window.showWarningMessage('AI Code Snippet RAG: The backend rejected the feedback; see the Output panel and the feedback history');
+			break;
+	}
+	return status;
+}
+
+// Every rating given, answers marked wrong first, with the option to send the queue now or clear it
+async function showFeedbackHistory(): Promise<void> {
+	const entries = feedbackReporter.entries;
+	if (entries.length === 0) {
+		vscode.window.showInformationMessage('AI Code Snippet RAG: No answer has been rated yet');
+		return;
+	}
+	const document = await vscode.workspace.openTextDocument({ language: 'markdown', content: feedbackToMarkdown(entries) });
+	await vscode.window.showTextDocument(document, { preview: true });
+
+	const queued = feedbackReporter.queuedCount;
+	const actions = queued > 0 ? ['Send Now', 'Clear History'] : ['Clear History'];
+	const choice = await vscode.window.showInformationMessage(`AI Code Snippet RAG: ${entries.length} rated answer(s)${queued > 0 ? `, ${queued} waiting to be sent` : ''}`, ...actions);
+	if (choice === 'Send Now') {
+		await feedbackReporter.flush();
+		const left = feedbackReporter.queuedCount;
+		vscode.window.showInformationMessage(`AI Code Snippet RAG: ${left === 0 ? 'Queued feedback sent' : `${left} feedback entries are still waiting for the backend`}`);
+	} else if (choice === 'Clear History') {
+		const confirm = await vscode.window.showWarningMessage(`Delete all ${entries.length} feedback entries${queued > 0 ? `, including ${queued} not sent yet` : ''}?`, { modal: true }, 'Delete');
+		if (confirm === 'Delete') {
+			await feedbackReporter.clear();
+			vscode.window.showInformationMessage('AI Code Snippet RAG: Feedback history cleared');
+		}
+	}
+}
+
+// Inspect and purge analyses stored across sessions
+async function manageAnalysisCache() {
+	if (!analysisStore.enabled) {
+		vscode.window.showWarningMessage('AI Code Snippet RAG: The analysis cache needs an open workspace');
+		return;
+	}
+
+	const entries = await analysisStore.list();
+	if (entries.length === 0) {
+		vscode.window.showInformationMessage('AI Code Snippet RAG: No stored analysis');
+		return;
+	}
+
+	const totalBytes = entries.reduce((sum, entry) => sum + entry.bytes, 0);
+	const purgeAll = { label: '$(trash) Purge all stored analyses', description: `${entries.length} root(s), ${(totalBytes / (1024 * 1024)).toFixed(2)} MB` };
+	const picks = entries.map(entry => ({
+		label: entry.workspaceName,
+		description: `${entry.fileCount} files, ${(entry.bytes / (1024 * 1024)).toFixed(2)} MB`,
+		detail: `${entry.workspaceRoot} - saved ${entry.savedAt ? new Date(entry.savedAt).toLocaleString() : 'unknown'}`,
+		entry
+	}));
+
+	const pick = await vscode.window.showQuickPick([...picks, purgeAll], { placeHolder: 'Stored workspace analyses' });
+	if (!pick) {
+		return;
+	}
+
+	if (pick === purgeAll) {
+		await analysisStore.purge();
+		outputChannel.appendLine(`Purged all stored analyses (${entries.length} root(s))`);
+		vscode.window.showInformationMessage('AI Code Snippet RAG: Stored analyses purged');
+		return;
+	}
+
+	const entry = (pick as typeof picks[number]).entry;
+	const action = await vscode.window.showQuickPick(['Show details in Output', 'Purge'], { placeHolder: entry.workspaceName });
+	if (action === 'Purge') {
+		await analysisStore.purge(entry);
+		outputChannel.appendLine(`Purged stored analysis for ${entry.workspaceName}`);
+		vscode.window.showInformationMessage(`AI Code Snippet RAG: Stored analysis for ${entry.workspaceName} purged`);
+	} else if (action) {
+		outputChannel.appendLine(`Stored analysis: ${entry.workspaceName}`);
+		outputChannel.appendLine(`  Root: ${entry.workspaceRoot}`);
+		outputChannel.appendLine(`  Files: ${entry.fileCount}`);
+		outputChannel.appendLine(`  Size: ${entry.bytes} bytes`);
+		outputChannel.appendLine(`  Saved: ${entry.savedAt ? new Date(entry.savedAt).toLocaleString() : 'unknown'}`);
+		outputChannel.appendLine(`  Location: ${entry.uri.fsPath}`);
+		outputChannel.show(true);
+	}
+}
+
+async function selectWorkspaceRoots() {
+	const workspaceFolders = vscode.workspace.workspaceFolders;
+	if (!workspaceFolders || workspaceFolders.length === 0) {
+		vscode.window.showWarningMessage('No workspace folder found');
+		return;
+	}
+
+	const selected = getSelectedRoots();
+	const picks = await vscode.window.showQuickPick(
+		workspaceFolders.map(folder => ({
+			label: folder.name,
+			description: folder.uri.fsPath,
+			picked: selected.length === 0 || selected.includes(folder.uri.fsPath)
+		})),
+		{ canPickMany: true, placeHolder: 'Select the workspace roots that queries should cover' }
+	);
+	if (!picks) {
+		return;
+	}
+
+	// Selecting every root is stored as "all" so newly added roots are included too
+	const roots = picks.length === workspaceFolders.length ? [] : picks.map(pick => pick.description);
+	await setSelectedRoots(roots);
+	WebviewProvider.createOrShow(extensionContext, outputChannel, outgoingFilter).refreshWorkspaceRoots();
+}
+
 // Extension activation
 export function activate(context: vscode.ExtensionContext) {
+	extensionContext = context;
+	analysisStore = new AnalysisStore(context.storageUri);
 	outputChannel = vscode.window.createOutputChannel('AI Code Snippet RAG');
+	outgoingFilter = new OutgoingFilter(outputChannel, builtInExclusion);
 	outputChannel.appendLine('AI Code Snippet RAG extension activated');
 
-	const config = vscode.workspace.getConfiguration('aiCodeSnippetRag');
-	const serverUrl = config.get<string>('serverUrl', 'http://localhost:8000');
-	outputChannel.appendLine(`Server URL: ${serverUrl}`);
+	backendClient = new BackendClient(outputChannel, context.secrets);
+	const openAiClient = new BackendClient(outputChannel, context.secrets, OPENAI_COMPATIBLE_BACKEND);
+	context.subscriptions.push(backendClient, openAiClient);
+
+	const ragProvider = new RagBackendProvider(backendClient, deltaSync, packContext, recordAudit, outputChannel);
+	queryProviders = {
+		rag: ragProvider,
+		openai: new OpenAiCompatibleProvider(openAiClient, retrieveLocally, recordAudit, outputChannel),
+		mock: new LocalMockProvider(retrieveLocally)
+	};
+	const provider = getQueryProvider();
+	outputChannel.appendLine(`Provider: ${provider.label}${provider.client ? ` at ${provider.client.serverUrl}` : ''}`);
+
+	// Sending feedback is safe to retry: the backend keys it by the entry's id
+	feedbackReporter = new FeedbackReporter(context.workspaceState, async (endpoint, body) => {
+		const versioned = await ragProvider.endpoint(endpoint);
+		recordAudit(backendClient.serverUrl, versioned, (JSON.parse(body) as FeedbackRequest).query, body);
+		return backendClient.request(versioned, { body, idempotent: true });
+	}, () => backendClient.serverUrl, outputChannel);
 
 	// Register chat participant
 	try {
-		const chatParticipant = vscode.chat.createChatParticipant('aiCodeSnippetRag.ask', handleChatRequest);
+		const chatParticipant = vscode.chat.createChatParticipant(CHAT_PARTICIPANT_ID, handleChatRequest);
+		chatParticipant.followupProvider = {
+			provideFollowups: (result: vscode.ChatResult) => {
+				const command = result.metadata?.command as ResolvedCommand | undefined;
+				return command ? followupsFor(command, result.metadata?.answerFiles ?? []) : [];
+			}
+		};
+		// The chat's own thumbs rate every answer of the response
+		chatParticipant.onDidReceiveFeedback(feedback => {
+			const answerContext = feedback.result.metadata?.answerContext as AnswerContext | undefined;
+			const answers = (feedback.result.metadata?.answers ?? []) as QueryAnswer[];
+			if (!answerContext) {
+				return;
+			}
+			const rating: FeedbackRating = feedback.kind === vscode.ChatResultFeedbackKind.Helpful ? 'up' : 'down';
+			const send = vscode.workspace.getConfiguration('aiCodeSnippetRag').get<boolean>('sendFeedback', true);
+			(async () => {
+				for (const answer of answers) {
+					await feedbackReporter.submit(answerContext, answer, rating, undefined, send);
+				}
+			})().catch(error => outputChannel.appendLine(`Failed to record chat feedback: ${error.message}`));
+		}, undefined, context.subscriptions);
 		context.subscriptions.push(chatParticipant);
 		outputChannel.appendLine('Chat participant registered successfully: aiCodeSnippetRag.ask');
 		outputChannel.appendLine('Participant ID: aiCodeSnippetRag.ask');
@@ -656,7 +2092,7 @@ export function activate(context: vscode.ExtensionContext) {
 	}
 
 	// Register webview provider
-	const webviewProvider = WebviewProvider.createOrShow(context);
+	const webviewProvider = WebviewProvider.createOrShow(context, outputChannel, outgoingFilter);
 	context.subscriptions.push(
 		vscode.window.registerWebviewViewProvider('aiCodeSnippetRag.sidebar', webviewProvider, {
 			webviewOptions: {
@@ -667,6 +2103,8 @@ export function activate(context: vscode.ExtensionContext) {
 
 	// Register commands
 	context.subscriptions.push(
+		registerAnswerActions(),
+		registerEditorActions(webviewProvider, outgoingFilter),
 		vscode.commands.registerCommand('aiCodeSnippetRag.openChat', openChat),
 		vscode.commands.registerCommand('aiCodeSnippetRag.openSidebar', () => {
 			vscode.commands.executeCommand('workbench.view.extension.aiCodeSnippetRag');
@@ -675,27 +2113,144 @@ export function activate(context: vscode.ExtensionContext) {
 			vscode.commands.executeCommand('workbench.view.extension.aiCodeSnippetRag');
 		}),
 		vscode.commands.registerCommand('aiCodeSnippetRag.testConnection', testConnection),
-		vscode.commands.registerCommand('aiCodeSnippetRag.rebuildAnalysis', rebuildAnalysis)
+		vscode.commands.registerCommand('aiCodeSnippetRag.rebuildAnalysis', rebuildAnalysis),
+		vscode.commands.registerCommand('aiCodeSnippetRag.selectRoots', selectWorkspaceRoots),
+		vscode.commands.registerCommand('aiCodeSnippetRag.manageAnalysisCache', manageAnalysisCache),
+		vscode.commands.registerCommand('aiCodeSnippetRag.explainFileInclusion', explainFileInclusion),
+		vscode.commands.registerCommand('aiCodeSnippetRag.newConversation', () => webviewProvider.newConversation()),
+		vscode.commands.registerCommand('aiCodeSnippetRag.switchConversation', () => webviewProvider.switchConversation()),
+		vscode.commands.registerCommand('aiCodeSnippetRag.searchConversations', () => webviewProvider.searchConversations()),
+		vscode.commands.registerCommand('aiCodeSnippetRag.renameConversation', () => webviewProvider.renameConversation()),
+		vscode.commands.registerCommand('aiCodeSnippetRag.deleteConversation', () => webviewProvider.deleteConversation()),
+		vscode.commands.registerCommand('aiCodeSnippetRag.exportConversation', () => webviewProvider.exportConversation()),
+		vscode.commands.registerCommand('aiCodeSnippetRag.previewOutgoingContext', previewOutgoingContext),
+		vscode.commands.registerCommand('aiCodeSnippetRag.openAuditLog', openAuditLog),
+		vscode.commands.registerCommand('aiCodeSnippetRag.rateAnswer', rateAnswer),
+		vscode.commands.registerCommand('aiCodeSnippetRag.showFeedbackHistory', showFeedbackHistory),
+		vscode.commands.registerCommand('aiCodeSnippetRag.setApiToken', () => setApiToken()),
+		vscode.commands.registerCommand('aiCodeSnippetRag.rotateApiToken', rotateApiToken),
+		vscode.commands.registerCommand('aiCodeSnippetRag.clearApiToken', clearApiToken)
 	);
 
-	// Invalidate cache on workspace folder change
+	// Backend health drives the status bar item and the sidebar's connection indicator
+	const statusItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 100);
+	statusItem.command = 'aiCodeSnippetRag.testConnection';
+	updateConnectionStatusItem(statusItem, activeClient().status);
+	statusItem.show();
+
+	// Only the server of the provider answering queries is polled
+	const startHealthPolling = () => {
+		backendClient.stopHealthPolling();
+		openAiClient.stopHealthPolling();
+		const active = getQueryProvider();
+		if (active.client && active.capabilities.healthCheck) {
+			active.client.startHealthPolling();
+		}
+	};
+	const clients = [backendClient, openAiClient];
 	context.subscriptions.push(
-		vscode.workspace.onDidChangeWorkspaceFolders(() => {
-			analysisCache.clear();
-			outputChannel.appendLine('Workspace folders changed, cache cleared');
+		statusItem,
+		...clients.map(client => client.onDidChangeStatus(status => {
+			if (client === activeClient()) {
+				updateConnectionStatusItem(statusItem, status);
+				webviewProvider.postConnectionStatus(status);
+			}
+			// Feedback given while the backend was away goes out once it answers again
+			if (client === backendClient && status === 'connected' && feedbackReporter.queuedCount > 0) {
+				feedbackReporter.flush();
+			}
+		})),
+		...clients.map(client => client.onDidChangeApiToken(() => {
+			if (client === activeClient()) {
+				webviewProvider.refreshSettings();
+				// A new token may be what the server was waiting for
+				if (getQueryProvider().client === client) {
+					client.checkHealth();
+				}
+			}
+		})),
+		vscode.workspace.onDidChangeConfiguration(event => {
+			// Failures of the previous server say nothing about the new one
+			if (event.affectsConfiguration('aiCodeSnippetRag.serverUrl')) {
+				backendClient.reset();
+			}
+			if (event.affectsConfiguration('aiCodeSnippetRag.openai.baseUrl')) {
+				openAiClient.reset();
+			}
+			if (['serverUrl', 'openai.baseUrl', 'healthCheckIntervalSeconds', 'provider', 'useHardcodedResponse'].some(setting => event.affectsConfiguration(`aiCodeSnippetRag.${setting}`))) {
+				startHealthPolling();
+			}
+			if (['provider', 'useHardcodedResponse', 'openai.model'].some(setting => event.affectsConfiguration(`aiCodeSnippetRag.${setting}`))) {
+				const active = getQueryProvider();
+				outputChannel.appendLine(`Provider: ${active.label}${active.client ? ` at ${active.client.serverUrl}` : ''}`);
+				updateConnectionStatusItem(statusItem, activeClient().status);
+				webviewProvider.refreshSettings();
+				webviewProvider.postConnectionStatus(activeClient().status);
+			}
+			if (['include', 'exclude', 'respectIgnoreFiles'].some(setting => event.affectsConfiguration(`aiCodeSnippetRag.${setting}`))) {
+				// Unchanged files are reused from the store, so this only reads what the new rules let in
+				outgoingFilter.forgetIgnoreRules();
+				forgetAllAnalyses();
+				outputChannel.appendLine('Include/exclude settings changed, analysis will be rebuilt');
+				webviewProvider.postAnalysisStatus('Include/exclude settings changed, re-analyzing on the next query');
+			}
+			if (event.affectsConfiguration('aiCodeSnippetRag.redactSecrets') || event.affectsConfiguration('aiCodeSnippetRag.customSecretPatterns')) {
+				// The store no longer matches the redaction signature, so every file is read and scanned again
+				outgoingFilter.forgetRedaction();
+				forgetAllAnalyses();
+				outputChannel.appendLine('Secret redaction settings changed, analysis will be rebuilt');
+				webviewProvider.postAnalysisStatus('Secret redaction settings changed, re-analyzing on the next query');
+			}
 		})
 	);
+	// The first health check should already carry the token; polling starts without it if the secret store fails
+	Promise.all(clients.map(client => client.loadApiToken()))
+		.catch(error => outputChannel.appendLine(`Failed to load the API token: ${error.message}`))
+		.then(startHealthPolling);
+
+	// Invalidate cache entries of removed roots; added roots are analyzed on demand
+	context.subscriptions.push(
+		vscode.workspace.onDidChangeWorkspaceFolders(async event => {
+			for (const folder of event.removed) {
+				forgetAnalysis(folder.uri.toString());
+				outgoingFilter.forgetIgnoreRules(folder);
+			}
+			const removedRoots = event.removed.map(folder => folder.uri.fsPath);
+			const selected = getSelectedRoots();
+			if (selected.some(root => removedRoots.includes(root))) {
+				await setSelectedRoots(selected.filter(root => !removedRoots.includes(root)));
+			}
+			outputChannel.appendLine(`Workspace folders changed: +${event.added.length} / -${event.removed.length} root(s)`);
+			webviewProvider.refreshWorkspaceRoots();
+		})
+	);
+
+	// Keep cached analyses current as files are created, edited, deleted and renamed
+	context.subscriptions.push(
+		new WorkspaceWatcher(async changes => {
+			const updates = await applyFileChanges(changes);
+			for (const update of updates) {
+				const status = `${update.workspaceName}: +${update.created} ~${update.changed} -${update.deleted} file(s), fingerprint: ${update.fingerprint.substring(0, 8)}...`;
+				outputChannel.appendLine(`Incremental analysis update - ${status}`);
+				webviewProvider.postAnalysisStatus(`Updated ${status}`);
+			}
+		}, outputChannel)
+	);
 
 	// Pre-analyze workspace
-	analyzeWorkspace().then(analysis => {
-		if (analysis) {
-			outputChannel.appendLine(`Workspace pre-analyzed: ${analysis.fileCount} files`);
+	analyzeWorkspace().then(analyses => {
+		if (analyses.length > 0) {
+			const fileCount = analyses.reduce((sum, analysis) => sum + analysis.fileCount, 0);
+			outputChannel.appendLine(`Workspace pre-analyzed: ${fileCount} files in ${analyses.length} root(s)`);
 		}
 	});
 }
 
 // Extension deactivation
-export function deactivate() {
-	analysisCache.clear();
+export function deactivate(): Promise<void> | undefined {
+	forgetAllAnalyses();
+	outgoingFilter?.forgetIgnoreRules();
+	// Updates still waiting to be stored would be read again on the next load otherwise
+	return analysisStore?.flush();
 }
 
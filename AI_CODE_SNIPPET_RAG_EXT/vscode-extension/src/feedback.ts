@@ -0,0 +1,206 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import { BackendHttpError } from './backendClient';
+import { PostJson } from './deltaSync';
+import { AnswerContext, FeedbackEntry, FeedbackRating, FeedbackRequest, FeedbackStatus, QueryAnswer } from './types';
+
+const FEEDBACK_KEY = 'aiCodeSnippetRag.feedback';
+// Bump when the stored layout changes
+const FEEDBACK_VERSION = 1;
+
+// Oldest entries are dropped beyond this; queued ones last
+const MAX_FEEDBACK_ENTRIES = 500;
+
+// Statuses that mean the backend will never take this feedback
+const UNSUPPORTED_STATUSES = new Set([404, 405, 501]);
+// Client errors worth trying again later
+const RETRYABLE_CLIENT_STATUSES = new Set([408, 429]);
+
+interface StoredFeedback {
+	version: number;
+	entries: FeedbackEntry[];
+}
+
+// Identifies an answer to a query, so a second vote on it replaces the first
+function feedbackKey(request: Pick<FeedbackRequest, 'query' | 'fingerprint' | 'answer'>): string {
+	const { answer } = request;
+	return `${request.fingerprint}|${answer.file}|${answer.start_line}|${answer.end_line}|${answer.code_hash}|${request.query}`;
+}
+
+function answerKey(context: AnswerContext, answer: QueryAnswer): string {
+	return feedbackKey({
+		query: context.query,
+		fingerprint: context.fingerprint,
+		answer: { file: answer.file, start_line: answer.start_line, end_line: answer.end_line, score: answer.score, code_hash: codeHash(answer) }
+	});
+}
+
+function codeHash(answer: QueryAnswer): string {
+	return crypto.createHash('sha256').update(answer.code ?? '').digest('hex');
+}
+
+// Ratings given to answers, sent to the backend's /feedback endpoint and kept as a local history.
+// Feedback the backend cannot take yet stays queued and is sent again when it is back.
+export class FeedbackReporter {
+	private _entries: FeedbackEntry[];
+	// Answer key of each entry, for looking up the current rating of an answer
+	private _keys: Map<string, FeedbackEntry> = new Map();
+	private _flushing: Promise<void> | undefined;
+
+	constructor(
+		private readonly _state: vscode.Memento,
+		private readonly _post: PostJson,
+		private readonly _serverUrl: () => string,
+		private readonly _outputChannel: vscode.OutputChannel
+	) {
+		const stored = _state.get<StoredFeedback>(FEEDBACK_KEY);
+		this._entries = stored?.version === FEEDBACK_VERSION ? stored.entries : [];
+		for (const entry of this._entries) {
+			this._keys.set(feedbackKey(entry.request), entry);
+		}
+	}
+
+	// Newest first
+	public get entries(): readonly FeedbackEntry[] {
+		return [...this._entries].reverse();
+	}
+
+	public get queuedCount(): number {
+		return this._entries.filter(entry => entry.status === 'queued').length;
+	}
+
+	// The latest rating of an answer, if it was rated
+	public ratingFor(context: AnswerContext, answer: QueryAnswer): FeedbackRating | undefined {
+		return this._keys.get(answerKey(context, answer))?.request.rating;
+	}
+
+	// Record a rating and send it, unless the answer was local or sending is off
+	public async submit(context: AnswerContext, answer: QueryAnswer, rating: FeedbackRating, comment: string | undefined, send: boolean): Promise<FeedbackStatus> {
+		const key = answerKey(context, answer);
+		const entry: FeedbackEntry = {
+			request: {
+				id: crypto.randomUUID(),
+				rating,
+				comment: comment?.trim() || undefined,
+				query: context.query,
+				intent: context.intent,
+				fingerprint: context.fingerprint,
+				answer: {
+					id: answer.id,
+					file: answer.file,
+					start_line: answer.start_line,
+					end_line: answer.end_line,
+					score: answer.score,
+					code_hash: codeHash(answer)
+				},
+				timestamp: new Date().toISOString()
+			},
+			serverUrl: this._serverUrl(),
+			status: context.local || !send ? 'local' : 'queued',
+			attempts: 0
+		};
+
+		// A vote that never left the machine is replaced rather than sent twice
+		const previous = this._keys.get(key);
+		if (previous && (previous.status === 'queued' || previous.status === 'local')) {
+			this._entries = this._entries.filter(e => e !== previous);
+		}
+		this._entries.push(entry);
+		this._keys.set(key, entry);
+		this._trim();
+		await this._save();
+
+		if (entry.status === 'queued') {
+			await this.flush();
+		}
+		return entry.status;
+	}
+
+	// Send queued feedback for the current server, oldest first; stops at the first failure that says the backend is down
+	public flush(): Promise<void> {
+		if (!this._flushing) {
+			this._flushing = this._flush().finally(() => this._flushing = undefined);
+		}
+		return this._flushing;
+	}
+
+	public async clear(): Promise<void> {
+		this._entries = [];
+		this._keys.clear();
+		await this._save();
+	}
+
+	private async _flush(): Promise<void> {
+		const serverUrl = this._serverUrl();
+		const queued = this._entries.filter(entry => entry.status === 'queued' && entry.serverUrl === serverUrl);
+		if (queued.length === 0) {
+			return;
+		}
+
+		let sent = 0;
+		for (const entry of queued) {
+			entry.attempts++;
+			try {
+				const response = await this._post('/feedback', JSON.stringify(entry.request));
+				if (response.ok) {
+					entry.status = 'sent';
+					entry.lastError = undefined;
+					sent++;
+				} else if (UNSUPPORTED_STATUSES.has(response.status)) {
+					entry.status = 'unsupported';
+					entry.lastError = `HTTP ${response.status}`;
+				} else if (response.status < 500 && !RETRYABLE_CLIENT_STATUSES.has(response.status)) {
+					entry.status = 'rejected';
+					entry.lastError = `HTTP ${response.status}: ${(await response.text()).substring(0, 200)}`;
+				} else {
+					throw new BackendHttpError(response.status, `HTTP ${response.status}`);
+				}
+			} catch (error: any) {
+				// Unreachable, timed out or failing: the rest waits for the next attempt too
+				entry.lastError = error.message;
+				this._outputChannel.appendLine(`Feedback queued, backend did not take it: ${error.message}`);
+				break;
+			}
+		}
+
+		await this._save();
+		const unsupported = queued.filter(entry => entry.status === 'unsupported').length;
+		this._outputChannel.appendLine(`Sent ${sent} of ${queued.length} queued feedback entries to ${serverUrl}${unsupported > 0 ? `; ${unsupported} kept locally, the backend has no /feedback endpoint` : ''}`);
+	}
+
+	private _trim(): void {
+		while (this._entries.length > MAX_FEEDBACK_ENTRIES) {
+			const index = this._entries.findIndex(entry => entry.status !== 'queued');
+			const [dropped] = this._entries.splice(index >= 0 ? index : 0, 1);
+			const key = feedbackKey(dropped.request);
+			if (this._keys.get(key) === dropped) {
+				this._keys.delete(key);
+			}
+		}
+	}
+
+	private _save(): Thenable<void> {
+		const stored: StoredFeedback = { version: FEEDBACK_VERSION, entries: this._entries };
+		return this._state.update(FEEDBACK_KEY, stored);
+	}
+}
+
+// The feedback history as Markdown, answers marked wrong first, for reviewing what the backend got wrong
+export function feedbackToMarkdown(entries: readonly FeedbackEntry[]): string {
+	const lines = ['# Answer Feedback', '', `_${entries.length} entries, exported ${new Date().toLocaleString()}_`, ''];
+	const sections: Array<[string, FeedbackRating]> = [['Marked wrong', 'down'], ['Marked useful', 'up']];
+	for (const [title, rating] of sections) {
+		const matching = entries.filter(entry => entry.request.rating === rating);
+		lines.push(`## ${title} (${matching.length})`, '');
+		for (const { request, status, lastError } of matching) {
+			const { answer } = request;
+			lines.push(`- **${answer.file}** (lines ${answer.start_line}-${answer.end_line}), score ${answer.score.toFixed(2)}, ${new Date(request.timestamp).toLocaleString()}, ${status}${lastError ? ` (${lastError})` : ''}`);
+			lines.push(`  - Query: ${request.query.replace(/\s+/g, ' ')}${request.intent !== 'ask' ? ` (${request.intent})` : ''}`);
+			if (request.comment) {
+				lines.push(`  - Comment: ${request.comment.replace(/\s+/g, ' ')}`);
+			}
+		}
+		lines.push('');
+	}
+	return lines.join('\n');
+}
@@ -0,0 +1,278 @@
+import { execFile } from 'child_process';
+import { tokenize } from './retrieval';
+import { GitChangedFile, GitContext, QueryAnswer } from './types';
+
+// Each git call is given up on after this long, so a huge repository cannot stall a query
+const GIT_TIMEOUT_MS = 5000;
+const GIT_MAX_BUFFER = 16 * 1024 * 1024;
+
+// Files whose history is attached, at most
+const MAX_HISTORY_FILES = 8;
+
+const STATUS_NAMES: Record<string, GitChangedFile['status']> = {
+	A: 'added',
+	M: 'modified',
+	D: 'deleted',
+	R: 'renamed',
+	C: 'copied',
+	T: 'modified',
+	U: 'unmerged'
+};
+
+export interface GitContextOptions {
+	// Most the staged and unstaged diffs may take together; whole files are left out beyond it
+	maxDiffBytes: number;
+	historyCommits: number;
+	// Paths relative to the root whose recent commits are attached
+	historyFiles: string[];
+	// Whether a file may leave the machine; changes to others are left out
+	isIncluded: (relativePath: string) => Promise<boolean>;
+	redact: (text: string, relativePath: string) => string;
+}
+
+// Git is not installed, or the root is not in a repository
+export class GitUnavailableError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'GitUnavailableError';
+	}
+}
+
+// Exit code 1 is a success for commands that report differences through it, like diff --no-index
+function runGit(cwd: string, args: string[], differencesExit = false): Promise<string> {
+	return new Promise((resolve, reject) => {
+		execFile('git', ['-c', 'core.quotepath=false', ...args], { cwd, timeout: GIT_TIMEOUT_MS, maxBuffer: GIT_MAX_BUFFER, windowsHide: true }, (error, stdout, stderr) => {
+			if (error && !(differencesExit && error.code === 1)) {
+				reject(new Error(`git ${args[0]} failed: ${(error as NodeJS.ErrnoException).code === 'ENOENT' ? 'git is not installed' : (stderr || error.message).trim()}`));
+			} else {
+				resolve(stdout);
+			}
+		});
+	});
+}
+
+// One file's part of a unified diff
+interface DiffSection {
+	path: string;
+	text: string;
+}
+
+function splitDiff(diff: string): DiffSection[] {
+	return diff.split(/^(?=diff --git )/m)
+		.filter(text => text.startsWith('diff --git '))
+		.map(text => {
+			// The new path, or the old one for a deleted file
+			const target = /^\+\+\+ b\/(.+)$/m.exec(text) ?? /^--- a\/(.+)$/m.exec(text) ?? /^diff --git a\/.+ b\/(.+)$/m.exec(text);
+			return { path: target ? target[1].trim() : '', text };
+		});
+}
+
+// The sections of a diff that may be sent, redacted, within maxBytes
+async function filterDiff(diff: string, options: GitContextOptions, budget: { remaining: number }): Promise<{ text: string; omitted: string[] }> {
+	const kept: string[] = [];
+	const omitted: string[] = [];
+	for (const section of splitDiff(diff)) {
+		if (!section.path || !(await options.isIncluded(section.path))) {
+			continue;
+		}
+		const text = options.redact(section.text, section.path);
+		const bytes = Buffer.byteLength(text, 'utf-8');
+		if (bytes > budget.remaining) {
+			omitted.push(section.path);
+			continue;
+		}
+		budget.remaining -= bytes;
+		kept.push(text);
+	}
+	return { text: kept.join(''), omitted };
+}
+
+// Untracked files as diffs that add their whole content, after the tracked changes and within the same budget.
+// Once the budget is spent the remaining files are not read at all.
+async function filterUntracked(workspaceRoot: string, paths: string[], options: GitContextOptions, budget: { remaining: number }): Promise<{ text: string; omitted: string[] }> {
+	const kept: string[] = [];
+	const omitted: string[] = [];
+	for (const path of paths) {
+		if (budget.remaining <= 0) {
+			omitted.push(path);
+			continue;
+		}
+		try {
+			const diff = await runGit(workspaceRoot, ['diff', '--no-index', '--no-color', '--no-ext-diff', '--no-textconv', '--', '/dev/null', path], true);
+			const filtered = await filterDiff(diff, options, budget);
+			kept.push(filtered.text);
+			omitted.push(...filtered.omitted);
+		} catch (error) {
+			// Too large for the output buffer, or gone since it was listed
+			omitted.push(path);
+		}
+	}
+	return { text: kept.join(''), omitted };
+}
+
+function parseNameStatus(output: string, staged: boolean): GitChangedFile[] {
+	return output.split('\n').filter(line => line.trim()).map(line => {
+		const [status, ...paths] = line.split('\t');
+		return { path: paths[paths.length - 1], status: STATUS_NAMES[status[0]] ?? 'modified', staged };
+	});
+}
+
+// Branch, HEAD, the staged and unstaged diffs and recent history of a workspace root.
+// Paths are relative to the root, even when the repository starts above it.
+export async function collectGitContext(workspaceName: string, workspaceRoot: string, options: GitContextOptions): Promise<GitContext> {
+	try {
+		await runGit(workspaceRoot, ['rev-parse', '--is-inside-work-tree']);
+	} catch (error: any) {
+		throw new GitUnavailableError(error.message);
+	}
+
+	// A repository without commits has no HEAD yet
+	const head = await runGit(workspaceRoot, ['rev-parse', 'HEAD']).then(output => output.trim(), () => undefined);
+	const branch = await runGit(workspaceRoot, ['rev-parse', '--abbrev-ref', 'HEAD']).then(output => output.trim(), () => undefined);
+
+	// Textconv filters are configured per repository and would run arbitrary commands on the diffed files
+	const diffArgs = ['diff', '--no-color', '--no-ext-diff', '--no-textconv', '--relative'];
+	const [stagedDiff, unstagedDiff, stagedNames, unstagedNames, untracked] = await Promise.all([
+		runGit(workspaceRoot, [...diffArgs, '--cached']),
+		runGit(workspaceRoot, diffArgs),
+		runGit(workspaceRoot, ['diff', '--cached', '--name-status', '--relative']),
+		runGit(workspaceRoot, ['diff', '--name-status', '--relative']),
+		runGit(workspaceRoot, ['ls-files', '--others', '--exclude-standard'])
+	]);
+
+	const changes: GitChangedFile[] = [];
+	const candidates = [
+		...parseNameStatus(stagedNames, true),
+		...parseNameStatus(unstagedNames, false),
+		...untracked.split('\n').filter(line => line.trim()).map(path => ({ path, status: 'untracked' as const, staged: false }))
+	];
+	for (const change of candidates) {
+		if (await options.isIncluded(change.path)) {
+			changes.push(change);
+		}
+	}
+
+	// Staged changes first: they are what the next commit holds. New files come last and are sent with the unstaged diff.
+	const budget = { remaining: options.maxDiffBytes };
+	const staged = await filterDiff(stagedDiff, options, budget);
+	const unstaged = await filterDiff(unstagedDiff, options, budget);
+	const added = await filterUntracked(workspaceRoot, changes.filter(change => change.status === 'untracked').map(change => change.path), options, budget);
+
+	// The files the query is about, then the changed files that have a history
+	const historyFiles = [...new Set([
+		...options.historyFiles,
+		...changes.filter(change => change.status !== 'untracked' && change.status !== 'added').map(change => change.path)
+	])];
+	const history: GitContext['history'] = [];
+	if (head && options.historyCommits > 0) {
+		for (const file of historyFiles.slice(0, MAX_HISTORY_FILES)) {
+			if (!(await options.isIncluded(file))) {
+				continue;
+			}
+			const log = await runGit(workspaceRoot, ['log', `-n${options.historyCommits}`, '--format=%h%x1f%an%x1f%aI%x1f%s', '--', file]).catch(() => '');
+			const commits = log.split('\n').filter(line => line.trim()).map(line => {
+				const [hash, author, date, subject] = line.split('\x1f');
+				return { hash, author, date, subject };
+			});
+			if (commits.length > 0) {
+				history.push({ file, commits });
+			}
+		}
+	}
+
+	const omitted = [...new Set([...staged.omitted, ...unstaged.omitted, ...added.omitted])];
+	return {
+		workspaceName,
+		workspaceRoot,
+		branch: branch && branch !== 'HEAD' ? branch : undefined,
+		head,
+		changes,
+		staged: staged.text || undefined,
+		unstaged: unstaged.text + added.text || undefined,
+		omitted: omitted.length > 0 ? omitted : undefined,
+		history: history.length > 0 ? history : undefined
+	};
+}
+
+export function describeGitContext(context: GitContext): string {
+	const bytes = (text: string | undefined) => text ? Buffer.byteLength(text, 'utf-8') : 0;
+	return `${context.workspaceName}: ${context.branch ?? 'detached HEAD'}${context.head ? ` at ${context.head.substring(0, 8)}` : ''}, `
+		+ `${context.changes.length} changed files, diff ${bytes(context.staged)} bytes staged and ${bytes(context.unstaged)} unstaged`
+		+ `${context.omitted ? ` (${context.omitted.length} files over the diff limit)` : ''}, history of ${context.history?.length ?? 0} files`;
+}
+
+// A Markdown code block whose fence is longer than any backtick run in the text, so the text cannot close it
+export function fence(text: string, languageId: string | undefined): string {
+	const longest = Math.max(2, ...(text.match(/`+/g) ?? []).map(run => run.length));
+	const marker = '`'.repeat(longest + 1);
+	return `${marker}${languageId ?? ''}\n${text}\n${marker}`;
+}
+
+// A root's git state as a part of a model prompt
+export function describeGitForPrompt(context: GitContext, multiRoot: boolean): string {
+	const lines = [`Git${multiRoot ? ` (${context.workspaceName})` : ''}: ${context.branch ? `branch ${context.branch}` : 'detached HEAD'}${context.head ? ` at ${context.head.substring(0, 8)}` : ', no commits yet'}.`];
+	if (context.changes.length === 0) {
+		lines.push('No uncommitted changes.');
+	} else {
+		lines.push(`Changed files: ${context.changes.map(change => `${change.path} (${change.staged ? 'staged, ' : ''}${change.status})`).join(', ')}.`);
+	}
+	if (context.staged) {
+		lines.push(`Staged diff:\n${fence(context.staged.replace(/\n$/, ''), 'diff')}`);
+	}
+	if (context.unstaged) {
+		lines.push(`Unstaged diff:\n${fence(context.unstaged.replace(/\n$/, ''), 'diff')}`);
+	}
+	if (context.omitted) {
+		lines.push(`Diffs left out for size: ${context.omitted.join(', ')}.`);
+	}
+	for (const { file, commits } of context.history ?? []) {
+		lines.push(`Recent commits to ${file}:\n${commits.map(commit => `- ${commit.hash} ${commit.date.substring(0, 10)} ${commit.author}: ${commit.subject}`).join('\n')}`);
+	}
+	return lines.join('\n\n');
+}
+
+// The hunks of the diffs as answers, most relevant to the query first: each cites the changed lines as
+// they are in the working tree, and explains with the hunk itself. Staged hunks of files that also have
+// unstaged changes are left out, since their line numbers no longer match the file.
+export function diffAnswers(contexts: GitContext[], query: string, maxAnswers: number): QueryAnswer[] {
+	const terms = Array.from(new Set(tokenize(query)));
+	const multiRoot = contexts.length > 1;
+	const hunks: Array<{ answer: QueryAnswer; relevance: number }> = [];
+
+	for (const context of contexts) {
+		const unstagedPaths = new Set(splitDiff(context.unstaged ?? '').map(section => section.path));
+		const sections = [
+			...splitDiff(context.unstaged ?? '').map(section => ({ ...section, staged: false })),
+			...splitDiff(context.staged ?? '').filter(section => !unstagedPaths.has(section.path)).map(section => ({ ...section, staged: true }))
+		];
+		for (const section of sections) {
+			const displayPath = multiRoot ? `${context.workspaceName}/${section.path}` : section.path;
+			for (const match of section.text.matchAll(/^@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@(.*)\n((?:[ +\-\\].*(?:\n|$))*)/gm)) {
+				const newStart = Number(match[1]);
+				const newCount = match[2] === undefined ? 1 : Number(match[2]);
+				const heading = match[3].trim();
+				const lines = match[4].replace(/\n$/, '').split('\n');
+				const current = lines.filter(line => line.startsWith(' ') || line.startsWith('+')).map(line => line.substring(1));
+				const added = lines.filter(line => line.startsWith('+')).length;
+				const removed = lines.filter(line => line.startsWith('-')).length;
+				const text = match[0].toLowerCase();
+				const startLine = Math.max(1, newStart);
+				hunks.push({
+					relevance: terms.length > 0 ? terms.filter(term => text.includes(term) || section.path.toLowerCase().includes(term)).length / terms.length : 1,
+					answer: {
+						file: displayPath,
+						start_line: startLine,
+						end_line: startLine + Math.max(newCount, 1) - 1,
+						code: current.join('\n'),
+						score: 0,
+						explanation: `${section.staged ? 'Staged' : 'Uncommitted'} change in ${displayPath}${heading ? ` near \`${heading}\`` : ''} (+${added} -${removed}):\n\n${fence(match[0].replace(/\n$/, ''), 'diff')}`
+					}
+				});
+			}
+		}
+	}
+
+	// Stable, so hunks of equal relevance stay in file order
+	hunks.sort((a, b) => b.relevance - a.relevance);
+	return hunks.slice(0, maxAnswers).map(({ answer, relevance }) => ({ ...answer, score: relevance }));
+}
@@ -0,0 +1,297 @@
+import * as vscode from 'vscode';
+
+// Ignore files read in every directory; later files override earlier ones in the same directory
+export const IGNORE_FILE_NAMES = ['.gitignore', '.ragignore'];
+
+interface IgnoreRule {
+	pattern: string;
+	negated: boolean;
+	directoryOnly: boolean;
+	regex: RegExp;
+	// Ignore file the rule came from; patterns are relative to its directory
+	source: string;
+	line: number;
+}
+
+export interface InclusionVerdict {
+	included: boolean;
+	reason: string;
+}
+
+export interface ListedFile {
+	uri: vscode.Uri;
+	relativePath: string;
+}
+
+// Reason a path is always excluded regardless of settings, or undefined
+export type BuiltInExclusion = (relativePath: string, isDirectory: boolean) => string | undefined;
+
+// Told about an ignore file line whose pattern cannot be compiled; the line is skipped
+export type InvalidRuleHandler = (source: string, line: number, error: string) => void;
+
+// Decides which files of one workspace root the index sees: built-in exclusions,
+// the include/exclude settings, then .gitignore and .ragignore files at every level
+export class IgnoreMatcher {
+	private readonly _include: Array<{ glob: string; regex: RegExp }>;
+	private readonly _exclude: Array<{ glob: string; regex: RegExp }>;
+	private readonly _respectIgnoreFiles: boolean;
+	private _rules: Map<string, Promise<IgnoreRule[]>> = new Map();
+
+	constructor(private readonly _root: vscode.Uri, private readonly _builtIn: BuiltInExclusion, private readonly _onInvalidRule: InvalidRuleHandler) {
+		const config = vscode.workspace.getConfiguration('aiCodeSnippetRag', _root);
+		this._include = config.get<string[]>('include', []).map(glob => ({ glob, regex: globToRegExp(glob) }));
+		this._exclude = config.get<string[]>('exclude', []).map(glob => ({ glob, regex: globToRegExp(glob) }));
+		this._respectIgnoreFiles = config.get<boolean>('respectIgnoreFiles', true);
+	}
+
+	// Walk the root (or one directory of it), skipping excluded directories without reading them,
+	// until maxFiles files are found. A start directory is assumed to be included itself.
+	public async listFiles(maxFiles: number, startDirectory = ''): Promise<ListedFile[]> {
+		const files: ListedFile[] = [];
+		const pending: string[] = [startDirectory];
+
+		while (pending.length > 0 && files.length < maxFiles) {
+			const directory = pending.shift()!;
+			let entries: [string, vscode.FileType][];
+			try {
+				entries = await vscode.workspace.fs.readDirectory(this._uriFor(directory));
+			} catch (err) {
+				continue;
+			}
+
+			entries.sort(([a], [b]) => a.localeCompare(b));
+			for (const [name, type] of entries) {
+				const relativePath = directory ? `${directory}/${name}` : name;
+				const isDirectory = (type & vscode.FileType.Directory) !== 0;
+				// Symlinked directories are skipped so links cannot make the walk loop
+				if (isDirectory && (type & vscode.FileType.SymbolicLink)) {
+					continue;
+				}
+				if (isDirectory) {
+					if (!(await this._excludedBy(relativePath, true))) {
+						pending.push(relativePath);
+					}
+				} else if ((type & vscode.FileType.File) && files.length < maxFiles) {
+					if (!(await this._excludedBy(relativePath, false)) && this._matchesInclude(relativePath)) {
+						files.push({ uri: this._uriFor(relativePath), relativePath });
+					}
+				}
+			}
+		}
+
+		return files;
+	}
+
+	public async isIncluded(relativePath: string, isDirectory = false): Promise<boolean> {
+		return (await this.explain(relativePath, isDirectory)).included;
+	}
+
+	// Why one of the directories above the path is excluded, if one is; needs no stat of the path itself
+	public async excludedParent(relativePath: string): Promise<string | undefined> {
+		const segments = relativePath.split('/');
+		for (let i = 1; i < segments.length; i++) {
+			const directory = segments.slice(0, i).join('/');
+			const reason = await this._excludedBy(directory, true);
+			if (reason) {
+				return `its directory ${directory}/ is excluded: ${reason}`;
+			}
+		}
+		return undefined;
+	}
+
+	// The first check that excludes the path, or why it is included
+	public async explain(relativePath: string, isDirectory = false): Promise<InclusionVerdict> {
+		const parentReason = await this.excludedParent(relativePath);
+		if (parentReason) {
+			return { included: false, reason: parentReason };
+		}
+
+		const reason = await this._excludedBy(relativePath, isDirectory);
+		if (reason) {
+			return { included: false, reason };
+		}
+		if (!isDirectory && !this._matchesInclude(relativePath)) {
+			return { included: false, reason: `it matches none of the aiCodeSnippetRag.include globs (${this._include.map(i => i.glob).join(', ')})` };
+		}
+
+		const reincluded = this._respectIgnoreFiles ? await this._lastMatchingRule(relativePath, isDirectory) : undefined;
+		if (reincluded?.negated) {
+			return { included: true, reason: `it is re-included by ${reincluded.source}:${reincluded.line} (!${reincluded.pattern})` };
+		}
+		return { included: true, reason: this._include.length > 0 ? 'it matches aiCodeSnippetRag.include and no rule excludes it' : 'no rule excludes it' };
+	}
+
+	// Forget the rules read from a directory, after one of its ignore files changed
+	public invalidate(directory: string): void {
+		this._rules.delete(directory);
+	}
+
+	private async _excludedBy(relativePath: string, isDirectory: boolean): Promise<string | undefined> {
+		const builtIn = this._builtIn(relativePath, isDirectory);
+		if (builtIn) {
+			return builtIn;
+		}
+
+		const excluded = this._exclude.find(exclude => exclude.regex.test(relativePath));
+		if (excluded) {
+			return `it matches the aiCodeSnippetRag.exclude glob ${excluded.glob}`;
+		}
+
+		if (this._respectIgnoreFiles) {
+			const rule = await this._lastMatchingRule(relativePath, isDirectory);
+			if (rule && !rule.negated) {
+				return `it matches ${rule.source}:${rule.line} (${rule.pattern}${rule.directoryOnly ? '/' : ''})`;
+			}
+		}
+		return undefined;
+	}
+
+	private _matchesInclude(relativePath: string): boolean {
+		return this._include.length === 0 || this._include.some(include => include.regex.test(relativePath));
+	}
+
+	// Rules of every enclosing directory, outermost first, so deeper files and later lines win as in git
+	private async _lastMatchingRule(relativePath: string, isDirectory: boolean): Promise<IgnoreRule | undefined> {
+		const segments = relativePath.split('/');
+		let match: IgnoreRule | undefined;
+		for (let i = 0; i < segments.length; i++) {
+			const directory = segments.slice(0, i).join('/');
+			const rest = segments.slice(i).join('/');
+			for (const rule of await this._rulesFor(directory)) {
+				if ((!rule.directoryOnly || isDirectory) && rule.regex.test(rest)) {
+					match = rule;
+				}
+			}
+		}
+		return match;
+	}
+
+	private _rulesFor(directory: string): Promise<IgnoreRule[]> {
+		let rules = this._rules.get(directory);
+		if (!rules) {
+			rules = this._readRules(directory);
+			this._rules.set(directory, rules);
+		}
+		return rules;
+	}
+
+	private async _readRules(directory: string): Promise<IgnoreRule[]> {
+		const rules: IgnoreRule[] = [];
+		for (const fileName of IGNORE_FILE_NAMES) {
+			const source = directory ? `${directory}/${fileName}` : fileName;
+			let content: string;
+			try {
+				content = Buffer.from(await vscode.workspace.fs.readFile(this._uriFor(source))).toString('utf-8');
+			} catch (err) {
+				continue;
+			}
+			content.split(/\r?\n/).forEach((line, index) => {
+				try {
+					const rule = parseIgnoreLine(line, source, index + 1);
+					if (rule) {
+						rules.push(rule);
+					}
+				} catch (error: any) {
+					// Git treats a pattern it cannot parse as matching nothing; one bad line must not stop the whole root
+					this._onInvalidRule(source, index + 1, error.message);
+				}
+			});
+		}
+		return rules;
+	}
+
+	private _uriFor(relativePath: string): vscode.Uri {
+		return relativePath ? vscode.Uri.joinPath(this._root, ...relativePath.split('/')) : this._root;
+	}
+}
+
+// Parse one line of a gitignore-syntax file
+function parseIgnoreLine(line: string, source: string, lineNumber: number): IgnoreRule | undefined {
+	// Trailing spaces are dropped unless escaped
+	let pattern = line.replace(/(?<!\\)\s+$/, '');
+	if (!pattern || pattern.startsWith('#')) {
+		return undefined;
+	}
+
+	let negated = false;
+	if (pattern.startsWith('!')) {
+		negated = true;
+		pattern = pattern.substring(1);
+	} else if (pattern.startsWith('\\!') || pattern.startsWith('\\#')) {
+		pattern = pattern.substring(1);
+	}
+
+	const directoryOnly = pattern.endsWith('/');
+	pattern = pattern.replace(/\/+$/, '');
+	if (!pattern) {
+		return undefined;
+	}
+
+	// A slash anywhere but the end anchors the pattern to the ignore file's directory
+	const anchored = pattern.includes('/');
+	const body = globBody(pattern.replace(/^\//, ''), false);
+	return {
+		pattern,
+		negated,
+		directoryOnly,
+		regex: new RegExp(`^${anchored ? '' : '(?:.*/)?'}${body}$`),
+		source,
+		line: lineNumber
+	};
+}
+
+// Settings globs use VS Code's syntax and match the whole root-relative path
+export function globToRegExp(glob: string): RegExp {
+	return new RegExp(`^${globBody(glob.replace(/^\.?\//, ''), true)}$`);
+}
+
+function globBody(glob: string, braces: boolean): string {
+	let result = '';
+	for (let i = 0; i < glob.length; i++) {
+		const char = glob[i];
+		if (char === '*') {
+			if (glob[i + 1] === '*') {
+				const atSegmentStart = i === 0 || glob[i - 1] === '/';
+				i++;
+				if (atSegmentStart && glob[i + 1] === '/') {
+					// "**/" also matches no directory at all
+					result += '(?:.*/)?';
+					i++;
+				} else {
+					result += '.*';
+				}
+			} else {
+				result += '[^/]*';
+			}
+		} else if (char === '?') {
+			result += '[^/]';
+		} else if (char === '[') {
+			const end = glob.indexOf(']', i + 2);
+			if (end < 0) {
+				result += '\\[';
+				continue;
+			}
+			const body = glob.substring(i + 1, end).replace(/\\/g, '\\\\');
+			result += body.startsWith('!') ? `[^${body.substring(1)}]` : `[${body}]`;
+			i = end;
+		} else if (char === '\\' && i + 1 < glob.length) {
+			result += escapeRegExp(glob[++i]);
+		} else if (braces && char === '{') {
+			const end = glob.indexOf('}', i);
+			if (end < 0) {
+				result += '\\{';
+				continue;
+			}
+			const alternatives = glob.substring(i + 1, end).split(',');
+			result += `(?:${alternatives.map(alternative => globBody(alternative, false)).join('|')})`;
+			i = end;
+		} else {
+			result += escapeRegExp(char);
+		}
+	}
+	return result;
+}
+
+function escapeRegExp(text: string): string {
+	return text.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
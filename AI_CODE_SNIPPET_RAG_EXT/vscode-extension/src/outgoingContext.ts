@@ -0,0 +1,145 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { FileInfo, ManifestEntry, QueryRequest, WorkspaceAnalysis } from './types';
+
+// Files and folders the user kept out of outgoing requests until the window closes
+export class SessionExclusions {
+	private _paths: Map<string, Set<string>> = new Map();
+
+	public get size(): number {
+		let size = 0;
+		this._paths.forEach(paths => size += paths.size);
+		return size;
+	}
+
+	public add(workspaceRoot: string, relativePath: string): void {
+		let paths = this._paths.get(workspaceRoot);
+		if (!paths) {
+			paths = new Set();
+			this._paths.set(workspaceRoot, paths);
+		}
+		paths.add(relativePath);
+	}
+
+	public remove(workspaceRoot: string, relativePath: string): void {
+		this._paths.get(workspaceRoot)?.delete(relativePath);
+	}
+
+	public clear(): void {
+		this._paths.clear();
+	}
+
+	public list(workspaceRoot: string): string[] {
+		return Array.from(this._paths.get(workspaceRoot) ?? []).sort();
+	}
+
+	// A folder entry covers everything below it
+	public has(workspaceRoot: string, filePath: string): boolean {
+		const paths = this._paths.get(workspaceRoot);
+		if (!paths || paths.size === 0) {
+			return false;
+		}
+		for (const excluded of paths) {
+			if (filePath === excluded || filePath.startsWith(`${excluded}/`)) {
+				return true;
+			}
+		}
+		return false;
+	}
+
+	// Copies of the analyses without excluded files. The fingerprint changes with the exclusions,
+	// so a backend synced before a file was excluded is not taken to hold the reduced context.
+	public apply(analyses: WorkspaceAnalysis[]): WorkspaceAnalysis[] {
+		return analyses.map(analysis => {
+			const excluded = this.list(analysis.workspaceRoot);
+			if (excluded.length === 0) {
+				return analysis;
+			}
+			const files = analysis.files.filter(file => !this.has(analysis.workspaceRoot, file.path));
+			const fingerprint = crypto.createHash('sha256').update(`${analysis.fingerprint}|${excluded.join('\n')}`).digest('hex');
+			return { ...analysis, files, fileCount: files.length, fingerprint };
+		});
+	}
+}
+
+// Size of a file's entry in a request body, as serialized
+export function payloadBytes(file: FileInfo): number {
+	return Buffer.byteLength(JSON.stringify(file), 'utf-8');
+}
+
+export interface AuditEntry {
+	time: string;
+	serverUrl: string;
+	endpoint: string;
+	query: string;
+	contextMode?: string;
+	fingerprint?: string;
+	files: string[];
+	manifestFiles?: number;
+	bytes: number;
+}
+
+// A root as query, sync manifest and upload bodies carry it, each with some of these fields
+interface AuditedRoot {
+	workspaceRoot: string;
+	files?: FileInfo[];
+	manifest?: ManifestEntry[];
+}
+
+// What the audit reads from a request body; other bodies are recorded with their size only
+interface AuditedBody {
+	repo_context?: Partial<QueryRequest['repo_context']>;
+	roots?: AuditedRoot[];
+	fingerprint?: string;
+}
+
+// Append-only JSONL record of the requests sent to the backend
+export class AuditLog {
+	private _writing: Promise<void> = Promise.resolve();
+
+	constructor(private readonly _filePath: string) {}
+
+	public get filePath(): string {
+		return this._filePath;
+	}
+
+	// Describe a request from its serialized body, so the record matches what was sent byte for byte
+	public record(serverUrl: string, endpoint: string, query: string, body: string): Promise<void> {
+		let parsed: AuditedBody = {};
+		try {
+			const value: unknown = JSON.parse(body);
+			if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+				parsed = value as AuditedBody;
+			}
+		} catch (err) {
+			// Logged with its size only
+		}
+
+		// A flat file list is recorded as one root
+		const context = parsed.repo_context;
+		const roots: AuditedRoot[] = context?.roots ?? parsed.roots
+			?? (Array.isArray(context?.files) ? [{ workspaceRoot: context.workspaceRoot ?? '', files: context.files }] : []);
+		const entry: AuditEntry = {
+			time: new Date().toISOString(),
+			serverUrl,
+			endpoint,
+			query,
+			contextMode: context?.context_mode,
+			fingerprint: context?.fingerprint ?? parsed.fingerprint,
+			files: roots.flatMap(root => (root.files ?? []).map(file => `${root.workspaceRoot}:${file.path}`)),
+			bytes: Buffer.byteLength(body, 'utf-8')
+		};
+		if (roots.some(root => Array.isArray(root.manifest))) {
+			entry.manifestFiles = roots.reduce((sum, root) => sum + (root.manifest?.length ?? 0), 0);
+		}
+
+		// Writes are chained so concurrent requests never interleave lines; a failed write does not block later ones
+		const write = this._writing.then(async () => {
+			await fs.promises.mkdir(path.dirname(this._filePath), { recursive: true });
+			await fs.promises.appendFile(this._filePath, JSON.stringify(entry) + '\n', 'utf-8');
+		});
+		this._writing = write.catch(() => undefined);
+		return write;
+	}
+}
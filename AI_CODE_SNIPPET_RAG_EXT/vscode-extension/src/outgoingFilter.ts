@@ -0,0 +1,114 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import { BuiltInExclusion, IgnoreMatcher } from './ignoreRules';
+import { CustomSecretPattern, RedactionResult, SecretScanner, createSecretScanner, SCANNER_VERSION } from './secretScanner';
+import { SessionExclusions } from './outgoingContext';
+import { QueryAnchor } from './types';
+
+// Decides which workspace code may be read and sent, and cleans it first: the ignore rules of each root,
+// the paths excluded for this session and the secret scanner built from the settings
+export class OutgoingFilter {
+	public readonly sessionExclusions = new SessionExclusions();
+	private _ignoreMatchers: Map<string, IgnoreMatcher> = new Map();
+	private _redaction: { scanner: SecretScanner | undefined; signature: string } | undefined;
+
+	constructor(private readonly _outputChannel: vscode.OutputChannel, private readonly _builtIn: BuiltInExclusion) {}
+
+	public ignoreMatcher(workspaceFolder: vscode.WorkspaceFolder): IgnoreMatcher {
+		const key = workspaceFolder.uri.toString();
+		let matcher = this._ignoreMatchers.get(key);
+		if (!matcher) {
+			matcher = new IgnoreMatcher(workspaceFolder.uri, this._builtIn, (source, line, error) => {
+				this._outputChannel.appendLine(`Ignoring invalid pattern at ${workspaceFolder.name}/${source}:${line}: ${error}`);
+			});
+			this._ignoreMatchers.set(key, matcher);
+		}
+		return matcher;
+	}
+
+	// Read the ignore rules of one root, or of every root, again on next use
+	public forgetIgnoreRules(workspaceFolder?: vscode.WorkspaceFolder): void {
+		if (workspaceFolder) {
+			this._ignoreMatchers.delete(workspaceFolder.uri.toString());
+		} else {
+			this._ignoreMatchers.clear();
+		}
+	}
+
+	// Secret scanner built from the settings, and a signature of its rules for the analysis store
+	public get redaction(): { scanner: SecretScanner | undefined; signature: string } {
+		if (!this._redaction) {
+			const config = vscode.workspace.getConfiguration('aiCodeSnippetRag');
+			if (!config.get<boolean>('redactSecrets', true)) {
+				this._redaction = { scanner: undefined, signature: 'off' };
+			} else {
+				const customPatterns = config.get<Array<CustomSecretPattern | string>>('customSecretPatterns', []);
+				const scanner = createSecretScanner(customPatterns, (pattern, error) => {
+					this._outputChannel.appendLine(`Ignoring invalid custom secret pattern ${pattern}: ${error}`);
+					vscode.window.showWarningMessage(`AI Code Snippet RAG: Invalid custom secret pattern ${pattern} (${error})`);
+				});
+				const signature = crypto.createHash('sha256').update(`${SCANNER_VERSION}|${JSON.stringify(customPatterns)}`).digest('hex').substring(0, 16);
+				this._redaction = { scanner, signature };
+			}
+		}
+		return this._redaction;
+	}
+
+	// Build the scanner from the settings again on next use
+	public forgetRedaction(): void {
+		this._redaction = undefined;
+	}
+
+	// Replace secrets found in file content before it is sampled, chunked, indexed or stored
+	public redact(text: string, relativePath: string): RedactionResult {
+		const { scanner } = this.redaction;
+		if (!scanner) {
+			return { text, findings: [] };
+		}
+
+		const result = scanner.redact(text);
+		for (const finding of result.findings) {
+			this._outputChannel.appendLine(`Redacted ${finding.detector} in ${relativePath}:${finding.line}`);
+		}
+		return result;
+	}
+
+	// The code a query is about: the given range of a document, or its selection. Undefined for files
+	// outside the workspace or kept out of the outgoing context, whose code is never sent.
+	public async editorAnchor(document: vscode.TextDocument, range?: vscode.Range, symbol?: string): Promise<QueryAnchor | undefined> {
+		const workspaceFolder = vscode.workspace.getWorkspaceFolder(document.uri);
+		if (!workspaceFolder) {
+			return undefined;
+		}
+		const relativePath = vscode.workspace.asRelativePath(document.uri, false);
+		if (this.sessionExclusions.has(workspaceFolder.uri.fsPath, relativePath) || !(await this.ignoreMatcher(workspaceFolder).isIncluded(relativePath))) {
+			this._outputChannel.appendLine(`Not sending code from ${workspaceFolder.name}/${relativePath}: the file is excluded from the outgoing context`);
+			return undefined;
+		}
+
+		if (!range) {
+			const editor = vscode.window.visibleTextEditors.find(e => e.document === document);
+			if (!editor || editor.selection.isEmpty) {
+				return undefined;
+			}
+			range = editor.selection;
+		}
+		// A selection ending at the start of a line does not include that line
+		const endLine = range.end.character === 0 && range.end.line > range.start.line ? range.end.line - 1 : range.end.line;
+		const maxBytesPerFile = vscode.workspace.getConfiguration('aiCodeSnippetRag').get<number>('maxBytesPerFile', 40000);
+		let code = this.redact(document.getText(new vscode.Range(range.start.line, 0, endLine, Number.MAX_SAFE_INTEGER)), relativePath).text;
+		const truncated = code.length > maxBytesPerFile;
+		if (truncated) {
+			code = code.substring(0, maxBytesPerFile);
+		}
+
+		return {
+			file: vscode.workspace.asRelativePath(document.uri),
+			startLine: range.start.line + 1,
+			endLine: endLine + 1,
+			code,
+			symbol,
+			truncated: truncated || undefined
+		};
+	}
+}
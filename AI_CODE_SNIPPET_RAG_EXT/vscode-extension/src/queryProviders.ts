@@ -0,0 +1,419 @@
+import * as vscode from 'vscode';
+import { BackendApi, LEGACY_API, describeApi, negotiateApi, supportsCapability } from './backendApi';
+import { BackendClient, BackendError, BackendHttpError, BackendSchemaError, BackendTarget } from './backendClient';
+import { DeltaSync, toPayloadFile } from './deltaSync';
+import { STREAM_ACCEPT_HEADER, isStreamingResponse, readQueryStream, readRecords } from './queryStream';
+import { droppedNotice, validateQueryResponse } from './responseSchema';
+import { describeGitForPrompt, fence } from './gitContext';
+import { ConversationTurn, GitContext, ProviderCapabilities, ProviderInfo, QueryAnchor, QueryAnswer, QueryIntent, QueryProviderId, QueryRequest, QueryResponse, QueryStreamEvent, WorkspaceAnalysis } from './types';
+
+export const OPENAI_COMPATIBLE_BACKEND: BackendTarget = {
+	urlSetting: 'openai.baseUrl',
+	defaultUrl: 'http://localhost:11434/v1',
+	healthEndpoint: '/models',
+	tokenSecretKey: 'aiCodeSnippetRag.openai.apiKey'
+};
+
+// A query as every provider receives it
+export interface ProviderQuery {
+	query: string;
+	intent: QueryIntent;
+	anchor?: QueryAnchor;
+	// Session exclusions already applied for providers that send code
+	analyses: WorkspaceAnalysis[];
+	fingerprint: string;
+	activeFile: string | null;
+	selection: { startLine: number; endLine: number } | null;
+	// Already fitted to the history budget
+	history: ConversationTurn[];
+	// Roots in a git repository, when git context is on or the intent is "changes"
+	git?: GitContext[];
+}
+
+export interface ProviderQueryOptions {
+	// Only passed to providers that stream
+	onEvent?: (event: QueryStreamEvent) => void;
+	signal?: AbortSignal;
+}
+
+// Answers queries. Failures are thrown as the backend client's errors, so callers handle every provider alike.
+export interface QueryProvider {
+	readonly id: QueryProviderId;
+	readonly label: string;
+	readonly capabilities: ProviderCapabilities;
+	// Client of its server; undefined when it answers on this machine
+	readonly client: BackendClient | undefined;
+	query(request: ProviderQuery, options: ProviderQueryOptions): Promise<QueryResponse>;
+}
+
+// Answers from the local retrieval index, at most maxAnswers of them
+export type LocalRetriever = (request: ProviderQuery, maxAnswers?: number) => QueryResponse;
+
+// Fits a query into the context budget; returns it as full-context requests send it, with the planned
+// files and the history and git context cut to what the budget leaves them
+export type ContextPacker = (request: ProviderQuery) => ProviderQuery;
+
+// Records a request in the audit log before it is sent
+export type AuditRecorder = (serverUrl: string, endpoint: string, query: string, body: string) => void;
+
+export function describeProvider(provider: QueryProvider): ProviderInfo {
+	return { id: provider.id, label: provider.label, url: provider.client?.serverUrl, capabilities: provider.capabilities };
+}
+
+// The FastAPI RAG backend: the workspace goes to /query, in full or synced ahead by /sync.
+// The API version, route prefix and payload shape are chosen from what its /health reports.
+export class RagBackendProvider implements QueryProvider {
+	public readonly id = 'rag';
+	public readonly label = 'RAG backend';
+	public readonly capabilities: ProviderCapabilities = { streaming: true, feedback: true, deltaUpload: true, healthCheck: true, sendsCode: true };
+
+	// The API negotiated with each server URL
+	private _apis: Map<string, BackendApi> = new Map();
+
+	constructor(
+		public readonly client: BackendClient,
+		private readonly _deltaSync: DeltaSync,
+		private readonly _packContext: ContextPacker,
+		private readonly _audit: AuditRecorder,
+		private readonly _outputChannel: vscode.OutputChannel
+	) {}
+
+	// Choose the API from a /health body and remember it for the current server
+	public negotiate(health: unknown): BackendApi {
+		const serverUrl = this.client.serverUrl;
+		const api = negotiateApi(health, serverUrl);
+		const previous = this._apis.get(serverUrl);
+		if (!previous || describeApi(previous) !== describeApi(api)) {
+			this._outputChannel.appendLine(`Backend at ${serverUrl}: ${describeApi(api)}`);
+		}
+		this._apis.set(serverUrl, api);
+		return api;
+	}
+
+	// The API of the current server, asking its /health the first time. A backend without a usable
+	// /health gets the legacy routes.
+	public async api(signal?: AbortSignal): Promise<BackendApi> {
+		const serverUrl = this.client.serverUrl;
+		const known = this._apis.get(serverUrl);
+		if (known) {
+			return known;
+		}
+
+		const response = await this.client.request(this.client.healthEndpoint, { method: 'GET', signal, idempotent: true });
+		if (!response.ok) {
+			if (response.status === 401 || response.status === 403) {
+				throw new BackendHttpError(response.status, `HTTP ${response.status}: ${await response.text()}`);
+			}
+			this._outputChannel.appendLine(`Backend at ${serverUrl} answered ${this.client.healthEndpoint} with HTTP ${response.status}, using the legacy API`);
+			this._apis.set(serverUrl, LEGACY_API);
+			return LEGACY_API;
+		}
+		return this.negotiate(await response.json().catch(() => undefined));
+	}
+
+	// An endpoint under the negotiated prefix, e.g. /feedback as /api/v1/feedback
+	public async endpoint(path: string, signal?: AbortSignal): Promise<string> {
+		return `${(await this.api(signal)).prefix}${path}`;
+	}
+
+	public async query(request: ProviderQuery, options: ProviderQueryOptions): Promise<QueryResponse> {
+		const { onEvent, signal } = options;
+		const { analyses, fingerprint } = request;
+		const config = vscode.workspace.getConfiguration('aiCodeSnippetRag');
+		const serverUrl = this.client.serverUrl;
+		const timeoutMs = config.get<number>('requestTimeoutMs', 20000);
+		const fileCount = analyses.reduce((sum, analysis) => sum + analysis.fileCount, 0);
+		const api = await this.api(signal);
+		const useDeltaUpload = config.get<boolean>('deltaUpload', true) && supportsCapability(api, 'sync');
+		const queryEndpoint = `${api.prefix}/query`;
+
+		// Syncing only replaces server state, so it is safe to retry; a query may run a model on the server and is sent once
+		const postJson = (endpoint: string, body: string, accept?: string, idempotent = false): Promise<Response> => {
+			this._audit(serverUrl, endpoint, request.query, body);
+			return this.client.request(endpoint, { body, accept, signal, idempotent });
+		};
+
+		// Planned once, and only for requests that carry the files; synced backends hold them all already
+		let packed: ProviderQuery | undefined;
+		const buildRequest = (contextMode: 'full' | 'fingerprint'): QueryRequest => {
+			if (contextMode === 'full' && !packed) {
+				packed = this._packContext(request);
+			}
+			const sent = contextMode === 'full' ? packed! : request;
+			const roots = sent.analyses.map(analysis => ({
+				workspaceName: analysis.workspaceName,
+				workspaceRoot: analysis.workspaceRoot,
+				fingerprint: analysis.fingerprint,
+				fileCount: analysis.fileCount,
+				files: contextMode === 'full' ? analysis.files.map(toPayloadFile) : []
+			}));
+			return {
+				query: request.query,
+				intent: request.intent,
+				anchor: sent.anchor,
+				history: sent.history.length > 0 ? sent.history : undefined,
+				git: sent.git,
+				repo_context: {
+					workspaceName: analyses.length === 1 ? analyses[0].workspaceName : (vscode.workspace.name || analyses[0].workspaceName),
+					workspaceRoot: analyses[0].workspaceRoot,
+					fingerprint,
+					fileCount,
+					activeFile: request.activeFile,
+					selection: request.selection,
+					context_mode: contextMode,
+					...(api.payload === 'roots'
+						? { roots }
+						: { files: roots.flatMap(root => roots.length > 1 ? root.files.map(file => ({ ...file, path: `${root.workspaceName}/${file.path}` })) : root.files) })
+				}
+			};
+		};
+
+		// Bring the backend up to date with the fingerprint; false means it needs the full upload
+		const syncContext = async (): Promise<boolean> => {
+			if (!useDeltaUpload || !this._deltaSync.isSupported(serverUrl)) {
+				return false;
+			}
+			if (this._deltaSync.isSynced(serverUrl, fingerprint)) {
+				this._outputChannel.appendLine(`Backend already holds fingerprint ${fingerprint.substring(0, 8)}..., sending query only`);
+				return true;
+			}
+
+			const result = await this._deltaSync.sync(serverUrl, fingerprint, analyses, (endpoint, body) => postJson(`${api.prefix}${endpoint}`, body, undefined, true));
+			if (!result) {
+				this._outputChannel.appendLine(`Backend at ${serverUrl} does not support the /sync handshake, falling back to full upload`);
+				return false;
+			}
+			this._outputChannel.appendLine(`Synced fingerprint ${fingerprint.substring(0, 8)}...: manifest of ${result.manifestFiles} files, uploaded ${result.uploadedFiles} files (${result.uploadedBytes} bytes)`);
+			return true;
+		};
+
+		this._outputChannel.appendLine(`Sending query to: ${serverUrl}${queryEndpoint}`);
+
+		let queryRequest = buildRequest(await syncContext() ? 'fingerprint' : 'full');
+		let body = JSON.stringify(queryRequest);
+		const accept = onEvent && supportsCapability(api, 'stream') ? STREAM_ACCEPT_HEADER : 'application/json';
+		let response = await postJson(queryEndpoint, body, accept);
+
+		// 409: the backend lost the synced context (e.g. restarted); sync again once
+		if (response.status === 409 && queryRequest.repo_context.context_mode === 'fingerprint') {
+			this._outputChannel.appendLine('Backend does not know the synced fingerprint, syncing again');
+			this._deltaSync.invalidate(serverUrl);
+			queryRequest = buildRequest(await syncContext() ? 'fingerprint' : 'full');
+			body = JSON.stringify(queryRequest);
+			response = await postJson(queryEndpoint, body, accept);
+		}
+
+		if (response.ok) {
+			// The request timeout covers the wait for the first byte; after that it bounds silence
+			const streamed = onEvent && isStreamingResponse(response);
+			const { response: data, dropped } = streamed
+				? await readQueryStream(response, timeoutMs, onEvent)
+				: validateQueryResponse(await response.json().catch(() => {
+					throw new BackendSchemaError(`The backend's ${queryEndpoint} did not return JSON. Check that aiCodeSnippetRag.serverUrl points at the RAG backend.`);
+				}), queryEndpoint);
+			this._outputChannel.appendLine(`Query ${streamed ? 'streamed' : 'successful'}: ${data.answers.length} answers (${queryRequest.repo_context.context_mode} context, ${body.length} bytes)`);
+			if (dropped.length > 0) {
+				this._outputChannel.appendLine(`Left out ${dropped.length} invalid part(s) of the ${queryEndpoint} response (${describeApi(api)}):`);
+				dropped.forEach(problem => this._outputChannel.appendLine(`  ${problem}`));
+				const notice = droppedNotice(dropped.length);
+				data.notice = data.notice ? `${data.notice} ${notice}` : notice;
+				if (streamed) {
+					onEvent({ type: 'notice', text: notice });
+				}
+			}
+			return data;
+		}
+
+		const errorText = await response.text();
+		this._outputChannel.appendLine(`Query failed: HTTP ${response.status} - ${errorText}`);
+		this._outputChannel.appendLine(`Request payload summary: ${fileCount} files, ${body.length} bytes`);
+		if (response.status === 404) {
+			// The backend may have moved to another API version; ask its /health again next time
+			this._apis.delete(serverUrl);
+			throw new BackendHttpError(404, `HTTP 404: Backend endpoint ${queryEndpoint} not found (${describeApi(api)}). The endpoint needs to be implemented in the backend. Context collected: ${fileCount} files.`);
+		}
+		throw new BackendHttpError(response.status, `HTTP ${response.status}: ${errorText}`);
+	}
+}
+
+// What the model is asked to do for each intent, after the general instructions
+const INTENT_INSTRUCTIONS: Record<QueryIntent, string> = {
+	ask: 'Answer the question.',
+	find: 'Say where the requested code is, most relevant snippet first, with a line on each.',
+	explain: 'Explain what the code does and how it fits with the rest of the snippets.',
+	usages: 'List where the symbol is used in the snippets and how it is used there.',
+	tests: 'Point out the tests that cover the code. If the snippets hold none, suggest tests to write, in the project\'s test style.',
+	summary: 'Summarize the workspace from the statistics given.',
+	similar: 'Say which snippets are similar to the given code, and how they differ from it.',
+	changes: 'Answer about the uncommitted changes in the diff: what they do, and what else in the snippets they may break.'
+};
+
+const SYSTEM_PROMPT = 'You answer questions about a codebase from numbered snippets of its code, retrieved for each question. '
+	+ 'Cite the snippets you use as [1], [2] and so on. If the snippets do not hold the answer, say so rather than guessing. Reply in Markdown.';
+
+// Shapes of the chat completions API that are read here
+interface ChatMessage {
+	role: 'system' | 'user' | 'assistant';
+	content: string;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// The text of a completion's first choice ("message"), or of a streamed chunk ("delta"). Content that is
+// absent or null is no text; anything else that is not shaped like a completion is a schema error.
+function completionText(data: unknown, field: 'message' | 'delta'): string {
+	if (!isRecord(data)) {
+		throw new BackendSchemaError(`The model server's /chat/completions returned ${data === null ? 'null' : Array.isArray(data) ? 'an array' : `a ${typeof data}`} instead of a ${field === 'delta' ? 'completion chunk' : 'completion'}.`);
+	}
+	if (data.error !== undefined) {
+		const message = isRecord(data.error) && typeof data.error.message === 'string' ? data.error.message : 'unknown error';
+		throw new BackendError(`Model server ${field === 'delta' ? 'stream ' : ''}error: ${message}`);
+	}
+	// Streams may end with a chunk of usage figures and no choices
+	if (!Array.isArray(data.choices) || (data.choices.length === 0 && field === 'message')) {
+		throw new BackendSchemaError(`The model server's /chat/completions response has no "choices". Check that aiCodeSnippetRag.openai.baseUrl points at an OpenAI-compatible server.`);
+	}
+	const choice: unknown = data.choices[0];
+	if (choice === undefined) {
+		return '';
+	}
+	const part = isRecord(choice) ? choice[field] : choice;
+	if (part === undefined || part === null) {
+		return '';
+	}
+	if (!isRecord(part) || (part.content !== undefined && part.content !== null && typeof part.content !== 'string')) {
+		throw new BackendSchemaError(`The model server's /chat/completions response has a choice without a valid "${field}".`);
+	}
+	return typeof part.content === 'string' ? part.content : '';
+}
+
+// The conversation sent to the model: instructions, earlier turns, then the snippets and the question
+export function buildChatMessages(request: ProviderQuery, snippets: QueryAnswer[]): ChatMessage[] {
+	const messages: ChatMessage[] = [{ role: 'system', content: SYSTEM_PROMPT }];
+	for (const turn of request.history) {
+		messages.push({ role: 'user', content: turn.query });
+		const cited = turn.answers.map(answer => `${answer.file} (lines ${answer.start_line}-${answer.end_line})`).join(', ');
+		messages.push({ role: 'assistant', content: turn.reply || (cited ? `Answered with: ${cited}` : 'No snippets matched.') });
+	}
+
+	const parts: string[] = [];
+	if (snippets.length > 0) {
+		parts.push('Snippets from the workspace:', ...snippets.map((snippet, index) => `[${index + 1}] ${snippet.file} (lines ${snippet.start_line}-${snippet.end_line})\n${fence(snippet.code, snippet.languageId)}`));
+	} else {
+		parts.push('No snippets of the workspace matched this question.');
+	}
+	if (request.anchor) {
+		const { anchor } = request;
+		parts.push(`The question is about this code from ${anchor.symbol ? `\`${anchor.symbol}\` in ` : ''}${anchor.file} (lines ${anchor.startLine}-${anchor.endLine})${anchor.truncated ? ', cut short' : ''}:\n${fence(anchor.code, undefined)}`);
+	} else if (request.activeFile) {
+		parts.push(`The open file is ${request.activeFile}${request.selection ? `, lines ${request.selection.startLine}-${request.selection.endLine} selected` : ''}.`);
+	}
+	for (const git of request.git ?? []) {
+		parts.push(describeGitForPrompt(git, request.git!.length > 1));
+	}
+	parts.push(INTENT_INSTRUCTIONS[request.intent], `Question: ${request.query}`);
+	messages.push({ role: 'user', content: parts.join('\n\n') });
+	return messages;
+}
+
+// An OpenAI-compatible /chat/completions server, such as a local model server. Retrieval happens here:
+// only the best local matches for the query are sent, and they are the answers the reply cites.
+export class OpenAiCompatibleProvider implements QueryProvider {
+	public readonly id = 'openai';
+	public readonly capabilities: ProviderCapabilities = { streaming: true, feedback: false, deltaUpload: false, healthCheck: true, sendsCode: true };
+
+	constructor(
+		public readonly client: BackendClient,
+		private readonly _retrieve: LocalRetriever,
+		private readonly _audit: AuditRecorder,
+		private readonly _outputChannel: vscode.OutputChannel
+	) {}
+
+	public get label(): string {
+		const model = vscode.workspace.getConfiguration('aiCodeSnippetRag').get<string>('openai.model', '').trim();
+		return `OpenAI-compatible server${model ? ` (${model})` : ''}`;
+	}
+
+	public async query(request: ProviderQuery, options: ProviderQueryOptions): Promise<QueryResponse> {
+		const { onEvent, signal } = options;
+		const config = vscode.workspace.getConfiguration('aiCodeSnippetRag');
+		const model = config.get<string>('openai.model', '').trim();
+		if (!model) {
+			throw new BackendError('No model is set for the OpenAI-compatible server. Set aiCodeSnippetRag.openai.model to the model it should use.');
+		}
+		const serverUrl = this.client.serverUrl;
+		const timeoutMs = config.get<number>('requestTimeoutMs', 20000);
+
+		// Snippets are numbered in the prompt, and the answers carry the same numbers
+		const retrieved = this._retrieve(request, config.get<number>('openai.contextSnippets', 8)).answers;
+		const answers = retrieved.map((answer, index) => ({ ...answer, explanation: `[${index + 1}] ${answer.explanation}` }));
+		const body = JSON.stringify({
+			model,
+			messages: buildChatMessages(request, retrieved),
+			temperature: config.get<number>('openai.temperature', 0.2),
+			stream: onEvent !== undefined
+		});
+
+		this._outputChannel.appendLine(`Sending query to: ${serverUrl}/chat/completions (model ${model}, ${answers.length} snippets, ${body.length} bytes)`);
+		this._audit(serverUrl, '/chat/completions', request.query, body);
+		// Not retried: a completion is paid for and differs each time it runs
+		const response = await this.client.request('/chat/completions', {
+			body,
+			accept: onEvent ? 'text/event-stream, application/json;q=0.8' : 'application/json',
+			signal
+		});
+		if (!response.ok) {
+			const errorText = await response.text();
+			this._outputChannel.appendLine(`Chat completion failed: HTTP ${response.status} - ${errorText}`);
+			throw new BackendHttpError(response.status, `HTTP ${response.status}: ${errorText.substring(0, 500)}`);
+		}
+
+		let reply = '';
+		if (onEvent && isStreamingResponse(response)) {
+			await readRecords(response, timeoutMs, payload => {
+				if (payload.trim() === '[DONE]') {
+					return;
+				}
+				let chunk: unknown;
+				try {
+					chunk = JSON.parse(payload);
+				} catch (error: any) {
+					throw new BackendSchemaError(`The model server's /chat/completions stream sent an event that is not JSON (${error.message}).`);
+				}
+				const text = completionText(chunk, 'delta');
+				if (text) {
+					reply += text;
+					onEvent({ type: 'reply', text });
+				}
+			});
+			// The cited snippets follow the reply, as a streamed RAG answer would send them
+			for (const answer of answers) {
+				onEvent({ type: 'answer', answer });
+			}
+		} else {
+			reply = completionText(await response.json().catch(() => {
+				throw new BackendSchemaError('The model server\'s /chat/completions did not return JSON. Check that aiCodeSnippetRag.openai.baseUrl points at an OpenAI-compatible server.');
+			}), 'message');
+		}
+
+		this._outputChannel.appendLine(`Chat completion: ${reply.length} chars, citing from ${answers.length} local snippets`);
+		// The answers come from the local index; only the reply is the model's
+		return { answers, reply, local: true };
+	}
+}
+
+// The local retrieval index alone: nothing leaves the machine
+export class LocalMockProvider implements QueryProvider {
+	public readonly id = 'mock';
+	public readonly label = 'Offline (local index)';
+	public readonly client = undefined;
+	public readonly capabilities: ProviderCapabilities = { streaming: false, feedback: false, deltaUpload: false, healthCheck: false, sendsCode: false };
+
+	constructor(private readonly _retrieve: LocalRetriever) {}
+
+	public async query(request: ProviderQuery): Promise<QueryResponse> {
+		return { ...this._retrieve(request), local: true };
+	}
+}
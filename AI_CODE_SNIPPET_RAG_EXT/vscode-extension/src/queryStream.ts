@@ -0,0 +1,186 @@
+import { QueryResponse, QueryStreamEvent } from './types';
+import { BackendError, BackendSchemaError, BackendTimeoutError } from './backendClient';
+import { ValidatedResponse, checkAnswer, checkStreamEvent } from './responseSchema';
+
+// Content types we ask for, most preferred first; plain JSON keeps non-streaming backends working
+export const STREAM_ACCEPT_HEADER = 'application/x-ndjson, text/event-stream;q=0.9, application/json;q=0.8';
+
+export function isStreamingResponse(response: Response): boolean {
+	const contentType = response.headers.get('content-type') || '';
+	return contentType.includes('application/x-ndjson')
+		|| contentType.includes('application/jsonl')
+		|| contentType.includes('text/event-stream');
+}
+
+// Read an NDJSON or server-sent events body, reporting each valid event as it arrives, and assemble
+// the final response. Invalid answers and malformed events are left out and listed in `dropped`.
+// The stream is cancelled after idleTimeoutMs without data.
+export async function readQueryStream(response: Response, idleTimeoutMs: number, onEvent: (event: QueryStreamEvent) => void): Promise<ValidatedResponse> {
+	const result: QueryResponse = { answers: [] };
+	const dropped: string[] = [];
+	// Index of each streamed answer among those kept, or -1 when it was dropped
+	const kept: number[] = [];
+	await readRecords(response, idleTimeoutMs, (payload, eventName) => {
+		// SSE may name the event in the `event:` field instead of the payload
+		let event: QueryStreamEvent | undefined;
+		try {
+			const parsed = JSON.parse(payload);
+			event = checkStreamEvent(eventName && !parsed?.type ? { type: eventName, ...parsed } : parsed);
+		} catch (error) {
+			if (error instanceof SyntaxError) {
+				dropped.push(`Stream event is not valid JSON (${error.message}): ${payload.substring(0, 80)}`);
+				return;
+			}
+			if (!(error instanceof BackendSchemaError)) {
+				throw error;
+			}
+			dropped.push(error.message);
+			return;
+		}
+
+		if (event?.type === 'answer') {
+			const check = checkAnswer(event.answer);
+			if (!check.ok) {
+				kept.push(-1);
+				dropped.push(`answer ${kept.length}: ${check.problem}`);
+				return;
+			}
+			kept.push(result.answers.length);
+			event = { type: 'answer', answer: check.answer };
+		} else if (event?.type === 'explanation') {
+			// Explanations of dropped answers go with them
+			const index = kept[event.index] ?? -1;
+			if (index < 0) {
+				return;
+			}
+			event = { ...event, index };
+		}
+		if (event) {
+			applyEvent(result, event);
+			onEvent(event);
+		}
+	});
+	return { response: result, dropped };
+}
+
+// Read the records of an NDJSON or server-sent events body as they arrive: one per line, or the
+// data of one event. Empty records are skipped. The stream is cancelled after idleTimeoutMs without data.
+export async function readRecords(response: Response, idleTimeoutMs: number, onRecord: (payload: string, eventName?: string) => void): Promise<void> {
+	if (!response.body) {
+		throw new BackendError('Streaming response has no body');
+	}
+
+	const isEventStream = (response.headers.get('content-type') || '').includes('text/event-stream');
+	const reader = response.body.getReader();
+	const decoder = new TextDecoder();
+	let buffer = '';
+	let idleTimer: NodeJS.Timeout | undefined;
+	let timedOut = false;
+	let finished = false;
+
+	const resetIdleTimer = () => {
+		if (idleTimer) {
+			clearTimeout(idleTimer);
+		}
+		idleTimer = setTimeout(() => {
+			timedOut = true;
+			reader.cancel().catch(() => undefined);
+		}, idleTimeoutMs);
+	};
+
+	const handle = (payload: string, eventName?: string) => {
+		if (payload.trim()) {
+			onRecord(payload, eventName);
+		}
+	};
+
+	try {
+		resetIdleTimer();
+		while (true) {
+			const { done, value } = await reader.read();
+			if (done) {
+				finished = true;
+				break;
+			}
+			resetIdleTimer();
+			buffer += decoder.decode(value, { stream: true });
+
+			if (isEventStream) {
+				let boundary: number;
+				while ((boundary = buffer.search(/\r?\n\r?\n/)) >= 0) {
+					const block = buffer.substring(0, boundary);
+					buffer = buffer.substring(boundary).replace(/^\r?\n\r?\n/, '');
+					const { eventName, data } = parseEventBlock(block);
+					handle(data, eventName);
+				}
+			} else {
+				let newline: number;
+				while ((newline = buffer.indexOf('\n')) >= 0) {
+					const line = buffer.substring(0, newline);
+					buffer = buffer.substring(newline + 1);
+					handle(line);
+				}
+			}
+		}
+
+		// A final record without a trailing newline
+		buffer += decoder.decode();
+		if (isEventStream) {
+			const { eventName, data } = parseEventBlock(buffer);
+			handle(data, eventName);
+		} else {
+			handle(buffer);
+		}
+	} finally {
+		if (idleTimer) {
+			clearTimeout(idleTimer);
+		}
+		// A handler that threw leaves the body unread; cancel it so the connection is released
+		if (!finished) {
+			reader.cancel().catch(() => undefined);
+		}
+	}
+
+	if (timedOut) {
+		throw new BackendTimeoutError(idleTimeoutMs);
+	}
+}
+
+function parseEventBlock(block: string): { eventName?: string; data: string } {
+	let eventName: string | undefined;
+	const data: string[] = [];
+	for (const line of block.split(/\r?\n/)) {
+		if (line.startsWith('event:')) {
+			eventName = line.substring(6).trim();
+		} else if (line.startsWith('data:')) {
+			data.push(line.substring(5).replace(/^ /, ''));
+		}
+	}
+	return { eventName, data: data.join('\n') };
+}
+
+// Fold one event into the response being assembled
+function applyEvent(result: QueryResponse, event: QueryStreamEvent): void {
+	switch (event.type) {
+		case 'answer':
+			result.answers.push({ ...event.answer });
+			break;
+		case 'explanation': {
+			const answer = result.answers[event.index];
+			if (answer) {
+				answer.explanation += event.text;
+			}
+			break;
+		}
+		case 'notice':
+			result.notice = result.notice ? `${result.notice} ${event.text}` : event.text;
+			break;
+		case 'reply':
+			result.reply = (result.reply ?? '') + event.text;
+			break;
+		case 'error':
+			throw new BackendError(`Backend stream error: ${event.message}`);
+		case 'done':
+			break;
+	}
+}
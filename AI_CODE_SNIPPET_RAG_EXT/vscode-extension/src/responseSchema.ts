@@ -0,0 +1,146 @@
+import { BackendSchemaError } from './backendClient';
+import { QueryAnswer, QueryResponse, QueryStreamEvent } from './types';
+
+// An answer that passed validation, or why it did not
+export type AnswerCheck = { ok: true; answer: QueryAnswer } | { ok: false; problem: string };
+
+// A response with its invalid answers left out, and what was wrong with each
+export interface ValidatedResponse {
+	response: QueryResponse;
+	dropped: string[];
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function describeValue(value: unknown): string {
+	if (value === undefined) {
+		return 'missing';
+	}
+	if (value === null) {
+		return 'null';
+	}
+	return Array.isArray(value) ? 'an array' : `a ${typeof value}`;
+}
+
+function isLine(value: unknown): value is number {
+	return typeof value === 'number' && Number.isInteger(value) && value >= 1;
+}
+
+// Check one answer against the contract: what is required to show, open and rate it
+export function checkAnswer(value: unknown): AnswerCheck {
+	if (!isObject(value)) {
+		return { ok: false, problem: `is ${describeValue(value)}, not an object` };
+	}
+	const { file, start_line, end_line, code, score, explanation, id, languageId } = value;
+	const problems: string[] = [];
+	if (typeof file !== 'string' || file.length === 0) {
+		problems.push(`"file" is ${typeof file === 'string' ? 'empty' : describeValue(file)}`);
+	}
+	if (!isLine(start_line)) {
+		problems.push(`"start_line" is ${typeof start_line === 'number' ? start_line : describeValue(start_line)}, not a line number`);
+	}
+	if (!isLine(end_line)) {
+		problems.push(`"end_line" is ${typeof end_line === 'number' ? end_line : describeValue(end_line)}, not a line number`);
+	} else if (isLine(start_line) && end_line < start_line) {
+		problems.push(`"end_line" ${end_line} is before "start_line" ${start_line}`);
+	}
+	if (typeof code !== 'string') {
+		problems.push(`"code" is ${describeValue(code)}, not a string`);
+	}
+	if (typeof score !== 'number' || !Number.isFinite(score)) {
+		problems.push(`"score" is ${typeof score === 'number' ? score : describeValue(score)}, not a number`);
+	}
+	if (explanation !== undefined && explanation !== null && typeof explanation !== 'string') {
+		problems.push(`"explanation" is ${describeValue(explanation)}, not a string`);
+	}
+	if (problems.length > 0) {
+		return { ok: false, problem: typeof file === 'string' && file ? `${file}: ${problems.join(', ')}` : problems.join(', ') };
+	}
+
+	// Optional fields of the wrong type are dropped rather than the answer
+	return {
+		ok: true,
+		answer: {
+			id: typeof id === 'string' ? id : undefined,
+			file: file as string,
+			start_line: start_line as number,
+			end_line: end_line as number,
+			code: code as string,
+			score: score as number,
+			explanation: typeof explanation === 'string' ? explanation : '',
+			languageId: typeof languageId === 'string' ? languageId : undefined
+		}
+	};
+}
+
+// Validate a JSON query response. A body that is not a response at all is an error;
+// invalid answers are left out one by one.
+export function validateQueryResponse(data: unknown, endpoint: string): ValidatedResponse {
+	if (!isObject(data)) {
+		throw new BackendSchemaError(`The backend's ${endpoint} returned ${describeValue(data)} instead of a response object. Check that aiCodeSnippetRag.serverUrl points at the RAG backend.`);
+	}
+	if (!Array.isArray(data.answers)) {
+		throw new BackendSchemaError(`The backend's ${endpoint} response has no "answers" list (it is ${describeValue(data.answers)}). The backend may speak another API version; run "AI Code Snippet RAG: Test Connection" to see what it reports.`);
+	}
+
+	const answers: QueryAnswer[] = [];
+	const dropped: string[] = [];
+	data.answers.forEach((value, index) => {
+		const check = checkAnswer(value);
+		if (check.ok) {
+			answers.push(check.answer);
+		} else {
+			dropped.push(`answer ${index + 1}: ${check.problem}`);
+		}
+	});
+
+	return {
+		response: {
+			answers,
+			notice: typeof data.notice === 'string' ? data.notice : undefined,
+			reply: typeof data.reply === 'string' ? data.reply : undefined
+		},
+		dropped
+	};
+}
+
+// Validate one event of a query stream. Returns undefined for event types this extension does not know,
+// so newer backends can add some; known events with the wrong shape are schema errors.
+export function checkStreamEvent(value: unknown): QueryStreamEvent | undefined {
+	if (!isObject(value) || typeof value.type !== 'string') {
+		throw new BackendSchemaError(`Stream event is ${isObject(value) ? 'missing its "type"' : describeValue(value)}`);
+	}
+	const invalid = (field: string) => new BackendSchemaError(`"${value.type}" stream event has an invalid "${field}" (${describeValue(value[field])})`);
+	switch (value.type) {
+		case 'answer':
+			// Checked by the caller with checkAnswer, so a bad answer is dropped on its own and later indices still line up
+			return { type: 'answer', answer: value.answer as unknown as QueryAnswer };
+		case 'explanation':
+			if (!Number.isInteger(value.index)) {
+				throw invalid('index');
+			}
+			if (typeof value.text !== 'string') {
+				throw invalid('text');
+			}
+			return { type: 'explanation', index: value.index as number, text: value.text };
+		case 'notice':
+		case 'reply':
+			if (typeof value.text !== 'string') {
+				throw invalid('text');
+			}
+			return { type: value.type, text: value.text };
+		case 'error':
+			return { type: 'error', message: typeof value.message === 'string' ? value.message : 'unknown error' };
+		case 'done':
+			return { type: 'done' };
+		default:
+			return undefined;
+	}
+}
+
+// The notice shown when parts of a response were left out
+export function droppedNotice(count: number): string {
+	return `${count} ${count === 1 ? 'part' : 'parts'} of the backend's response did not match the expected format and ${count === 1 ? 'was' : 'were'} left out; the Output panel lists what was wrong.`;
+}
@@ -0,0 +1,274 @@
+import { CodeSymbol, FileInfo } from './types';
+import { textFromChunks } from './chunker';
+
+// BM25 tuning: term frequency saturation and document length normalization
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// Path terms count as much as this many occurrences in the content
+const PATH_TERM_WEIGHT = 3;
+
+// Terms of the names a file declares count as much as this many occurrences
+const SYMBOL_TERM_WEIGHT = 2;
+
+// Number of lines returned around the best-matching region of a file
+const SNIPPET_LINES = 24;
+
+// Chunks up to this many lines are returned whole rather than cut to a window
+const MAX_CHUNK_ANSWER_LINES = SNIPPET_LINES * 3;
+
+const STOP_WORDS = new Set([
+	'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'do', 'does', 'for', 'from', 'how', 'i',
+	'in', 'is', 'it', 'me', 'my', 'of', 'on', 'or', 'show', 'that', 'the', 'this', 'to', 'what',
+	'where', 'which', 'who', 'why', 'with'
+]);
+
+interface IndexedDocument {
+	file: FileInfo;
+	termFreqs: Map<string, number>;
+	length: number;
+}
+
+export interface SearchHit {
+	file: FileInfo;
+	score: number;
+	startLine: number;
+	endLine: number;
+	code: string;
+	symbol?: string;
+	// Set when the hit is a declaration the query named
+	definition?: CodeSymbol;
+	matchedTerms: string[];
+}
+
+// Split text into lowercase search terms, breaking identifiers on camelCase and snake_case
+export function tokenize(text: string): string[] {
+	const terms: string[] = [];
+	const words = text.match(/[A-Za-z0-9_$]+/g) || [];
+	for (const word of words) {
+		const parts = word
+			.replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+			.replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+			.split(/[\s_$]+/)
+			.map(part => part.toLowerCase())
+			.filter(part => part.length > 1 && !STOP_WORDS.has(part));
+		terms.push(...parts);
+
+		// Keep the whole identifier too, so exact identifier matches rank higher
+		const whole = word.toLowerCase().replace(/^[_$]+|[_$]+$/g, '');
+		if (parts.length > 1 && whole.length > 1) {
+			terms.push(whole);
+		}
+	}
+	return terms;
+}
+
+// BM25 index over the sampled content of one workspace root
+export class LocalIndex {
+	private _documents: Map<string, IndexedDocument> = new Map();
+	private _documentFreqs: Map<string, number> = new Map();
+	private _totalLength = 0;
+	// Declarations by lowercase name
+	private _definitions: Map<string, Array<{ file: FileInfo; symbol: CodeSymbol }>> = new Map();
+
+	constructor(files: FileInfo[]) {
+		files.forEach(file => this.upsert(file));
+	}
+
+	public get size(): number {
+		return this._documents.size;
+	}
+
+	public upsert(file: FileInfo): void {
+		this.remove(file.path);
+		const text = fileText(file);
+		if (!text) {
+			return;
+		}
+
+		const termFreqs = new Map<string, number>();
+		const contentTerms = tokenize(text);
+		for (const term of contentTerms) {
+			termFreqs.set(term, (termFreqs.get(term) || 0) + 1);
+		}
+		for (const term of tokenize(file.path)) {
+			termFreqs.set(term, (termFreqs.get(term) || 0) + PATH_TERM_WEIGHT);
+		}
+		for (const symbol of file.symbols ?? []) {
+			for (const term of tokenize(symbol.name)) {
+				termFreqs.set(term, (termFreqs.get(term) || 0) + SYMBOL_TERM_WEIGHT);
+			}
+			const key = symbol.name.toLowerCase();
+			this._definitions.set(key, [...(this._definitions.get(key) ?? []), { file, symbol }]);
+		}
+
+		for (const term of termFreqs.keys()) {
+			this._documentFreqs.set(term, (this._documentFreqs.get(term) || 0) + 1);
+		}
+		this._documents.set(file.path, { file, termFreqs, length: contentTerms.length });
+		this._totalLength += contentTerms.length;
+	}
+
+	public remove(filePath: string): void {
+		const document = this._documents.get(filePath);
+		if (!document) {
+			return;
+		}
+
+		for (const term of document.termFreqs.keys()) {
+			const freq = (this._documentFreqs.get(term) || 1) - 1;
+			if (freq > 0) {
+				this._documentFreqs.set(term, freq);
+			} else {
+				this._documentFreqs.delete(term);
+			}
+		}
+		for (const symbol of document.file.symbols ?? []) {
+			const key = symbol.name.toLowerCase();
+			const remaining = (this._definitions.get(key) ?? []).filter(entry => entry.file !== document.file);
+			if (remaining.length > 0) {
+				this._definitions.set(key, remaining);
+			} else {
+				this._definitions.delete(key);
+			}
+		}
+		this._documents.delete(filePath);
+		this._totalLength -= document.length;
+	}
+
+	// Declarations named by an identifier of the query, e.g. "where is sendQuery defined", whatever their text.
+	// A container named too, as in "LocalIndex.search", ranks its member first; exported declarations come
+	// before local ones of the same name.
+	public findDefinitions(query: string, limit: number): SearchHit[] {
+		const identifiers = new Set((query.match(/[A-Za-z_$][\w$]*/g) || [])
+			.map(word => word.toLowerCase())
+			.filter(word => word.length > 1 && !STOP_WORDS.has(word)));
+		const found: Array<{ file: FileInfo; symbol: CodeSymbol; score: number }> = [];
+		for (const identifier of identifiers) {
+			for (const { file, symbol } of this._definitions.get(identifier) ?? []) {
+				const inNamedContainer = symbol.container?.split('.').some(name => identifiers.has(name.toLowerCase())) ?? false;
+				found.push({ file, symbol, score: 1 + (inNamedContainer ? 1 : 0) + (symbol.exported ? 0.5 : 0) });
+			}
+		}
+
+		return found
+			.sort((a, b) => b.score - a.score)
+			.slice(0, limit)
+			.map(({ file, symbol, score }) => {
+				// Long declarations are cut after their start, where the signature is
+				const endLine = Math.min(symbol.end_line, symbol.start_line + MAX_CHUNK_ANSWER_LINES - 1);
+				return {
+					file,
+					score,
+					startLine: symbol.start_line,
+					endLine,
+					code: (fileText(file) ?? '').split('\n').slice(symbol.start_line - 1, endLine).join('\n'),
+					symbol: symbol.container ? `${symbol.container}.${symbol.name}` : symbol.name,
+					definition: symbol,
+					matchedTerms: [symbol.name]
+				};
+			});
+	}
+
+	// Rank files for a query and cut a snippet around each file's best-matching lines
+	public search(query: string, limit: number): SearchHit[] {
+		const queryTerms = Array.from(new Set(tokenize(query)));
+		if (queryTerms.length === 0 || this._documents.size === 0) {
+			return [];
+		}
+
+		const idfs = new Map(queryTerms.map(term => [term, this._idf(term)]));
+		const avgLength = this._totalLength / this._documents.size || 1;
+		const scored: Array<{ document: IndexedDocument; score: number; matchedTerms: string[] }> = [];
+
+		for (const document of this._documents.values()) {
+			let score = 0;
+			const matchedTerms: string[] = [];
+			for (const term of queryTerms) {
+				const tf = document.termFreqs.get(term);
+				if (!tf) {
+					continue;
+				}
+				const norm = BM25_K1 * (1 - BM25_B + BM25_B * document.length / avgLength);
+				score += idfs.get(term)! * tf * (BM25_K1 + 1) / (tf + norm);
+				matchedTerms.push(term);
+			}
+			if (score > 0) {
+				scored.push({ document, score, matchedTerms });
+			}
+		}
+
+		return scored
+			.sort((a, b) => b.score - a.score)
+			.slice(0, limit)
+			.map(({ document, score, matchedTerms }) => {
+				const region = document.file.chunks
+					? findBestChunk(document.file, idfs)
+					: findBestRegion(document.file.sample!, idfs, 0);
+				return { file: document.file, score, matchedTerms, ...region };
+			});
+	}
+
+	private _idf(term: string): number {
+		const df = this._documentFreqs.get(term) || 0;
+		return Math.log(1 + (this._documents.size - df + 0.5) / (df + 0.5));
+	}
+}
+
+// Full text of a file when it was chunked, otherwise its sample
+function fileText(file: FileInfo): string | undefined {
+	return file.chunks ? textFromChunks(file.chunks) : file.sample;
+}
+
+function weightedTermCount(text: string, idfs: Map<string, number>): number {
+	return tokenize(text).reduce((sum, term) => sum + (idfs.get(term) || 0), 0);
+}
+
+// Pick the chunk with the densest matches, so answers cover exactly one function or class
+function findBestChunk(file: FileInfo, idfs: Map<string, number>): { startLine: number; endLine: number; code: string; symbol?: string } {
+	let best = file.chunks![0];
+	let bestScore = -1;
+	for (const chunk of file.chunks!) {
+		const lineCount = chunk.end_line - chunk.start_line + 1;
+		const score = weightedTermCount(chunk.content, idfs) / Math.sqrt(lineCount);
+		if (score > bestScore) {
+			best = chunk;
+			bestScore = score;
+		}
+	}
+
+	if (best.end_line - best.start_line + 1 > MAX_CHUNK_ANSWER_LINES) {
+		return { ...findBestRegion(best.content, idfs, best.start_line - 1), symbol: best.name };
+	}
+	return { startLine: best.start_line, endLine: best.end_line, code: best.content, symbol: best.name };
+}
+
+// Slide a window over the text and keep the one with the highest weighted term count
+function findBestRegion(text: string, idfs: Map<string, number>, lineOffset: number): { startLine: number; endLine: number; code: string } {
+	const lines = text.split('\n');
+	const lineScores = lines.map(line => weightedTermCount(line, idfs));
+	const window = Math.min(SNIPPET_LINES, lines.length);
+
+	let current = lineScores.slice(0, window).reduce((sum, score) => sum + score, 0);
+	let best = current;
+	let bestStart = 0;
+	for (let start = 1; start + window <= lines.length; start++) {
+		current += lineScores[start + window - 1] - lineScores[start - 1];
+		if (current > best) {
+			best = current;
+			bestStart = start;
+		}
+	}
+
+	// Start the snippet just above the first matching line rather than mid-window
+	const firstMatch = lineScores.slice(bestStart, bestStart + window).findIndex(score => score > 0);
+	if (firstMatch > 2) {
+		bestStart = Math.min(bestStart + firstMatch - 2, Math.max(0, lines.length - window));
+	}
+
+	return {
+		startLine: lineOffset + bestStart + 1,
+		endLine: lineOffset + bestStart + window,
+		code: lines.slice(bestStart, bestStart + window).join('\n')
+	};
+}
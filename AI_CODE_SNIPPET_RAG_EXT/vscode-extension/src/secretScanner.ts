@@ -0,0 +1,178 @@
+import { Redaction } from './types';
+
+// A detector reports the ranges of a text that hold a secret
+export interface SecretDetector {
+	name: string;
+	find(text: string): Array<{ start: number; end: number }>;
+}
+
+export interface RedactionResult {
+	text: string;
+	findings: Redaction[];
+}
+
+// A team-defined pattern from the customSecretPatterns setting
+export interface CustomSecretPattern {
+	name: string;
+	pattern: string;
+}
+
+// Bump when the built-in detectors change, so content scanned with the old ones is read again
+export const SCANNER_VERSION = 1;
+
+// Quoted strings at least this long are candidates for the entropy check
+const ENTROPY_MIN_LENGTH = 24;
+// Bits per character above which a candidate looks random rather than like words or identifiers
+const ENTROPY_THRESHOLD = 4.2;
+
+// Redact the matches of a regex, or of its first capture group when it has one
+export function regexDetector(name: string, source: string | RegExp): SecretDetector {
+	const regex = typeof source === 'string' ? new RegExp(source, 'g') : new RegExp(source.source, source.flags.includes('g') ? source.flags : `${source.flags}g`);
+	return {
+		name,
+		find: text => {
+			const ranges: Array<{ start: number; end: number }> = [];
+			for (const match of text.matchAll(regex)) {
+				if (match[0].length === 0) {
+					continue;
+				}
+				const secret = match[1] ?? match[0];
+				const start = match.index! + match[0].indexOf(secret);
+				ranges.push({ start, end: start + secret.length });
+			}
+			return ranges;
+		}
+	};
+}
+
+// Quoted strings that look random enough to be keys nobody wrote a pattern for
+export function entropyDetector(): SecretDetector {
+	const candidate = /["'`]([A-Za-z0-9+/=_-]{24,})["'`]/g;
+	return {
+		name: 'high-entropy-string',
+		find: text => {
+			const ranges: Array<{ start: number; end: number }> = [];
+			for (const match of text.matchAll(candidate)) {
+				const value = match[1];
+				if (value.length >= ENTROPY_MIN_LENGTH && looksRandom(value)) {
+					const start = match.index! + 1;
+					ranges.push({ start, end: start + value.length });
+				}
+			}
+			return ranges;
+		}
+	};
+}
+
+const BUILT_IN_DETECTORS: SecretDetector[] = [
+	regexDetector('private-key', /-----BEGIN [A-Z0-9 ]*PRIVATE KEY(?: BLOCK)?-----[\s\S]*?-----END [A-Z0-9 ]*PRIVATE KEY(?: BLOCK)?-----/),
+	regexDetector('aws-access-key-id', /\b((?:AKIA|ASIA|AGPA|AIDA|AROA)[0-9A-Z]{16})\b/),
+	regexDetector('aws-secret-access-key', /aws_?secret_?(?:access_?)?key["']?\s*[:=]\s*["']?([A-Za-z0-9/+=]{40})\b/i),
+	regexDetector('github-token', /\b((?:gh[pousr]_[A-Za-z0-9]{36,})|(?:github_pat_[A-Za-z0-9_]{22,}))\b/),
+	regexDetector('gitlab-token', /\b(glpat-[A-Za-z0-9_-]{20,})\b/),
+	regexDetector('slack-token', /\b(xox[abposr]-[A-Za-z0-9-]{10,})\b/),
+	regexDetector('google-api-key', /\b(AIza[0-9A-Za-z_-]{35})\b/),
+	regexDetector('stripe-key', /\b((?:sk|rk)_(?:live|test)_[0-9A-Za-z]{16,})\b/),
+	regexDetector('openai-key', /\b(sk-(?:proj-)?[A-Za-z0-9_-]{32,})\b/),
+	regexDetector('jwt', /\b(eyJ[A-Za-z0-9_-]{8,}\.eyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,})\b/),
+	// user:password@host in database and broker URLs; only the password goes
+	regexDetector('connection-string-password', /\b[a-z][a-z0-9+.-]*:\/\/[^\s:/@'"]+:([^\s@/'"]+)@/i),
+	regexDetector('password-in-connection-string', /\b(?:password|pwd)=([^;'"\s]{4,})/i),
+	// password = "...", apiKey: '...' and similar assignments of literal strings
+	regexDetector('secret-assignment', /\b[\w.-]*(?:password|passwd|secret|api_?key|access_?token|auth_?token|client_?secret)["']?\s*[:=]\s*["'`]([^"'`\s]{8,})["'`]/i),
+	entropyDetector()
+];
+
+// Identifiers and words rarely mix cases and digits the way encoded keys do. Hex strings are
+// left alone: commit and integrity hashes are far more common than hex keys outside an assignment.
+function looksRandom(value: string): boolean {
+	const classes = [/[a-z]/, /[A-Z]/, /[0-9]/].filter(regex => regex.test(value)).length;
+	return classes === 3 && shannonEntropy(value) >= ENTROPY_THRESHOLD;
+}
+
+function shannonEntropy(value: string): number {
+	const counts = new Map<string, number>();
+	for (const char of value) {
+		counts.set(char, (counts.get(char) || 0) + 1);
+	}
+	let entropy = 0;
+	for (const count of counts.values()) {
+		const p = count / value.length;
+		entropy -= p * Math.log2(p);
+	}
+	return entropy;
+}
+
+// Finds secrets in file content and replaces them with markers, keeping every line where it was
+export class SecretScanner {
+	constructor(private readonly _detectors: SecretDetector[]) {}
+
+	public get detectors(): readonly SecretDetector[] {
+		return this._detectors;
+	}
+
+	public redact(text: string): RedactionResult {
+		const ranges: Array<{ start: number; end: number; detector: string }> = [];
+		for (const detector of this._detectors) {
+			for (const range of detector.find(text)) {
+				ranges.push({ ...range, detector: detector.name });
+			}
+		}
+		if (ranges.length === 0) {
+			return { text, findings: [] };
+		}
+
+		// Overlapping matches collapse into one redaction named after the earliest
+		ranges.sort((a, b) => a.start - b.start || b.end - a.end);
+		const merged: typeof ranges = [];
+		for (const range of ranges) {
+			const last = merged[merged.length - 1];
+			if (last && range.start < last.end) {
+				last.end = Math.max(last.end, range.end);
+			} else {
+				merged.push({ ...range });
+			}
+		}
+
+		let result = '';
+		let cursor = 0;
+		let line = 1;
+		const findings: Redaction[] = [];
+		for (const range of merged) {
+			const before = text.substring(cursor, range.start);
+			line += countNewlines(before);
+			findings.push({ detector: range.detector, line });
+
+			// Newlines inside the secret survive, so the lines after it keep their numbers
+			const secret = text.substring(range.start, range.end);
+			result += before + `[REDACTED:${range.detector}]` + '\n'.repeat(countNewlines(secret));
+			line += countNewlines(secret);
+			cursor = range.end;
+		}
+		result += text.substring(cursor);
+
+		return { text: result, findings };
+	}
+}
+
+// Built-in detectors plus the team's own patterns; invalid patterns are reported instead of thrown
+export function createSecretScanner(customPatterns: Array<CustomSecretPattern | string>, onInvalid: (pattern: string, error: string) => void): SecretScanner {
+	const detectors = [...BUILT_IN_DETECTORS];
+	customPatterns.forEach((custom, index) => {
+		const { name, pattern } = typeof custom === 'string' ? { name: `custom-${index + 1}`, pattern: custom } : custom;
+		try {
+			detectors.push(regexDetector(name || `custom-${index + 1}`, pattern));
+		} catch (error: any) {
+			onInvalid(pattern, error.message);
+		}
+	});
+	return new SecretScanner(detectors);
+}
+
+function countNewlines(text: string): number {
+	let count = 0;
+	for (let i = text.indexOf('\n'); i >= 0; i = text.indexOf('\n', i + 1)) {
+		count++;
+	}
+	return count;
+}
@@ -0,0 +1,46 @@
+import { Uri } from './vscode';
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type * as vscode from 'vscode';
+import { AnalysisStore } from '../../analysisStore';
+import { ReadLimits, WorkspaceAnalysis } from '../../types';
+
+const limits: ReadLimits = { maxBytesPerFile: 100, maxChunkedFileBytes: 1000 };
+
+function analysisOf(workspaceRoot: string): WorkspaceAnalysis {
+	return { workspaceName: path.basename(workspaceRoot), workspaceRoot, fingerprint: 'f1', fileCount: 1, files: [{ path: 'a.ts', size: 1, mtime: 1, sample: 'a' }] };
+}
+
+test('purging waits for a save that is already writing, so nothing is written back', async () => {
+	const storage = fs.mkdtempSync(path.join(os.tmpdir(), 'analysis-store-'));
+	try {
+		const store = new AnalysisStore(Uri.file(storage) as unknown as vscode.Uri);
+		store.scheduleSave(analysisOf('/app'), limits, 'off', error => assert.fail(String(error)));
+		// Starts the write without waiting for it
+		const flushed = store.flush();
+		await store.purge();
+		await flushed;
+		assert.equal(fs.existsSync(path.join(storage, 'analysis')), false);
+		assert.deepEqual(await store.list(), []);
+	} finally {
+		fs.rmSync(storage, { recursive: true, force: true });
+	}
+});
+
+test('purging cancels a save that is still waiting', async () => {
+	const storage = fs.mkdtempSync(path.join(os.tmpdir(), 'analysis-store-'));
+	try {
+		const store = new AnalysisStore(Uri.file(storage) as unknown as vscode.Uri);
+		await store.save(analysisOf('/app'), limits, 'off');
+		store.scheduleSave(analysisOf('/app'), limits, 'off', error => assert.fail(String(error)));
+		const [entry] = await store.list();
+		await store.purge(entry);
+		await store.flush();
+		assert.equal(await store.load('/app', limits, 'off'), undefined);
+	} finally {
+		fs.rmSync(storage, { recursive: true, force: true });
+	}
+});
@@ -0,0 +1,107 @@
+import * as vscode from './vscode';
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import type { DocumentSymbol } from 'vscode';
+import { analyzeText, chunkText, textFromChunks } from '../../chunker';
+
+const typescript = [
+	'import { x } from \'./x\';',
+	'',
+	'export class Store {',
+	'\tprivate items: string[] = [];',
+	'',
+	'\tpublic add(item: string): void {',
+	'\t\tthis.items.push(item);',
+	'\t}',
+	'',
+	'\tpublic get size(): number {',
+	'\t\treturn this.items.length;',
+	'\t}',
+	'}',
+	'',
+	'function helper(value: number) {',
+	'\treturn value * 2;',
+	'}',
+	'',
+	'export const LIMIT = 10;',
+	'export { helper };'
+].join('\n');
+
+test('chunks a TypeScript file along its declarations with exact line ranges', () => {
+	const chunks = chunkText(typescript, 'typescript');
+	const store = chunks.find(chunk => chunk.name === 'Store');
+	const helper = chunks.find(chunk => chunk.name === 'helper');
+	assert.ok(store && helper);
+	assert.equal(store.kind, 'class');
+	assert.equal(store.start_line, 3);
+	assert.equal(store.end_line, 13);
+	assert.equal(helper.kind, 'function');
+	assert.deepEqual([helper.start_line, helper.end_line], [15, 17]);
+	assert.equal(helper.content, typescript.split('\n').slice(14, 17).join('\n'));
+});
+
+test('indexes declarations with their containers and what the module exports', () => {
+	const { symbols } = analyzeText(typescript, 'typescript');
+	const byName = new Map(symbols.map(symbol => [symbol.name, symbol]));
+	assert.equal(byName.get('Store')?.exported, true);
+	assert.equal(byName.get('add')?.container, 'Store');
+	assert.equal(byName.get('add')?.kind, 'method');
+	// Exported later through an export list
+	assert.equal(byName.get('helper')?.exported, true);
+	assert.deepEqual(byName.get('LIMIT') && [byName.get('LIMIT')!.kind, byName.get('LIMIT')!.exported, byName.get('LIMIT')!.start_line], ['variable', true, 19]);
+});
+
+test('keeps decorators with the Python declaration they belong to', () => {
+	const python = [
+		'import os',
+		'',
+		'class Service:',
+		'    @staticmethod',
+		'    def create():',
+		'        return Service()',
+		'',
+		'    def run(self):',
+		'        pass',
+		'',
+		'@cache',
+		'def load(path):',
+		'    return open(path).read()'
+	].join('\n');
+	const { chunks, symbols } = analyzeText(python, 'python');
+	const load = chunks.find(chunk => chunk.name === 'load');
+	assert.ok(load);
+	assert.deepEqual([load.start_line, load.end_line], [11, 13]);
+	assert.equal(symbols.find(symbol => symbol.name === 'create')?.container, 'Service');
+});
+
+test('splits markdown into sections by heading', () => {
+	const markdown = '# Title\nintro\n\n## Install\nnpm i\n\n## Usage\nrun it';
+	const sections = chunkText(markdown, 'markdown').filter(chunk => chunk.kind === 'section');
+	assert.deepEqual(sections.map(chunk => chunk.name), ['Title', 'Install', 'Usage']);
+});
+
+test('splits a class too long for one chunk along its members', () => {
+	const methods = Array.from({ length: 20 }, (_, i) => [`\tmethod${i}() {`, ...Array(8).fill('\t\twork();'), '\t}'].join('\n'));
+	const text = ['class Big {', ...methods, '}'].join('\n');
+	const chunks = chunkText(text, 'typescript');
+	assert.ok(chunks.length > 1);
+	assert.ok(chunks.every(chunk => chunk.end_line - chunk.start_line + 1 <= 150));
+	assert.ok(chunks.some(chunk => chunk.name === 'Big.method19'));
+});
+
+test('rebuilds the text of a file from its chunks', () => {
+	for (const [text, languageId] of [[typescript, 'typescript'], ['a\n\nb\n', undefined]] as const) {
+		assert.equal(textFromChunks(chunkText(text, languageId)).replace(/\n+$/, ''), text.replace(/\n+$/, ''));
+	}
+});
+
+test('prefers language server symbols over the heuristic', () => {
+	const symbol = (name: string, kind: vscode.SymbolKind, start: number, end: number, children: DocumentSymbol[] = []) =>
+		({ name, kind, range: { start: { line: start }, end: { line: end } }, children }) as unknown as DocumentSymbol;
+	const text = 'one\ntwo\nthree\nfour\nfive';
+	const chunks = chunkText(text, 'plaintext', [symbol('Section', vscode.SymbolKind.Function, 1, 3), symbol('skipped', vscode.SymbolKind.Variable, 4, 4)]);
+	const section = chunks.find(chunk => chunk.name === 'Section');
+	assert.ok(section);
+	assert.deepEqual([section.kind, section.start_line, section.end_line, section.content], ['function', 2, 4, 'two\nthree\nfour']);
+	assert.ok(!chunks.some(chunk => chunk.name === 'skipped'));
+});
@@ -0,0 +1,126 @@
+import './vscode';
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { analyzeText } from '../../chunker';
+import { fitRequestExtras, planContext, PlanSignals, RequestExtras } from '../../contextPlanner';
+import { FileInfo, GitContext, WorkspaceAnalysis } from '../../types';
+
+const NOW = Date.UTC(2024, 0, 1);
+
+function file(path: string, text: string): FileInfo {
+	return { path, size: text.length, mtime: 0, languageId: 'typescript', ...analyzeText(text, 'typescript') };
+}
+
+// A file of `functions` functions of about 650 bytes each
+function bulky(path: string, functions: number, topic = 'work'): FileInfo {
+	const text = Array.from({ length: functions }, (_, i) => `export function ${topic}${i}(value: number) {\n${'\tvalue = value * 2 + 1;\n'.repeat(20)}\treturn value;\n}\n`).join('\n');
+	return file(path, text);
+}
+
+function analysis(files: FileInfo[]): WorkspaceAnalysis {
+	return { workspaceName: 'app', workspaceRoot: '/app', fingerprint: 'f', fileCount: files.length, files };
+}
+
+function signals(overrides: Partial<PlanSignals> = {}): PlanSignals {
+	return { query: '', activeFile: null, selection: null, openFiles: [], queryScores: new Map(), now: NOW, ...overrides };
+}
+
+test('ranks the active file, its imports, open tabs and query matches above the rest', () => {
+	const active = file('src/app.ts', 'import { helper } from \'./helper\';\nhelper();\n');
+	const helper = file('src/helper.ts', 'export function helper() {}\n');
+	const open = file('other/open.ts', 'export const open = 1;\n');
+	const matching = file('other/match.ts', 'export const match = 1;\n');
+	const unrelated = file('other/unrelated.ts', 'export const unrelated = 1;\n');
+	const { plan } = planContext([analysis([unrelated, matching, open, helper, active])], signals({
+		activeFile: 'src/app.ts',
+		openFiles: ['app/other/open.ts'],
+		queryScores: new Map([[matching, 0.9]])
+	}), { budgetBytes: 100_000, excerptBytes: 4000 });
+
+	assert.deepEqual(plan.files.map(planned => planned.path), ['src/app.ts', 'src/helper.ts', 'other/open.ts', 'other/match.ts', 'other/unrelated.ts']);
+	assert.deepEqual(plan.files[1].reasons, ['imports or is imported by the active file', 'near the active file']);
+	assert.ok(plan.files.every(planned => planned.treatment === 'full'));
+});
+
+test('falls back from full files to excerpts, metadata and then leaving files out as the budget shrinks', () => {
+	const files = [bulky('src/a.ts', 8, 'parse'), bulky('src/b.ts', 8), bulky('src/c.ts', 8), bulky('src/d.ts', 8)];
+	const all = analysis(files);
+	const queryScores = new Map(files.map((entry, index) => [entry, 1 - index * 0.2]));
+	const treatments = (budgetBytes: number) => {
+		const { plan } = planContext([all], signals({ query: 'parse3', queryScores }), { budgetBytes, excerptBytes: 1500 });
+		assert.ok(plan.usedBytes <= budgetBytes, `${plan.usedBytes} bytes used of ${budgetBytes}`);
+		return plan.files.map(planned => planned.treatment);
+	};
+
+	assert.deepEqual(treatments(1_000_000), ['full', 'full', 'full', 'full']);
+	assert.deepEqual(treatments(4000), ['excerpt', 'metadata', 'metadata', 'omitted']);
+	assert.deepEqual(treatments(2000), ['metadata', 'metadata', 'omitted', 'omitted']);
+	assert.deepEqual(treatments(500), ['omitted', 'omitted', 'omitted', 'omitted']);
+});
+
+test('keeps the chunks an excerpt is about and drops the content it leaves out', () => {
+	const target = bulky('src/a.ts', 8, 'parse');
+	const { analyses, plan } = planContext([analysis([target])], signals({ query: 'parse5' }), { budgetBytes: 5000, excerptBytes: 1000 });
+	assert.equal(plan.files[0].treatment, 'excerpt');
+	const [sent] = analyses[0].files;
+	assert.equal(sent.excerpt, true);
+	assert.ok(sent.chunks!.some(chunk => chunk.name === 'parse5'));
+	assert.ok(sent.chunks!.length < target.chunks!.length);
+	assert.equal(sent.redactions, undefined);
+});
+
+test('gives files only what the reserved part of the request leaves', () => {
+	const files = [bulky('src/a.ts', 2)];
+	const open = planContext([analysis(files)], signals(), { budgetBytes: 3000, excerptBytes: 1000 });
+	assert.equal(open.plan.files[0].treatment, 'full');
+
+	const reserved = planContext([analysis(files)], signals(), { budgetBytes: 3000, excerptBytes: 1000, reservedBytes: 2500 });
+	assert.notEqual(reserved.plan.files[0].treatment, 'full');
+	assert.equal(reserved.plan.reservedBytes, 2500);
+	assert.ok(reserved.plan.usedBytes >= 2500 && reserved.plan.usedBytes <= 3000);
+
+	const exhausted = planContext([analysis(files)], signals(), { budgetBytes: 3000, excerptBytes: 1000, reservedBytes: 4000 });
+	assert.equal(exhausted.plan.files[0].treatment, 'omitted');
+	assert.equal(exhausted.analyses[0].files.length, 0);
+});
+
+test('trims git history, then diffs, then the oldest turns to fit the extras', () => {
+	const git: GitContext = {
+		workspaceName: 'app',
+		workspaceRoot: '/app',
+		changes: [{ path: 'src/a.ts', status: 'modified', staged: false }, { path: 'new.ts', status: 'untracked', staged: false }],
+		unstaged: 'diff --git a/src/a.ts b/src/a.ts\n' + '+added line\n'.repeat(100),
+		history: [{ file: 'src/a.ts', commits: Array.from({ length: 20 }, (_, i) => ({ hash: `abc${i}`, author: 'dev', date: '2024-01-01', subject: `change number ${i}` })) }]
+	};
+	const history = Array.from({ length: 4 }, (_, i) => ({ query: `question ${i} ${'x'.repeat(200)}`, answers: [] }));
+	const extras: RequestExtras = { query: 'why does this fail', history, git: [git] };
+	const size = (value: RequestExtras) => Buffer.byteLength(JSON.stringify(value), 'utf-8');
+
+	const roomy = fitRequestExtras(extras, size(extras));
+	assert.deepEqual(roomy.trimmed, []);
+	assert.equal(roomy.extras, extras);
+
+	const withoutHistory = fitRequestExtras(extras, size(extras) - 100);
+	assert.deepEqual(withoutHistory.trimmed, ['git commit history']);
+	assert.equal(withoutHistory.extras.git![0].history, undefined);
+	assert.ok(withoutHistory.extras.git![0].unstaged);
+
+	const withoutDiffs = fitRequestExtras(extras, 1200);
+	assert.deepEqual(withoutDiffs.trimmed, ['git commit history', 'git diffs']);
+	assert.equal(withoutDiffs.extras.git![0].unstaged, undefined);
+	assert.deepEqual(withoutDiffs.extras.git![0].omitted, ['src/a.ts']);
+	assert.equal(withoutDiffs.extras.history.length, 4);
+	assert.ok(withoutDiffs.bytes <= 1200);
+
+	const fewerTurns = fitRequestExtras(extras, 700);
+	assert.deepEqual(fewerTurns.trimmed.slice(2), ['3 earlier turns']);
+	assert.deepEqual(fewerTurns.extras.history.map(turn => turn.query.substring(0, 10)), ['question 3']);
+	assert.equal(fewerTurns.bytes, size(fewerTurns.extras));
+	assert.ok(fewerTurns.bytes <= 700);
+
+	// The query is kept whole even past the limit
+	const overflow = fitRequestExtras(extras, 10);
+	assert.equal(overflow.extras.query, extras.query);
+	assert.equal(overflow.extras.history.length, 0);
+	assert.ok(overflow.bytes > 10);
+});
@@ -0,0 +1,27 @@
+import './vscode';
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { DeltaSync } from '../../deltaSync';
+import { WorkspaceAnalysis } from '../../types';
+
+test('counts uploaded bytes in UTF-8, not UTF-16 code units', async () => {
+	const analysis: WorkspaceAnalysis = {
+		workspaceName: 'app',
+		workspaceRoot: '/app',
+		fingerprint: 'f1',
+		fileCount: 1,
+		files: [{ path: 'greeting.ts', size: 40, mtime: 1, sample: 'export const hello = \'héllo wörld ✓\';' }]
+	};
+	let uploaded = '';
+	const result = await new DeltaSync().sync('http://backend', 'f1', [analysis], async (endpoint, body) => {
+		if (endpoint === '/sync') {
+			return Response.json({ missing: [{ workspaceRoot: '/app', paths: ['greeting.ts'] }] });
+		}
+		uploaded = body;
+		return new Response(null, { status: 204 });
+	});
+
+	assert.equal(result?.uploadedFiles, 1);
+	assert.notEqual(Buffer.byteLength(uploaded, 'utf-8'), uploaded.length);
+	assert.equal(result?.uploadedBytes, Buffer.byteLength(uploaded, 'utf-8'));
+});
@@ -0,0 +1,43 @@
+import './vscode';
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { GitContextOptions, collectGitContext } from '../../gitContext';
+
+function git(cwd: string, ...args: string[]): void {
+	execFileSync('git', ['-c', 'user.name=Test', '-c', 'user.email=test@example.com', ...args], { cwd, stdio: 'ignore' });
+}
+
+function options(maxDiffBytes: number): GitContextOptions {
+	return { maxDiffBytes, historyCommits: 0, historyFiles: [], isIncluded: async () => true, redact: text => text };
+}
+
+test('sends untracked files within the diff budget and never runs textconv filters', async () => {
+	const root = fs.mkdtempSync(path.join(os.tmpdir(), 'git-context-'));
+	try {
+		git(root, 'init', '-q');
+		fs.writeFileSync(path.join(root, 'notes.txt'), 'first\n');
+		git(root, 'add', 'notes.txt');
+		git(root, 'commit', '-q', '-m', 'Add notes');
+		// A filter that would change the diff if git ran it
+		git(root, 'config', 'diff.shout.textconv', 'tr a-z A-Z');
+		fs.writeFileSync(path.join(root, '.git', 'info', 'attributes'), '*.txt diff=shout\n');
+		fs.writeFileSync(path.join(root, 'notes.txt'), 'first\nsecond\n');
+		fs.writeFileSync(path.join(root, 'todo.txt'), 'write tests\n');
+
+		const context = await collectGitContext('repo', root, options(10000));
+		assert.match(context.unstaged ?? '', /^\+second$/m);
+		assert.match(context.unstaged ?? '', /^\+\+\+ b\/todo\.txt$/m);
+		assert.match(context.unstaged ?? '', /^\+write tests$/m);
+		assert.equal(context.omitted, undefined);
+
+		const tight = await collectGitContext('repo', root, options(Buffer.byteLength(context.unstaged!, 'utf-8') - 1));
+		assert.doesNotMatch(tight.unstaged ?? '', /todo\.txt/);
+		assert.deepEqual(tight.omitted, ['todo.txt']);
+	} finally {
+		fs.rmSync(root, { recursive: true, force: true });
+	}
+});
@@ -0,0 +1,128 @@
+import { settings, Uri } from './vscode';
+import { after, beforeEach, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type * as vscode from 'vscode';
+import { globToRegExp, IgnoreMatcher } from '../../ignoreRules';
+
+const root = fs.mkdtempSync(path.join(os.tmpdir(), 'ignore-rules-'));
+
+function write(relativePath: string, content = ''): void {
+	fs.mkdirSync(path.dirname(path.join(root, relativePath)), { recursive: true });
+	fs.writeFileSync(path.join(root, relativePath), content);
+}
+
+write('.gitignore', '# logs\n*.log\n!keep.log\nbuild/\n/dist\nout/\n!out/keep.ts\n');
+write('keep.log');
+write('debug.log');
+write('src/index.ts');
+write('src/dist/util.ts');
+write('dist/bundle.js');
+write('build/output.js');
+write('out/keep.ts');
+write('lib/.ragignore', 'generated/\n*.snap\n!important.snap\n');
+write('lib/a.ts');
+write('lib/a.snap');
+write('lib/important.snap');
+write('lib/generated/types.ts');
+write('nested/.gitignore', '!debug.log\n');
+write('nested/debug.log');
+
+const rootUri = Uri.file(root) as unknown as vscode.Uri;
+const noBuiltIns = () => undefined;
+const noInvalidRules = () => assert.fail('no ignore rule should be invalid');
+
+beforeEach(() => settings.clear());
+after(() => fs.rmSync(root, { recursive: true, force: true }));
+
+test('lists the files no rule excludes, honouring negations and nested ignore files', async () => {
+	const matcher = new IgnoreMatcher(rootUri, noBuiltIns, noInvalidRules);
+	const files = (await matcher.listFiles(100)).map(file => file.relativePath);
+	assert.deepEqual(files.sort(), [
+		'.gitignore',
+		'keep.log',
+		'lib/.ragignore',
+		'lib/a.ts',
+		'lib/important.snap',
+		'nested/.gitignore',
+		'nested/debug.log',
+		'src/dist/util.ts',
+		'src/index.ts'
+	]);
+});
+
+test('explains which rule decides a path', async () => {
+	const matcher = new IgnoreMatcher(rootUri, noBuiltIns, noInvalidRules);
+	assert.deepEqual(await matcher.explain('debug.log'), { included: false, reason: 'it matches .gitignore:2 (*.log)' });
+	assert.deepEqual(await matcher.explain('keep.log'), { included: true, reason: 'it is re-included by .gitignore:3 (!keep.log)' });
+	assert.deepEqual(await matcher.explain('nested/debug.log'), { included: true, reason: 'it is re-included by nested/.gitignore:1 (!debug.log)' });
+	assert.equal((await matcher.explain('lib/a.snap')).reason, 'it matches lib/.ragignore:2 (*.snap)');
+});
+
+test('anchors patterns with a leading slash to the ignore file directory', async () => {
+	const matcher = new IgnoreMatcher(rootUri, noBuiltIns, noInvalidRules);
+	assert.equal(await matcher.isIncluded('dist/bundle.js'), false);
+	assert.equal(await matcher.isIncluded('src/dist/util.ts'), true);
+});
+
+test('does not re-include a file whose directory is excluded', async () => {
+	const matcher = new IgnoreMatcher(rootUri, noBuiltIns, noInvalidRules);
+	const verdict = await matcher.explain('out/keep.ts');
+	assert.equal(verdict.included, false);
+	assert.equal(verdict.reason, 'its directory out/ is excluded: it matches .gitignore:6 (out/)');
+	assert.equal(await matcher.excludedParent('lib/generated/types.ts'), 'its directory lib/generated/ is excluded: it matches lib/.ragignore:1 (generated/)');
+});
+
+test('applies the include and exclude settings, and can ignore the ignore files', async () => {
+	settings.set('aiCodeSnippetRag.include', ['**/*.ts']);
+	settings.set('aiCodeSnippetRag.exclude', ['lib/**']);
+	settings.set('aiCodeSnippetRag.respectIgnoreFiles', false);
+	const matcher = new IgnoreMatcher(rootUri, noBuiltIns, noInvalidRules);
+	const files = (await matcher.listFiles(100)).map(file => file.relativePath);
+	assert.deepEqual(files.sort(), ['out/keep.ts', 'src/dist/util.ts', 'src/index.ts']);
+	assert.equal((await matcher.explain('lib/a.ts')).reason, 'it matches the aiCodeSnippetRag.exclude glob lib/**');
+	assert.match((await matcher.explain('keep.log')).reason, /matches none of the aiCodeSnippetRag.include globs/);
+});
+
+test('puts built-in exclusions first and stops at maxFiles', async () => {
+	const matcher = new IgnoreMatcher(rootUri, (relativePath, isDirectory) => isDirectory && relativePath === 'src' ? 'it is a source directory' : undefined, noInvalidRules);
+	assert.equal((await matcher.explain('src/index.ts')).reason, 'its directory src/ is excluded: it is a source directory');
+	assert.equal((await matcher.listFiles(2)).length, 2);
+});
+
+test('picks up changed ignore files after invalidate', async () => {
+	const matcher = new IgnoreMatcher(rootUri, noBuiltIns, noInvalidRules);
+	assert.equal(await matcher.isIncluded('nested/debug.log'), true);
+	write('nested/.gitignore', '');
+	assert.equal(await matcher.isIncluded('nested/debug.log'), true);
+	matcher.invalidate('nested');
+	assert.equal(await matcher.isIncluded('nested/debug.log'), false);
+});
+
+test('skips and reports an ignore line that is not a valid pattern, keeping the others', async () => {
+	const badRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'ignore-rules-'));
+	try {
+		fs.writeFileSync(path.join(badRoot, '.gitignore'), '[z-a].txt\n*.tmp\n');
+		for (const name of ['a.txt', 'b.tmp', 'c.ts']) {
+			fs.writeFileSync(path.join(badRoot, name), '');
+		}
+		const invalid: string[] = [];
+		const matcher = new IgnoreMatcher(Uri.file(badRoot) as unknown as vscode.Uri, noBuiltIns, (source, line) => invalid.push(`${source}:${line}`));
+		const files = (await matcher.listFiles(100)).map(file => file.relativePath);
+		assert.deepEqual(files, ['.gitignore', 'a.txt', 'c.ts']);
+		assert.deepEqual(invalid, ['.gitignore:1']);
+		assert.equal((await matcher.explain('b.tmp')).reason, 'it matches .gitignore:2 (*.tmp)');
+	} finally {
+		fs.rmSync(badRoot, { recursive: true, force: true });
+	}
+});
+
+test('converts settings globs with braces, ** and character classes', () => {
+	const matches = (glob: string, paths: string[]) => paths.filter(candidate => globToRegExp(glob).test(candidate));
+	assert.deepEqual(matches('**/*.{ts,tsx}', ['a.ts', 'src/b.tsx', 'src/c.js']), ['a.ts', 'src/b.tsx']);
+	assert.deepEqual(matches('src/**', ['src/a.ts', 'src/deep/b.ts', 'lib/src/c.ts']), ['src/a.ts', 'src/deep/b.ts']);
+	assert.deepEqual(matches('./test/*.spec.[jt]s', ['test/a.spec.ts', 'test/a.spec.js', 'test/deep/b.spec.ts']), ['test/a.spec.ts', 'test/a.spec.js']);
+	assert.deepEqual(matches('file?.txt', ['file1.txt', 'file12.txt', 'file/.txt']), ['file1.txt']);
+});
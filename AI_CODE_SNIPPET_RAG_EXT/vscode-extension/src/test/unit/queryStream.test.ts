@@ -0,0 +1,58 @@
+import './vscode';
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { readQueryStream, readRecords } from '../../queryStream';
+import { QueryStreamEvent } from '../../types';
+
+function ndjson(lines: string[]): Response {
+	return new Response(lines.join('\n') + '\n', { headers: { 'content-type': 'application/x-ndjson' } });
+}
+
+const answer = (file: string) => JSON.stringify({ type: 'answer', answer: { file, start_line: 1, end_line: 2, code: 'x', score: 1 } });
+
+test('drops malformed events and invalid answers and keeps explanations with their answers', async () => {
+	const events: QueryStreamEvent[] = [];
+	const { response, dropped } = await readQueryStream(ndjson([
+		answer('a.ts'),
+		'{"type": "answer", "answer": {"file": "b.ts"}}',
+		'not json',
+		answer('c.ts'),
+		'{"type": "explanation", "index": 1, "text": "for b"}',
+		'{"type": "explanation", "index": 2, "text": "for c"}',
+		'{"type": "done"}'
+	]), 1000, event => events.push(event));
+
+	assert.deepEqual(response.answers.map(a => [a.file, a.explanation]), [['a.ts', ''], ['c.ts', 'for c']]);
+	assert.equal(dropped.length, 2);
+	assert.match(dropped[0], /^answer 2: b\.ts:/);
+	assert.match(dropped[1], /^Stream event is not valid JSON .*: not json$/);
+	assert.deepEqual(events.filter(event => event.type === 'explanation'), [{ type: 'explanation', index: 1, text: 'for c' }]);
+});
+
+// A body that sends its lines and then stays open, recording whether the reader cancelled it
+function openStream(lines: string[]): { response: Response; cancelled: () => boolean } {
+	let cancelled = false;
+	const body = new ReadableStream<Uint8Array>({
+		start(controller) {
+			controller.enqueue(new TextEncoder().encode(lines.map(line => `${line}\n`).join('')));
+		},
+		cancel() {
+			cancelled = true;
+		}
+	});
+	return { response: new Response(body, { headers: { 'content-type': 'application/x-ndjson' } }), cancelled: () => cancelled };
+}
+
+test('cancels the body when a record handler throws', async () => {
+	const stream = openStream(['{"type": "notice", "text": "one"}']);
+	await assert.rejects(readRecords(stream.response, 1000, () => {
+		throw new Error('handler failed');
+	}), /handler failed/);
+	assert.ok(stream.cancelled());
+});
+
+test('cancels the body on a server error event', async () => {
+	const stream = openStream(['{"type": "error", "message": "index unavailable"}']);
+	await assert.rejects(readQueryStream(stream.response, 1000, () => undefined), /Backend stream error: index unavailable/);
+	assert.ok(stream.cancelled());
+});
@@ -0,0 +1,70 @@
+import './vscode';
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { BackendSchemaError } from '../../backendClient';
+import { checkAnswer, checkStreamEvent, validateQueryResponse } from '../../responseSchema';
+
+const answer = { file: 'src/a.ts', start_line: 3, end_line: 8, code: 'const a = 1;', score: 0.8, explanation: 'Declares a' };
+
+test('accepts a valid answer and drops optional fields of the wrong type', () => {
+	const check = checkAnswer({ ...answer, id: 42, languageId: 'typescript' });
+	assert.ok(check.ok);
+	assert.equal(check.answer.id, undefined);
+	assert.equal(check.answer.languageId, 'typescript');
+});
+
+test('defaults a missing or null explanation to an empty one', () => {
+	const check = checkAnswer({ ...answer, explanation: null });
+	assert.ok(check.ok);
+	assert.equal(check.answer.explanation, '');
+});
+
+test('rejects malformed answers with every problem named', () => {
+	const cases: Array<[unknown, string]> = [
+		[null, 'is null, not an object'],
+		[[answer], 'is an array, not an object'],
+		[{ ...answer, file: '' }, '"file" is empty'],
+		[{ ...answer, start_line: 0 }, '"start_line" is 0, not a line number'],
+		[{ ...answer, start_line: 2.5 }, '"start_line" is 2.5, not a line number'],
+		[{ ...answer, end_line: 2 }, 'src/a.ts: "end_line" 2 is before "start_line" 3'],
+		[{ ...answer, code: undefined }, 'src/a.ts: "code" is missing, not a string'],
+		[{ ...answer, score: NaN }, 'src/a.ts: "score" is NaN, not a number'],
+		[{ ...answer, score: '0.8' }, 'src/a.ts: "score" is a string, not a number'],
+		[{ ...answer, explanation: 7 }, 'src/a.ts: "explanation" is a number, not a string']
+	];
+	for (const [value, problem] of cases) {
+		const check = checkAnswer(value);
+		assert.equal(check.ok, false, JSON.stringify(value));
+		assert.ok(!check.ok && check.problem.includes(problem), `${!check.ok && check.problem} should include ${problem}`);
+	}
+
+	const check = checkAnswer({ file: 5, end_line: -1 });
+	assert.ok(!check.ok);
+	for (const field of ['file', 'start_line', 'end_line', 'code', 'score']) {
+		assert.ok(check.problem.includes(`"${field}"`), `${check.problem} should name ${field}`);
+	}
+});
+
+test('throws a schema error for bodies that are not a response', () => {
+	assert.throws(() => validateQueryResponse('<html>', '/query'), BackendSchemaError);
+	assert.throws(() => validateQueryResponse([], '/query'), /returned an array/);
+	assert.throws(() => validateQueryResponse({ results: [] }, '/query'), /no "answers" list \(it is missing\)/);
+});
+
+test('leaves out invalid answers one by one and keeps the rest', () => {
+	const { response, dropped } = validateQueryResponse({ answers: [answer, { ...answer, code: 1 }, 'oops', answer], notice: 'partial', reply: 3 }, '/query');
+	assert.equal(response.answers.length, 2);
+	assert.equal(response.notice, 'partial');
+	assert.equal(response.reply, undefined);
+	assert.deepEqual(dropped.map(problem => problem.substring(0, 9)), ['answer 2:', 'answer 3:']);
+});
+
+test('checks the shape of known stream events and skips unknown ones', () => {
+	assert.deepEqual(checkStreamEvent({ type: 'explanation', index: 1, text: 'why' }), { type: 'explanation', index: 1, text: 'why' });
+	assert.deepEqual(checkStreamEvent({ type: 'error' }), { type: 'error', message: 'unknown error' });
+	assert.equal(checkStreamEvent({ type: 'progress', percent: 50 }), undefined);
+	assert.throws(() => checkStreamEvent({ type: 'explanation', index: '1', text: 'why' }), /invalid "index" \(a string\)/);
+	assert.throws(() => checkStreamEvent({ type: 'reply' }), /invalid "text" \(missing\)/);
+	assert.throws(() => checkStreamEvent({ text: 'no type' }), /missing its "type"/);
+	assert.throws(() => checkStreamEvent(42), BackendSchemaError);
+});
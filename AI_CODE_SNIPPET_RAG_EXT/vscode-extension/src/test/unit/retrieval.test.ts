@@ -0,0 +1,67 @@
+import './vscode';
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { analyzeText } from '../../chunker';
+import { LocalIndex, tokenize } from '../../retrieval';
+import { FileInfo } from '../../types';
+
+function file(path: string, text: string, languageId = 'typescript'): FileInfo {
+	return { path, size: text.length, mtime: 0, languageId, ...analyzeText(text, languageId) };
+}
+
+test('tokenizes identifiers on camelCase and snake_case and keeps the whole identifier', () => {
+	assert.deepEqual(tokenize('parseHTTPResponse'), ['parse', 'http', 'response', 'parsehttpresponse']);
+	assert.deepEqual(tokenize('max_file_size'), ['max', 'file', 'size', 'max_file_size']);
+	assert.deepEqual(tokenize('where is the token'), ['token']);
+});
+
+test('ranks the file that matches the query terms best first', () => {
+	const index = new LocalIndex([
+		file('src/auth.ts', 'export function refreshToken(token: string) {\n\treturn token;\n}\n'),
+		file('src/math.ts', 'export function add(a: number, b: number) {\n\treturn a + b;\n}\n'),
+		file('src/session.ts', 'export function startSession() {\n\t// keeps the token alive\n}\n')
+	]);
+	const hits = index.search('refresh token', 5);
+	assert.deepEqual(hits.map(hit => hit.file.path), ['src/auth.ts', 'src/session.ts']);
+	assert.ok(hits[0].score > hits[1].score);
+	assert.equal(hits[0].symbol, 'refreshToken');
+	assert.deepEqual([hits[0].startLine, hits[0].endLine], [1, 3]);
+	assert.deepEqual(index.search('nothing matches', 5), []);
+});
+
+test('rare terms outweigh common ones', () => {
+	const common = Array.from({ length: 5 }, (_, i) => file(`src/common${i}.ts`, 'const config = load();\n'));
+	const index = new LocalIndex([...common, file('src/rare.ts', 'const checksum = verify();\n')]);
+	assert.equal(index.search('config checksum', 1)[0].file.path, 'src/rare.ts');
+});
+
+test('forgets removed and replaced files', () => {
+	const index = new LocalIndex([file('a.ts', 'const widget = 1;\n'), file('b.ts', 'const gadget = 1;\n')]);
+	index.remove('a.ts');
+	assert.equal(index.size, 1);
+	assert.deepEqual(index.search('widget', 5), []);
+	index.upsert(file('b.ts', 'const widget = 2;\n'));
+	assert.deepEqual(index.search('gadget', 5), []);
+	assert.equal(index.search('widget', 5)[0].file.path, 'b.ts');
+});
+
+test('finds definitions by name, preferring a named container and then exported declarations', () => {
+	const index = new LocalIndex([
+		file('src/local.ts', 'function search(query: string) {\n\treturn [];\n}\n'),
+		file('src/exported.ts', 'export function search(query: string) {\n\treturn [query];\n}\n'),
+		file('src/index.ts', 'export class LocalIndex {\n\tpublic search(query: string) {\n\t\treturn query;\n\t}\n}\n')
+	]);
+
+	const plain = index.findDefinitions('where is search defined', 5);
+	assert.equal(plain[0].file.path, 'src/exported.ts');
+	assert.equal(plain.length, 3);
+
+	const qualified = index.findDefinitions('LocalIndex.search', 5);
+	assert.equal(qualified[0].symbol, 'LocalIndex.search');
+	assert.deepEqual([qualified[0].startLine, qualified[0].endLine], [2, 4]);
+	assert.equal(qualified[0].code, '\tpublic search(query: string) {\n\t\treturn query;\n\t}');
+
+	index.remove('src/exported.ts');
+	assert.ok(!index.findDefinitions('search', 5).some(hit => hit.file.path === 'src/exported.ts'));
+	assert.deepEqual(index.findDefinitions('the', 5), []);
+});
@@ -0,0 +1,74 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import Module = require('module');
+
+// The parts of the vscode API the modules under test touch, so they run under plain Node.
+// Import this before any module that imports vscode.
+
+// Settings read through workspace.getConfiguration, by "section.key"
+export const settings = new Map<string, unknown>();
+
+export class Uri {
+	private constructor(public readonly fsPath: string) {}
+
+	static file(fsPath: string): Uri {
+		return new Uri(fsPath);
+	}
+
+	static joinPath(base: Uri, ...segments: string[]): Uri {
+		return new Uri(path.join(base.fsPath, ...segments));
+	}
+
+	toString(): string {
+		return `file://${this.fsPath}`;
+	}
+}
+
+export enum FileType {
+	Unknown = 0,
+	File = 1,
+	Directory = 2,
+	SymbolicLink = 64
+}
+
+export enum SymbolKind {
+	File = 0, Module = 1, Namespace = 2, Package = 3, Class = 4, Method = 5, Property = 6, Field = 7, Constructor = 8,
+	Enum = 9, Interface = 10, Function = 11, Variable = 12, Constant = 13, String = 14, Number = 15, Boolean = 16,
+	Array = 17, Object = 18, Key = 19, Null = 20, EnumMember = 21, Struct = 22, Event = 23, Operator = 24, TypeParameter = 25
+}
+
+async function fileType(fsPath: string): Promise<FileType> {
+	const link = await fs.promises.lstat(fsPath);
+	const target = link.isSymbolicLink() ? await fs.promises.stat(fsPath) : link;
+	const type = target.isDirectory() ? FileType.Directory : target.isFile() ? FileType.File : FileType.Unknown;
+	return link.isSymbolicLink() ? type | FileType.SymbolicLink : type;
+}
+
+export const workspace = {
+	textDocuments: [],
+	getConfiguration: (section: string) => ({
+		get: <T>(key: string, defaultValue: T): T => settings.has(`${section}.${key}`) ? settings.get(`${section}.${key}`) as T : defaultValue
+	}),
+	fs: {
+		readFile: (uri: Uri): Promise<Uint8Array> => fs.promises.readFile(uri.fsPath),
+		readDirectory: async (uri: Uri): Promise<Array<[string, FileType]>> => {
+			const names = await fs.promises.readdir(uri.fsPath);
+			return Promise.all(names.map(async (name): Promise<[string, FileType]> => [name, await fileType(path.join(uri.fsPath, name))]));
+		},
+		createDirectory: async (uri: Uri): Promise<void> => {
+			await fs.promises.mkdir(uri.fsPath, { recursive: true });
+		},
+		writeFile: (uri: Uri, content: Uint8Array): Promise<void> => fs.promises.writeFile(uri.fsPath, content),
+		delete: (uri: Uri, options?: { recursive?: boolean }): Promise<void> => fs.promises.rm(uri.fsPath, { recursive: options?.recursive })
+	}
+};
+
+export const commands = {
+	executeCommand: async (): Promise<undefined> => undefined
+};
+
+const standIn = { Uri, FileType, SymbolKind, workspace, commands };
+const load = Module.prototype.require;
+Module.prototype.require = Object.assign(function (this: NodeJS.Module, id: string) {
+	return id === 'vscode' ? standIn : load.call(this, id);
+}, load);
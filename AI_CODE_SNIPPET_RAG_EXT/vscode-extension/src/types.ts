@@ -0,0 +1,352 @@
+export type ChunkKind = 'function' | 'method' | 'class' | 'interface' | 'type' | 'enum' | 'module' | 'section' | 'block';
+
+export interface CodeChunk {
+	name?: string;
+	kind: ChunkKind;
+	start_line: number;
+	end_line: number;
+	content: string;
+}
+
+export type CodeSymbolKind = 'class' | 'interface' | 'type' | 'enum' | 'module' | 'function' | 'method' | 'variable';
+
+// A declaration in a file, so queries can name it rather than match its text
+export interface CodeSymbol {
+	name: string;
+	kind: CodeSymbolKind;
+	// 1-based, inclusive
+	start_line: number;
+	end_line: number;
+	// The class, interface or module it is declared in, qualified like chunk names
+	container?: string;
+	// Set on top-level declarations only: whether other modules can use it
+	exported?: boolean;
+}
+
+// A secret replaced in file content before it was sampled
+export interface Redaction {
+	detector: string;
+	line: number;
+}
+
+export interface FileInfo {
+	path: string;
+	size: number;
+	mtime: number;
+	languageId?: string;
+	sample?: string;
+	chunks?: CodeChunk[];
+	// Classes, functions, methods and exports of the whole file, in file order
+	symbols?: CodeSymbol[];
+	// Kept locally for the payload preview; not sent to the backend
+	redactions?: Redaction[];
+	// Only the chunks or the start of the file that the context plan kept are sent
+	excerpt?: boolean;
+}
+
+// How much of each file is read: the sample kept for it, and the largest file chunked and indexed in full
+export interface ReadLimits {
+	maxBytesPerFile: number;
+	maxChunkedFileBytes: number;
+}
+
+export interface WorkspaceAnalysis {
+	workspaceName: string;
+	workspaceRoot: string;
+	fingerprint: string;
+	fileCount: number;
+	files: FileInfo[];
+}
+
+export interface RootContext {
+	workspaceName: string;
+	workspaceRoot: string;
+	fingerprint: string;
+	fileCount: number;
+	files: FileInfo[];
+}
+
+// A reference to an answer of an earlier turn; the code itself is not sent again
+export interface TurnAnswerReference {
+	file: string;
+	start_line: number;
+	end_line: number;
+	explanation?: string;
+}
+
+// An earlier question and what it was answered with, so follow-ups can refer back to it
+export interface ConversationTurn {
+	query: string;
+	answers: TurnAnswerReference[];
+	// The prose reply, from providers that give one
+	reply?: string;
+	// Shortened to fit the history budget: query truncated, explanations and reply left out
+	summarized?: boolean;
+}
+
+// Where queries are answered: the RAG backend, an OpenAI-compatible chat completions server fed
+// with locally retrieved code, or the local retrieval index alone
+export type QueryProviderId = 'rag' | 'openai' | 'mock';
+
+// What a provider supports; the chat, the sidebar and feedback adapt to it
+export interface ProviderCapabilities {
+	// Answers are shown as they arrive
+	streaming: boolean;
+	// Ratings of its answers can be sent to it
+	feedback: boolean;
+	// The /sync handshake that uploads only files the server lacks
+	deltaUpload: boolean;
+	// Has a server whose health can be checked
+	healthCheck: boolean;
+	// Code leaves the machine
+	sendsCode: boolean;
+}
+
+export interface ProviderInfo {
+	id: QueryProviderId;
+	label: string;
+	// Base URL of its server, if it has one
+	url?: string;
+	capabilities: ProviderCapabilities;
+}
+
+// What a query asks for; chat slash commands pick one, plain questions are "ask"
+export type QueryIntent = 'ask' | 'find' | 'explain' | 'usages' | 'tests' | 'summary' | 'similar' | 'changes';
+
+// Code from the editor a query is about, sent as it is in the editor (secrets redacted)
+export interface QueryAnchor {
+	file: string;
+	// 1-based, inclusive
+	startLine: number;
+	endLine: number;
+	code: string;
+	// The function or class the code belongs to, when known
+	symbol?: string;
+	// The code was cut to maxBytesPerFile
+	truncated?: boolean;
+}
+
+export interface GitChangedFile {
+	// Relative to the workspace root
+	path: string;
+	status: 'added' | 'modified' | 'deleted' | 'renamed' | 'copied' | 'unmerged' | 'untracked';
+	staged: boolean;
+}
+
+export interface GitCommit {
+	// Abbreviated
+	hash: string;
+	author: string;
+	// ISO 8601
+	date: string;
+	subject: string;
+}
+
+// The state of a workspace root's repository: what is being worked on and what changed recently
+export interface GitContext {
+	workspaceName: string;
+	workspaceRoot: string;
+	// Undefined on a detached HEAD
+	branch?: string;
+	// Undefined before the first commit
+	head?: string;
+	// Staged, unstaged and untracked files, without those kept out of the outgoing context
+	changes: GitChangedFile[];
+	// Unified diffs, secrets redacted; unstaged ends with the content of untracked files, as new-file diffs
+	staged?: string;
+	unstaged?: string;
+	// Changed files whose diff did not fit gitMaxDiffBytes
+	omitted?: string[];
+	// Recent commits of the files the query is about
+	history?: Array<{ file: string; commits: GitCommit[] }>;
+}
+
+export interface QueryRequest {
+	query: string;
+	intent: QueryIntent;
+	anchor?: QueryAnchor;
+	// Earlier turns of the conversation, oldest first
+	history?: ConversationTurn[];
+	// One entry per root in a git repository, when git context is on or the intent is "changes"
+	git?: GitContext[];
+	repo_context: {
+		workspaceName: string;
+		workspaceRoot: string;
+		fingerprint: string;
+		fileCount: number;
+		activeFile: string | null;
+		selection: { startLine: number; endLine: number } | null;
+		// "fingerprint": files were synced beforehand and no file content is sent
+		context_mode: 'full' | 'fingerprint';
+		// One entry per workspace root, for backends that support several
+		roots?: RootContext[];
+		// The files of every root in one list, for backends that take a single one; paths carry the root name when there are several roots
+		files?: FileInfo[];
+	};
+}
+
+export interface ManifestEntry {
+	path: string;
+	hash: string;
+}
+
+export interface SyncManifestRequest {
+	fingerprint: string;
+	roots: Array<{
+		workspaceName: string;
+		workspaceRoot: string;
+		fingerprint: string;
+		manifest: ManifestEntry[];
+	}>;
+}
+
+export interface SyncManifestResponse {
+	// Files the backend does not hold, or holds with a different hash
+	missing: Array<{ workspaceRoot: string; paths: string[] }>;
+}
+
+export interface SyncUploadRequest {
+	fingerprint: string;
+	roots: Array<{
+		workspaceRoot: string;
+		fingerprint: string;
+		files: FileInfo[];
+	}>;
+}
+
+export interface AnalysisUpdate {
+	workspaceName: string;
+	created: number;
+	changed: number;
+	deleted: number;
+	fingerprint: string;
+}
+
+export interface QueryAnswer {
+	// Backend identifier of the answer, echoed back with feedback on it
+	id?: string;
+	file: string;
+	start_line: number;
+	end_line: number;
+	code: string;
+	score: number;
+	explanation: string;
+	// Language of the code, as a VS Code language id; taken from the file extension when absent
+	languageId?: string;
+}
+
+// Whether the file an answer cites still holds its code at the cited lines
+export type AnswerState = 'current' | 'moved' | 'changed' | 'missing';
+
+export interface QueryResponse {
+	answers: QueryAnswer[];
+	notice?: string;
+	// A reply to the query as a whole, shown above the answers; generative providers answer in prose
+	reply?: string;
+	// Set by the extension when the answers come from the local retrieval index
+	local?: boolean;
+}
+
+// The query a set of answers was given for, which feedback on them refers to
+export interface AnswerContext {
+	query: string;
+	intent: QueryIntent;
+	fingerprint: string;
+	// Answered from the local retrieval index, so the backend has nothing to learn from feedback on it
+	local?: boolean;
+}
+
+export type FeedbackRating = 'up' | 'down';
+
+// queued: waiting for the backend; local: kept on this machine only (offline answers, or sending turned off);
+// unsupported: the backend has no /feedback endpoint; rejected: the backend refused it
+export type FeedbackStatus = 'queued' | 'sent' | 'local' | 'unsupported' | 'rejected';
+
+export interface FeedbackRequest {
+	// Lets the backend ignore a retried submission it already has
+	id: string;
+	rating: FeedbackRating;
+	comment?: string;
+	query: string;
+	intent: QueryIntent;
+	fingerprint: string;
+	answer: {
+		id?: string;
+		file: string;
+		start_line: number;
+		end_line: number;
+		score: number;
+		// SHA-256 of the answer's code
+		code_hash: string;
+	};
+	timestamp: string;
+}
+
+export interface FeedbackEntry {
+	request: FeedbackRequest;
+	serverUrl: string;
+	status: FeedbackStatus;
+	attempts: number;
+	lastError?: string;
+}
+
+// A message of a sidebar conversation; assistant messages keep the structured answers they showed
+export interface ConversationMessage {
+	role: 'user' | 'assistant';
+	content: string;
+	timestamp: number;
+	answers?: QueryAnswer[];
+	notice?: string;
+	reply?: string;
+	// The query the answers were given for
+	context?: AnswerContext;
+}
+
+export interface ConversationSession {
+	id: string;
+	// Unset until renamed; the first question names the session meanwhile
+	name?: string;
+	createdAt: number;
+	updatedAt: number;
+	messages: ConversationMessage[];
+}
+
+// Events of a streamed /query response; explanation text follows the answer it belongs to
+export type QueryStreamEvent =
+	| { type: 'answer'; answer: QueryAnswer }
+	| { type: 'explanation'; index: number; text: string }
+	| { type: 'notice'; text: string }
+	// Text appended to the reply to the query as a whole
+	| { type: 'reply'; text: string }
+	| { type: 'error'; message: string }
+	| { type: 'done' };
+
+export interface OutgoingFilePreview {
+	path: string;
+	bytes: number;
+	// How the context plan sends the file, when a budget applies
+	treatment?: 'full' | 'excerpt' | 'metadata';
+	chunks: number;
+	redactions: Redaction[];
+}
+
+// What the next query would send: "offline" sends nothing, "delta" uploads only what the backend lacks,
+// "snippets" sends only the code retrieved locally for the query
+export interface OutgoingContextPreview {
+	mode: 'offline' | 'full' | 'delta' | 'snippets';
+	// The provider that would answer
+	provider: ProviderInfo;
+	serverUrl: string;
+	// Delta mode with the current fingerprint already synced, so the next query sends no file content
+	synced: boolean;
+	// Bytes the files of a full upload are fitted to, when a budget is set
+	contextBudget?: number;
+	fileCount: number;
+	totalBytes: number;
+	roots: Array<{
+		workspaceName: string;
+		workspaceRoot: string;
+		files: OutgoingFilePreview[];
+		sessionExclusions: string[];
+	}>;
+}
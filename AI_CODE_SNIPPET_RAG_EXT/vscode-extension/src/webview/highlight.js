@@ -0,0 +1,289 @@
+// Syntax highlighting for code in the sidebar. Tokens become spans built with textContent,
+// so highlighted code never passes through innerHTML.
+(function() {
+    // Longer code is shown plain rather than holding up the view
+    const MAX_HIGHLIGHT_LENGTH = 100000;
+
+    const C_COMMENTS = [
+        ['comment', /\/\/.*/y],
+        ['comment', /\/\*[\s\S]*?(?:\*\/|$)/y]
+    ];
+    const HASH_COMMENT = ['comment', /#.*/y];
+    const DOUBLE_STRING = ['string', /"(?:[^"\\\n]|\\.)*"?/y];
+    const SINGLE_STRING = ['string', /'(?:[^'\\\n]|\\.)*'?/y];
+    const BACKTICK_STRING = ['string', /`(?:[^`\\]|\\[\s\S])*`?/y];
+    const NUMBER = ['number', /(?:0[xXbBoO][\da-fA-F_]+|\d[\d_]*(?:\.[\d_]+)?(?:[eE][+-]?\d+)?)[a-zA-Z]*/y];
+
+    function words(text) {
+        return new Set(text.split(/\s+/).filter(Boolean));
+    }
+
+    const C_LIKE_LITERALS = words('true false null');
+
+    // rules are tried in order at each position; identifiers are then classed by the word lists.
+    // capitalizedTypes marks Capitalized identifiers as types.
+    const GRAMMARS = {
+        typescript: {
+            rules: [...C_COMMENTS, DOUBLE_STRING, SINGLE_STRING, BACKTICK_STRING, ['type', /@[\w.]+/y], NUMBER],
+            keywords: words('abstract as async await break case catch class const constructor continue debugger declare default delete do else enum export extends finally for from function get if implements import in instanceof interface keyof let namespace new of private protected public readonly return satisfies set static super switch this throw try type typeof var void while with yield'),
+            literals: words('true false null undefined NaN Infinity'),
+            types: words('string number boolean any unknown never object symbol bigint'),
+            capitalizedTypes: true
+        },
+        python: {
+            rules: [HASH_COMMENT, ['string', /[rRbBuUfF]{0,2}"""[\s\S]*?(?:"""|$)/y], ['string', /[rRbBuUfF]{0,2}'''[\s\S]*?(?:'''|$)/y],
+                ['string', /[rRbBuUfF]{0,2}"(?:[^"\\\n]|\\.)*"?/y], ['string', /[rRbBuUfF]{0,2}'(?:[^'\\\n]|\\.)*'?/y], ['type', /@[\w.]+/y], NUMBER],
+            keywords: words('and as assert async await break class continue def del elif else except finally for from global if import in is lambda match case nonlocal not or pass raise return try while with yield self cls'),
+            literals: words('True False None'),
+            types: words('int float str bool list dict set tuple bytes object type'),
+            capitalizedTypes: true
+        },
+        java: {
+            rules: [...C_COMMENTS, ['string', /"""[\s\S]*?(?:"""|$)/y], DOUBLE_STRING, SINGLE_STRING, ['type', /@\w+/y], NUMBER],
+            keywords: words('abstract assert break case catch class continue default do else enum extends final finally for if implements import instanceof interface native new package private protected public record return static super switch synchronized this throw throws transient try var void volatile while yield'),
+            literals: C_LIKE_LITERALS,
+            types: words('boolean byte char double float int long short'),
+            capitalizedTypes: true
+        },
+        csharp: {
+            rules: [...C_COMMENTS, ['string', /[$@]{1,2}"(?:[^"]|"")*"?/y], DOUBLE_STRING, SINGLE_STRING, ['type', /\[\w+(?=[\](])/y], NUMBER],
+            keywords: words('abstract as async await base break case catch checked class const continue default delegate do else enum event explicit extern finally fixed for foreach get goto if implicit in init interface internal is lock namespace new operator out override params partial private protected public readonly record ref return sealed set sizeof stackalloc static struct switch this throw try typeof unchecked unsafe using var virtual void volatile when where while yield'),
+            literals: C_LIKE_LITERALS,
+            types: words('bool byte char decimal double dynamic float int long object sbyte short string uint ulong ushort'),
+            capitalizedTypes: true
+        },
+        go: {
+            rules: [...C_COMMENTS, DOUBLE_STRING, ['string', /`[^`]*`?/y], SINGLE_STRING, NUMBER],
+            keywords: words('break case chan const continue default defer else fallthrough for func go goto if import interface map package range return select struct switch type var'),
+            literals: words('true false nil iota'),
+            types: words('bool byte complex64 complex128 error float32 float64 int int8 int16 int32 int64 rune string uint uint8 uint16 uint32 uint64 uintptr any'),
+            capitalizedTypes: false
+        },
+        rust: {
+            rules: [...C_COMMENTS, DOUBLE_STRING, ['string', /'(?:[^'\\\n]|\\.)'/y], ['type', /'[a-z_]\w*/y], ['type', /#!?\[[^\]\n]*\]/y], NUMBER],
+            keywords: words('as async await break const continue crate dyn else enum extern fn for if impl in let loop match mod move mut pub ref return self Self static struct super trait type unsafe use where while'),
+            literals: words('true false None Some Ok Err'),
+            types: words('bool char f32 f64 i8 i16 i32 i64 i128 isize str u8 u16 u32 u64 u128 usize String Vec Option Result Box'),
+            capitalizedTypes: true
+        },
+        c: {
+            rules: [...C_COMMENTS, ['type', /#\s*\w+/y], DOUBLE_STRING, SINGLE_STRING, NUMBER],
+            keywords: words('auto break case catch class const constexpr continue default delete do else enum explicit extern for friend goto if inline namespace new noexcept operator override private protected public register return sizeof static struct switch template this throw try typedef typename union using virtual volatile while'),
+            literals: words('true false NULL nullptr nil YES NO'),
+            types: words('bool char double float int long short signed unsigned void size_t auto std string vector id'),
+            capitalizedTypes: true
+        },
+        swift: {
+            rules: [...C_COMMENTS, ['string', /"""[\s\S]*?(?:"""|$)/y], DOUBLE_STRING, ['type', /@\w+/y], NUMBER],
+            keywords: words('actor as async await break case catch class continue default defer do else enum extension fileprivate for func guard if import in init inout internal is let mutating open private protocol public return self Self static struct subscript super switch throw throws try var where while'),
+            literals: words('true false nil'),
+            types: words('Any Bool Character Double Float Int String Void'),
+            capitalizedTypes: true
+        },
+        kotlin: {
+            rules: [...C_COMMENTS, ['string', /"""[\s\S]*?(?:"""|$)/y], DOUBLE_STRING, SINGLE_STRING, ['type', /@\w+/y], NUMBER],
+            keywords: words('abstract as break by class companion const continue data do else enum fun for if import in init interface internal is lateinit object open override package private protected public return sealed super suspend this throw try typealias val var when while'),
+            literals: words('true false null'),
+            types: words('Any Boolean Char Double Float Int Long String Unit'),
+            capitalizedTypes: true
+        },
+        php: {
+            rules: [...C_COMMENTS, HASH_COMMENT, DOUBLE_STRING, SINGLE_STRING, ['variable', /\$\w+/y], NUMBER],
+            keywords: words('abstract as break case catch class const continue declare default do echo else elseif enum extends final finally fn for foreach function global if implements include interface match namespace new private protected public readonly require return static switch throw trait try use var while yield'),
+            literals: words('true false null TRUE FALSE NULL'),
+            types: words('array bool callable float int iterable mixed object string void'),
+            capitalizedTypes: true
+        },
+        ruby: {
+            rules: [HASH_COMMENT, DOUBLE_STRING, SINGLE_STRING, ['variable', /@{1,2}\w+/y], ['string', /:\w+/y], NUMBER],
+            keywords: words('alias and begin break case class def defined do else elsif end ensure for if in module next not or redo rescue retry return self super then unless until when while yield require attr_accessor attr_reader'),
+            literals: words('true false nil'),
+            types: new Set(),
+            capitalizedTypes: true
+        },
+        lua: {
+            rules: [['comment', /--\[\[[\s\S]*?(?:\]\]|$)/y], ['comment', /--.*/y], DOUBLE_STRING, SINGLE_STRING, ['string', /\[\[[\s\S]*?(?:\]\]|$)/y], NUMBER],
+            keywords: words('and break do else elseif end for function goto if in local not or repeat return then until while'),
+            literals: words('true false nil'),
+            types: new Set(),
+            capitalizedTypes: false
+        },
+        shellscript: {
+            rules: [HASH_COMMENT, DOUBLE_STRING, ['string', /'[^']*'?/y], ['variable', /\$(?:\{[^}\n]*\}?|[\w@#?*!$-])/y], NUMBER],
+            keywords: words('if then else elif fi for while until do done case esac function in select return exit local export readonly set unset source'),
+            literals: words('true false'),
+            types: new Set(),
+            capitalizedTypes: false
+        },
+        powershell: {
+            rules: [['comment', /<#[\s\S]*?(?:#>|$)/y], HASH_COMMENT, DOUBLE_STRING, ['string', /'[^']*'?/y], ['variable', /\$[\w:]+/y], ['type', /\[[\w.]+\]/y], NUMBER],
+            keywords: words('begin break catch class continue do else elseif end exit filter finally for foreach function if in param process return switch throw trap try until while'),
+            literals: new Set(),
+            types: new Set(),
+            capitalizedTypes: false
+        },
+        bat: {
+            rules: [['comment', /(?:rem\b|::).*/yi], DOUBLE_STRING, ['variable', /%[\w~]+%?/y], NUMBER],
+            keywords: words('call cd echo else exit for goto if in not set setlocal endlocal shift start do exist defined'),
+            literals: new Set(),
+            types: new Set(),
+            capitalizedTypes: false
+        },
+        sql: {
+            rules: [['comment', /--.*/y], ['comment', /\/\*[\s\S]*?(?:\*\/|$)/y], SINGLE_STRING, DOUBLE_STRING, NUMBER],
+            keywords: words('select from where and or not insert into values update set delete create table view index drop alter add primary key foreign references join left right inner outer full on group by order having limit offset as distinct union all case when then else end is in like between exists returning with'),
+            literals: words('null true false'),
+            types: words('int integer bigint smallint varchar char text boolean date timestamp decimal numeric float real serial uuid json jsonb'),
+            caseInsensitive: true,
+            capitalizedTypes: false
+        },
+        json: {
+            rules: [...C_COMMENTS, ['property', /"(?:[^"\\\n]|\\.)*"(?=\s*:)/y], DOUBLE_STRING, NUMBER],
+            keywords: new Set(),
+            literals: C_LIKE_LITERALS,
+            types: new Set(),
+            capitalizedTypes: false
+        },
+        yaml: {
+            rules: [HASH_COMMENT, ['property', /[\w.-]+(?=\s*:(?:\s|$))/y], DOUBLE_STRING, SINGLE_STRING, ['type', /[&*!][\w-]+/y], NUMBER],
+            keywords: new Set(),
+            literals: words('true false null yes no on off ~'),
+            types: new Set(),
+            capitalizedTypes: false
+        },
+        toml: {
+            rules: [HASH_COMMENT, ['type', /^\s*\[\[?[^\]\n]*\]\]?/my], ['property', /[\w.-]+(?=\s*=)/y], ['string', /"""[\s\S]*?(?:"""|$)/y], DOUBLE_STRING, SINGLE_STRING, NUMBER],
+            keywords: new Set(),
+            literals: words('true false'),
+            types: new Set(),
+            capitalizedTypes: false
+        },
+        css: {
+            rules: [['comment', /\/\*[\s\S]*?(?:\*\/|$)/y], ['comment', /\/\/.*/y], DOUBLE_STRING, SINGLE_STRING, ['keyword', /@[\w-]+/y],
+                ['property', /[\w-]+(?=\s*:[^:{;]*[;}\n])/y], ['number', /#[\da-fA-F]{3,8}\b/y], ['variable', /(?:--|\$)[\w-]+/y], NUMBER],
+            keywords: words('!important'),
+            literals: new Set(),
+            types: new Set(),
+            capitalizedTypes: false
+        },
+        html: {
+            rules: [['comment', /<!--[\s\S]*?(?:-->|$)/y], ['tag', /<\/?[\w:.-]+/y], ['tag', /\/?>/y], ['property', /[\w:@.-]+(?==)/y], DOUBLE_STRING, SINGLE_STRING],
+            keywords: new Set(),
+            literals: new Set(),
+            types: new Set(),
+            capitalizedTypes: false,
+            plainWords: true
+        }
+    };
+
+    // C-like languages share most of their syntax with one of the above
+    const ALIASES = {
+        typescriptreact: 'typescript', javascript: 'typescript', javascriptreact: 'typescript', ts: 'typescript', tsx: 'typescript', js: 'typescript', jsx: 'typescript', mjs: 'typescript', cjs: 'typescript',
+        dart: 'typescript', scala: 'kotlin', kt: 'kotlin', py: 'python', python3: 'python', cs: 'csharp', 'c#': 'csharp', rs: 'rust', golang: 'go',
+        cpp: 'c', 'c++': 'c', h: 'c', hpp: 'c', 'objective-c': 'c', 'objective-cpp': 'c', objc: 'c', rb: 'ruby', perl: 'shellscript', pl: 'shellscript',
+        r: 'python', sh: 'shellscript', bash: 'shellscript', zsh: 'shellscript', shell: 'shellscript', console: 'shellscript', ps1: 'powershell', pwsh: 'powershell',
+        cmd: 'bat', batch: 'bat', jsonc: 'json', yml: 'yaml', scss: 'css', less: 'css', xml: 'html', svg: 'html', vue: 'html', svelte: 'html', mysql: 'sql', postgres: 'sql', postgresql: 'sql'
+    };
+
+    const IDENTIFIER = /[A-Za-z_$][\w$]*/y;
+
+    function getGrammar(languageId) {
+        const id = String(languageId || '').toLowerCase();
+        return GRAMMARS[id] || GRAMMARS[ALIASES[id]];
+    }
+
+    function classifyWord(grammar, word, code, end) {
+        const key = grammar.caseInsensitive ? word.toLowerCase() : word;
+        if (grammar.keywords.has(key)) {
+            return 'keyword';
+        }
+        if (grammar.literals.has(key)) {
+            return 'literal';
+        }
+        if (grammar.types.has(key) || (grammar.capitalizedTypes && /^[A-Z]/.test(word))) {
+            return 'type';
+        }
+        if (!grammar.plainWords && /^\s*\(/.test(code.substring(end, end + 20))) {
+            return 'function';
+        }
+        return null;
+    }
+
+    // Split code into [className, text] tokens; plain text has no class
+    function tokenize(code, grammar) {
+        const tokens = [];
+        let plain = '';
+        let i = 0;
+        const flush = () => {
+            if (plain) {
+                tokens.push([null, plain]);
+                plain = '';
+            }
+        };
+
+        outer:
+        while (i < code.length) {
+            for (const [className, pattern] of grammar.rules) {
+                pattern.lastIndex = i;
+                const match = pattern.exec(code);
+                if (match && match[0].length > 0) {
+                    flush();
+                    tokens.push([className, match[0]]);
+                    i += match[0].length;
+                    continue outer;
+                }
+            }
+            IDENTIFIER.lastIndex = i;
+            const word = IDENTIFIER.exec(code);
+            if (word) {
+                const end = i + word[0].length;
+                const className = classifyWord(grammar, word[0], code, end);
+                if (className) {
+                    flush();
+                    tokens.push([className, word[0]]);
+                } else {
+                    plain += word[0];
+                }
+                i = end;
+                continue;
+            }
+            plain += code[i];
+            i++;
+        }
+        flush();
+        return tokens;
+    }
+
+    // Code as a fragment of token spans, or plain text for unknown languages
+    function highlight(code, languageId) {
+        const fragment = document.createDocumentFragment();
+        const grammar = getGrammar(languageId);
+        if (!grammar || code.length > MAX_HIGHLIGHT_LENGTH) {
+            fragment.appendChild(document.createTextNode(code));
+            return fragment;
+        }
+
+        for (const [className, text] of tokenize(code, grammar)) {
+            if (className) {
+                const span = document.createElement('span');
+                span.className = `tok-${className}`;
+                span.textContent = text;
+                fragment.appendChild(span);
+            } else {
+                fragment.appendChild(document.createTextNode(text));
+            }
+        }
+        return fragment;
+    }
+
+    // Fill a <code> element with highlighted code
+    function highlightInto(codeElement, code, languageId) {
+        codeElement.textContent = '';
+        codeElement.appendChild(highlight(code, languageId));
+        if (getGrammar(languageId)) {
+            codeElement.classList.add(`language-${String(languageId).toLowerCase()}`);
+        }
+    }
+
+    window.ragHighlight = { highlight, highlightInto, supports: languageId => getGrammar(languageId) !== undefined };
+})();
@@ -0,0 +1,367 @@
+// Markdown rendering for the sidebar. Text from the backend is parsed into DOM nodes whose
+// content is only ever set with textContent, so no markup it contains reaches the page.
+(function() {
+    // Links open outside the webview, and only with these schemes
+    const SAFE_LINK_SCHEMES = ['http:', 'https:', 'mailto:'];
+
+    const FENCE = /^ {0,3}(`{3,}|~{3,})\s*([^\s`]*)[^`]*$/;
+    const HEADING = /^ {0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+    const RULE = /^ {0,3}(?:(?:\*\s*){3,}|(?:-\s*){3,}|(?:_\s*){3,})$/;
+    const QUOTE = /^ {0,3}>\s?/;
+    const LIST_ITEM = /^(\s*)([-*+]|\d{1,9}[.)])\s+(.*)$/;
+    const TABLE_DIVIDER = /^\s*\|?\s*:?-+:?\s*(?:\|\s*:?-+:?\s*)*\|?\s*$/;
+
+    function element(tag, className) {
+        const node = document.createElement(tag);
+        if (className) {
+            node.className = className;
+        }
+        return node;
+    }
+
+    // The URL if it is absolute with an allowed scheme, else null
+    function safeUrl(url) {
+        try {
+            const parsed = new URL(url.trim());
+            return SAFE_LINK_SCHEMES.includes(parsed.protocol) ? parsed.href : null;
+        } catch (err) {
+            return null;
+        }
+    }
+
+    // Links carry their target in data-href; the view opens them through the extension
+    function createLink(url, title) {
+        const link = element('a', 'md-link');
+        link.href = '#';
+        link.dataset.href = url;
+        link.title = title || url;
+        return link;
+    }
+
+    function isBlockStart(line) {
+        return FENCE.test(line) || HEADING.test(line) || RULE.test(line) || QUOTE.test(line) || LIST_ITEM.test(line);
+    }
+
+    function splitRow(line) {
+        return line.trim().replace(/^\|/, '').replace(/\|$/, '').split(/(?<!\\)\|/).map(cell => cell.trim().replace(/\\\|/g, '|'));
+    }
+
+    // Block structure: fences, headings, rules, quotes, lists, tables and paragraphs
+    function renderBlocks(lines, container) {
+        let i = 0;
+        while (i < lines.length) {
+            const line = lines[i];
+            if (!line.trim()) {
+                i++;
+                continue;
+            }
+
+            const fence = FENCE.exec(line);
+            if (fence) {
+                const marker = fence[1];
+                const code = [];
+                i++;
+                while (i < lines.length && !(lines[i].trim().startsWith(marker) && lines[i].trim().replace(new RegExp(`^\\${marker[0]}+`), '') === '')) {
+                    code.push(lines[i]);
+                    i++;
+                }
+                i++;
+                container.appendChild(renderCodeBlock(code.join('\n'), fence[2]));
+                continue;
+            }
+
+            const heading = HEADING.exec(line);
+            if (heading) {
+                // Sidebar headings start a level down, so a "#" reads as a section rather than a page title
+                const node = element(`h${Math.min(heading[1].length + 1, 6)}`);
+                renderInline(heading[2], node);
+                container.appendChild(node);
+                i++;
+                continue;
+            }
+
+            if (RULE.test(line)) {
+                container.appendChild(element('hr'));
+                i++;
+                continue;
+            }
+
+            if (QUOTE.test(line)) {
+                const quoted = [];
+                while (i < lines.length && lines[i].trim() && QUOTE.test(lines[i])) {
+                    quoted.push(lines[i].replace(QUOTE, ''));
+                    i++;
+                }
+                const quote = element('blockquote');
+                renderBlocks(quoted, quote);
+                container.appendChild(quote);
+                continue;
+            }
+
+            if (LIST_ITEM.test(line)) {
+                i = renderList(lines, i, container);
+                continue;
+            }
+
+            if (line.includes('|') && i + 1 < lines.length && TABLE_DIVIDER.test(lines[i + 1]) && lines[i + 1].includes('-')) {
+                i = renderTable(lines, i, container);
+                continue;
+            }
+
+            const paragraph = [line];
+            i++;
+            while (i < lines.length && lines[i].trim() && !isBlockStart(lines[i])) {
+                paragraph.push(lines[i]);
+                i++;
+            }
+            const node = element('p');
+            renderInline(paragraph.join('\n'), node);
+            container.appendChild(node);
+        }
+    }
+
+    function renderCodeBlock(code, languageId) {
+        const pre = element('pre');
+        const codeNode = element('code');
+        window.ragHighlight.highlightInto(codeNode, code, languageId);
+        pre.appendChild(codeNode);
+        return pre;
+    }
+
+    // Items at the first item's indentation; deeper lines belong to the item above them
+    function renderList(lines, start, container) {
+        const first = LIST_ITEM.exec(lines[start]);
+        const indent = first[1].length;
+        const ordered = /\d/.test(first[2]);
+        const list = element(ordered ? 'ol' : 'ul');
+        if (ordered && parseInt(first[2], 10) !== 1) {
+            list.start = parseInt(first[2], 10);
+        }
+
+        let i = start;
+        while (i < lines.length) {
+            const item = LIST_ITEM.exec(lines[i]);
+            if (!item || item[1].length !== indent || /\d/.test(item[2]) !== ordered) {
+                break;
+            }
+            const body = [item[3]];
+            i++;
+            while (i < lines.length) {
+                const next = lines[i];
+                const nested = LIST_ITEM.exec(next);
+                if (!next.trim()) {
+                    // A blank line ends the item unless the item continues indented below it
+                    if (i + 1 < lines.length && /^\s+/.test(lines[i + 1]) && (lines[i + 1].match(/^\s*/)[0].length > indent)) {
+                        body.push('');
+                        i++;
+                        continue;
+                    }
+                    break;
+                }
+                if (nested && nested[1].length <= indent) {
+                    break;
+                }
+                if (!nested && !/^\s/.test(next) && isBlockStart(next)) {
+                    break;
+                }
+                body.push(next.substring(Math.min(next.match(/^\s*/)[0].length, indent + 2)));
+                i++;
+            }
+
+            const listItem = element('li');
+            if (body.length === 1) {
+                renderInline(body[0], listItem);
+            } else {
+                renderBlocks(body, listItem);
+                // A single paragraph reads better without its margins
+                if (listItem.firstChild && listItem.firstChild.tagName === 'P') {
+                    const paragraph = listItem.firstChild;
+                    while (paragraph.firstChild) {
+                        listItem.insertBefore(paragraph.firstChild, paragraph);
+                    }
+                    paragraph.remove();
+                }
+            }
+            list.appendChild(listItem);
+
+            while (i < lines.length && !lines[i].trim() && i + 1 < lines.length && LIST_ITEM.test(lines[i + 1]) && LIST_ITEM.exec(lines[i + 1])[1].length === indent) {
+                i++;
+            }
+        }
+        container.appendChild(list);
+        return i;
+    }
+
+    function renderTable(lines, start, container) {
+        const header = splitRow(lines[start]);
+        const alignments = splitRow(lines[start + 1]).map(cell => {
+            const left = cell.startsWith(':');
+            const right = cell.endsWith(':');
+            return left && right ? 'center' : right ? 'right' : left ? 'left' : '';
+        });
+
+        const wrapper = element('div', 'md-table');
+        const table = element('table');
+        const head = element('thead');
+        const headRow = element('tr');
+        header.forEach((cell, index) => headRow.appendChild(renderCell('th', cell, alignments[index])));
+        head.appendChild(headRow);
+        table.appendChild(head);
+
+        const body = element('tbody');
+        let i = start + 2;
+        while (i < lines.length && lines[i].trim() && lines[i].includes('|')) {
+            const row = element('tr');
+            const cells = splitRow(lines[i]);
+            header.forEach((_, index) => row.appendChild(renderCell('td', cells[index] || '', alignments[index])));
+            body.appendChild(row);
+            i++;
+        }
+        table.appendChild(body);
+        wrapper.appendChild(table);
+        container.appendChild(wrapper);
+        return i;
+    }
+
+    function renderCell(tag, text, alignment) {
+        const cell = element(tag, alignment ? `align-${alignment}` : '');
+        renderInline(text, cell);
+        return cell;
+    }
+
+    // Index of the closing delimiter of an emphasis span opened at start, or -1
+    function findClosing(text, delimiter, start) {
+        let index = text.indexOf(delimiter, start);
+        while (index !== -1) {
+            const before = text[index - 1];
+            const after = text[index + delimiter.length];
+            const wordAfter = after !== undefined && /\w/.test(after);
+            if (index > start && before !== ' ' && before !== '\\' && !(delimiter[0] === '_' && wordAfter)) {
+                return index;
+            }
+            index = text.indexOf(delimiter, index + 1);
+        }
+        return -1;
+    }
+
+    // `]` matching the `[` at start, allowing nested brackets
+    function findBracket(text, start) {
+        let depth = 0;
+        for (let i = start; i < text.length; i++) {
+            if (text[i] === '\\') {
+                i++;
+            } else if (text[i] === '[') {
+                depth++;
+            } else if (text[i] === ']' && --depth === 0) {
+                return i;
+            }
+        }
+        return -1;
+    }
+
+    // Inline content: escapes, code spans, links, emphasis and line breaks
+    function renderInline(text, container) {
+        let plain = '';
+        const flush = () => {
+            if (plain) {
+                container.appendChild(document.createTextNode(plain));
+                plain = '';
+            }
+        };
+
+        let i = 0;
+        while (i < text.length) {
+            const char = text[i];
+            const rest = text.substring(i);
+
+            if (char === '\\' && i + 1 < text.length && /[!-/:-@[-`{-~]/.test(text[i + 1])) {
+                plain += text[i + 1];
+                i += 2;
+                continue;
+            }
+
+            if (char === '\n') {
+                flush();
+                container.appendChild(element('br'));
+                i++;
+                continue;
+            }
+
+            if (char === '`') {
+                const ticks = /^`+/.exec(rest)[0];
+                const end = text.indexOf(ticks, i + ticks.length);
+                if (end !== -1) {
+                    flush();
+                    const code = element('code');
+                    code.textContent = text.substring(i + ticks.length, end).replace(/\n/g, ' ').replace(/^ (.*) $/, '$1');
+                    container.appendChild(code);
+                    i = end + ticks.length;
+                    continue;
+                }
+                plain += ticks;
+                i += ticks.length;
+                continue;
+            }
+
+            // [text](url "title") and ![alt](url); images are shown as links, since the view loads no remote content
+            const image = char === '!' && text[i + 1] === '[';
+            if (char === '[' || image) {
+                const open = image ? i + 1 : i;
+                const close = findBracket(text, open);
+                const target = close !== -1 ? /^\(\s*<?([^\s<>()]+(?:\([^\s()]*\))?[^\s<>()]*)>?(?:\s+"([^"]*)")?\s*\)/.exec(text.substring(close + 1)) : null;
+                if (target) {
+                    flush();
+                    const label = text.substring(open + 1, close);
+                    const url = safeUrl(target[1]);
+                    const node = url ? createLink(url, target[2]) : element('span');
+                    renderInline(image ? (label || 'image') : label, node);
+                    container.appendChild(node);
+                    i = close + 1 + target[0].length;
+                    continue;
+                }
+            }
+
+            const autolink = /^<((?:https?|mailto):[^\s<>]+)>/.exec(rest) || (/^https?:\/\//.test(rest) && !/\w/.test(text[i - 1] || '') ? /^(https?:\/\/[^\s<>]*[^\s<>.,;:!?'")\]])/.exec(rest) : null);
+            if (autolink) {
+                const url = safeUrl(autolink[1]);
+                if (url) {
+                    flush();
+                    const link = createLink(url);
+                    link.textContent = autolink[1];
+                    container.appendChild(link);
+                    i += autolink[0].length;
+                    continue;
+                }
+            }
+
+            const emphasis = /^(\*\*|__|~~|\*|_)/.exec(rest);
+            if (emphasis && text[i + emphasis[1].length] && !/\s/.test(text[i + emphasis[1].length])
+                && !(emphasis[1][0] === '_' && /\w/.test(text[i - 1] || ''))) {
+                const delimiter = emphasis[1];
+                const end = findClosing(text, delimiter, i + delimiter.length);
+                if (end !== -1) {
+                    flush();
+                    const tag = delimiter === '~~' ? 'del' : delimiter.length === 2 ? 'strong' : 'em';
+                    const node = element(tag);
+                    renderInline(text.substring(i + delimiter.length, end), node);
+                    container.appendChild(node);
+                    i = end + delimiter.length;
+                    continue;
+                }
+            }
+
+            plain += char;
+            i++;
+        }
+        flush();
+    }
+
+    // Markdown as a fragment of DOM nodes
+    function render(text) {
+        const fragment = document.createDocumentFragment();
+        renderBlocks(String(text || '').replace(/\r\n?/g, '\n').split('\n'), fragment);
+        return fragment;
+    }
+
+    window.ragMarkdown = { render, safeUrl };
+})();
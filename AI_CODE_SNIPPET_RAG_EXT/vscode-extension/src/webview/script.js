@@ -4,6 +4,7 @@
     // DOM elements
     const queryInput = document.getElementById('queryInput');
     const sendBtn = document.getElementById('sendBtn');
+    const stopBtn = document.getElementById('stopBtn');
     const chatMessages = document.getElementById('chatMessages');
     const statusIndicator = document.getElementById('statusIndicator');
     const statusDot = document.getElementById('statusDot');
@@ -14,18 +15,40 @@
     const settingsPanel = document.getElementById('settingsPanel');
     const saveSettingsBtn = document.getElementById('saveSettingsBtn');
     const cancelSettingsBtn = document.getElementById('cancelSettingsBtn');
+    const analysisStatus = document.getElementById('analysisStatus');
+    const rootsPanel = document.getElementById('rootsPanel');
+    const rootsList = document.getElementById('rootsList');
+    const conversationSelect = document.getElementById('conversationSelect');
+    const conversationSearch = document.getElementById('conversationSearch');
+    const searchResults = document.getElementById('searchResults');
+    const contextBtn = document.getElementById('contextBtn');
+    const contextPanel = document.getElementById('contextPanel');
+    const contextSummary = document.getElementById('contextSummary');
+    const contextList = document.getElementById('contextList');
+    const providerSelect = document.getElementById('providerSelect');
     
     // State
     let isLoading = false;
+    // The provider answering queries, and the last connection status of its server
+    let currentProvider = null;
+    let connectionStatus = 'checking';
     let conversationHistory = [];
+    let streamMessage = null;
+    let searchTimer = null;
     
     // Initialize
     function init() {
         // Request initial settings
         vscode.postMessage({ type: 'getSettings' });
         
-        // Request connection status
-        vscode.postMessage({ type: 'testConnection' });
+        // Request workspace roots
+        vscode.postMessage({ type: 'getWorkspaceRoots' });
+        
+        // Request the saved conversations
+        vscode.postMessage({ type: 'getConversations' });
+        
+        // Request connection status (quietly; the Test button shows the result)
+        vscode.postMessage({ type: 'getConnectionStatus' });
         
         // Setup event listeners
         setupEventListeners();
@@ -34,12 +57,16 @@
     function setupEventListeners() {
         // Send button
         sendBtn.addEventListener('click', handleSend);
+        stopBtn.addEventListener('click', handleStop);
         
         // Enter key handling
         queryInput.addEventListener('keydown', (e) => {
             if (e.key === 'Enter' && !e.shiftKey) {
                 e.preventDefault();
                 handleSend();
+            } else if (e.key === 'Escape' && isLoading) {
+                e.preventDefault();
+                handleStop();
             }
         });
         
@@ -52,16 +79,72 @@
             vscode.postMessage({ type: 'rebuildAnalysis' });
         });
         
+        // Conversations
+        conversationSelect.addEventListener('change', () => {
+            vscode.postMessage({ type: 'switchConversation', data: { id: conversationSelect.value } });
+        });
+        document.getElementById('newConversationBtn').addEventListener('click', () => {
+            vscode.postMessage({ type: 'newConversation' });
+        });
+        document.getElementById('renameConversationBtn').addEventListener('click', () => {
+            vscode.postMessage({ type: 'renameConversation', data: { id: conversationSelect.value } });
+        });
+        document.getElementById('exportConversationBtn').addEventListener('click', () => {
+            vscode.postMessage({ type: 'exportConversation', data: { id: conversationSelect.value } });
+        });
+        document.getElementById('deleteConversationBtn').addEventListener('click', () => {
+            vscode.postMessage({ type: 'deleteConversation', data: { id: conversationSelect.value } });
+        });
+        conversationSearch.addEventListener('input', () => {
+            clearTimeout(searchTimer);
+            searchTimer = setTimeout(() => {
+                vscode.postMessage({ type: 'searchConversations', data: conversationSearch.value });
+            }, 200);
+        });
+        conversationSearch.addEventListener('keydown', (e) => {
+            if (e.key === 'Escape') {
+                clearSearch();
+            }
+        });
+        
+        contextBtn.addEventListener('click', () => {
+            contextPanel.hidden = !contextPanel.hidden;
+            if (!contextPanel.hidden) {
+                contextSummary.textContent = 'Loading...';
+                vscode.postMessage({ type: 'getContextPreview' });
+            }
+        });
+        
+        document.getElementById('openContextPayloadBtn').addEventListener('click', () => {
+            vscode.postMessage({ type: 'previewOutgoingContext' });
+        });
+        
         settingsBtn.addEventListener('click', () => {
-            settingsPanel.style.display = settingsPanel.style.display === 'none' ? 'block' : 'none';
+            settingsPanel.hidden = !settingsPanel.hidden;
         });
         
         // Settings
         saveSettingsBtn.addEventListener('click', handleSaveSettings);
+        providerSelect.addEventListener('change', () => showProviderSettings(providerSelect.value));
+        document.getElementById('setApiTokenBtn').addEventListener('click', () => {
+            vscode.postMessage({ type: 'setApiToken' });
+        });
+        document.getElementById('clearApiTokenBtn').addEventListener('click', () => {
+            vscode.postMessage({ type: 'clearApiToken' });
+        });
         cancelSettingsBtn.addEventListener('click', () => {
-            settingsPanel.style.display = 'none';
+            settingsPanel.hidden = true;
             loadSettings();
         });
+        
+        // Links in rendered markdown are opened by the extension, which checks their scheme again
+        chatMessages.addEventListener('click', (e) => {
+            const link = e.target.closest('a[data-href]');
+            if (link) {
+                e.preventDefault();
+                vscode.postMessage({ type: 'openLink', data: link.dataset.href });
+            }
+        });
     }
     
     function handleSend() {
@@ -78,8 +161,21 @@
         vscode.postMessage({ type: 'query', data: query });
     }
     
+    function handleStop() {
+        if (!isLoading) {
+            return;
+        }
+        
+        // Ready for the next question at once; the extension records the cancellation
+        hideLoading();
+        vscode.postMessage({ type: 'cancelQuery' });
+    }
+    
     function handleSaveSettings() {
         const settings = {
+            provider: providerSelect.value,
+            openaiBaseUrl: document.getElementById('openaiBaseUrl').value,
+            openaiModel: document.getElementById('openaiModel').value,
             serverUrl: document.getElementById('serverUrl').value,
             requestTimeoutMs: parseInt(document.getElementById('requestTimeout').value),
             maxFiles: parseInt(document.getElementById('maxFiles').value),
@@ -87,19 +183,44 @@
         };
         
         vscode.postMessage({ type: 'updateSettings', data: settings });
-        settingsPanel.style.display = 'none';
+        settingsPanel.hidden = true;
     }
     
     function loadSettings(settings) {
         if (settings) {
+            currentProvider = settings.provider;
+            providerSelect.value = settings.provider.id;
+            showProviderSettings(settings.provider.id);
+            updateConnectionStatus(connectionStatus);
+            document.getElementById('openaiBaseUrl').value = settings.openaiBaseUrl || '';
+            document.getElementById('openaiModel').value = settings.openaiModel || '';
             document.getElementById('serverUrl').value = settings.serverUrl || '';
             document.getElementById('requestTimeout').value = settings.requestTimeoutMs || '';
             document.getElementById('maxFiles').value = settings.maxFiles || '';
             document.getElementById('maxBytesPerFile').value = settings.maxBytesPerFile || '';
+            document.getElementById('apiTokenStatus').textContent = settings.apiTokenSet ? 'Set (stored securely)' : 'Not set';
+            document.getElementById('clearApiTokenBtn').hidden = !settings.apiTokenSet;
         }
     }
     
+    // Only the fields of the chosen provider's server are shown
+    function showProviderSettings(providerId) {
+        settingsPanel.querySelectorAll('[data-provider]').forEach(item => {
+            item.hidden = !item.dataset.provider.split(' ').includes(providerId);
+        });
+    }
+    
     function updateConnectionStatus(status) {
+        connectionStatus = status;
+        if (currentProvider) {
+            statusIndicator.title = currentProvider.url ? `${currentProvider.label} at ${currentProvider.url}` : currentProvider.label;
+            // A provider without a server has no connection to show
+            if (!currentProvider.capabilities.healthCheck) {
+                statusDot.className = 'status-dot offline';
+                statusText.textContent = 'Offline';
+                return;
+            }
+        }
         statusDot.className = 'status-dot ' + status;
         switch(status) {
             case 'connected':
@@ -111,19 +232,174 @@
             case 'checking':
                 statusText.textContent = 'Checking...';
                 break;
+            case 'unauthorized':
+                statusText.textContent = 'Token required';
+                break;
         }
     }
     
-    function addMessage(role, content) {
+    function renderWorkspaceRoots(roots) {
+        rootsList.innerHTML = '';
+        
+        // Root selection only matters in multi-root workspaces
+        if (!roots || roots.length < 2) {
+            rootsPanel.hidden = true;
+            return;
+        }
+        
+        roots.forEach(root => {
+            const label = document.createElement('label');
+            label.className = 'root-item';
+            label.title = root.root;
+            
+            const checkbox = document.createElement('input');
+            checkbox.type = 'checkbox';
+            checkbox.value = root.root;
+            checkbox.checked = root.selected;
+            checkbox.addEventListener('change', handleRootSelectionChange);
+            
+            const name = document.createElement('span');
+            name.textContent = root.name;
+            
+            label.appendChild(checkbox);
+            label.appendChild(name);
+            rootsList.appendChild(label);
+        });
+        
+        rootsPanel.hidden = false;
+    }
+    
+    function formatBytes(bytes) {
+        if (bytes < 1024) {
+            return `${bytes} B`;
+        }
+        return bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
+    }
+    
+    function renderContextPreview(preview) {
+        contextList.innerHTML = '';
+        
+        let summary = `${preview.fileCount} files, ${formatBytes(preview.totalBytes)}`;
+        if (preview.mode === 'offline') {
+            summary += ' - offline mode, nothing is sent';
+        } else if (preview.mode === 'snippets') {
+            summary += ` - only the snippets retrieved for each query are sent to ${preview.provider.label}`;
+        } else if (preview.mode === 'delta') {
+            summary += preview.synced ? ' - already on the backend, only the query is sent' : ' - only files the backend lacks are uploaded';
+        } else if (preview.contextBudget !== undefined) {
+            summary += ` - fitted to a ${formatBytes(preview.contextBudget)} budget and sent to ${preview.serverUrl}`;
+        } else {
+            summary += ` - sent to ${preview.serverUrl}`;
+        }
+        contextSummary.textContent = summary;
+        
+        const multiRoot = preview.roots.length > 1;
+        preview.roots.forEach(root => {
+            if (multiRoot) {
+                const heading = document.createElement('div');
+                heading.className = 'context-root';
+                heading.textContent = root.workspaceName;
+                contextList.appendChild(heading);
+            }
+            
+            // Session exclusions first, so they are easy to restore
+            root.sessionExclusions.forEach(excluded => {
+                const row = createContextRow(excluded, 'excluded for this session', 'Restore', () => {
+                    vscode.postMessage({ type: 'restoreContextPath', data: { workspaceRoot: root.workspaceRoot, path: excluded } });
+                });
+                row.classList.add('excluded');
+                contextList.appendChild(row);
+            });
+            
+            root.files.forEach(file => {
+                let details = formatBytes(file.bytes);
+                if (file.treatment === 'excerpt') {
+                    details += ' · excerpt';
+                } else if (file.treatment === 'metadata') {
+                    details += ' · metadata only';
+                }
+                if (file.chunks > 0) {
+                    details += ` · ${file.chunks} chunks`;
+                }
+                const row = createContextRow(file.path, details, 'Exclude', () => {
+                    vscode.postMessage({ type: 'excludeFromContext', data: { workspaceRoot: root.workspaceRoot, path: file.path } });
+                });
+                if (file.redactions.length > 0) {
+                    const redacted = document.createElement('span');
+                    redacted.className = 'context-redactions';
+                    redacted.textContent = `${file.redactions.length} redacted`;
+                    redacted.title = file.redactions.map(r => `line ${r.line}: ${r.detector}`).join('\n');
+                    row.insertBefore(redacted, row.lastChild);
+                }
+                contextList.appendChild(row);
+            });
+        });
+    }
+    
+    function createContextRow(filePath, details, actionLabel, onAction) {
+        const row = document.createElement('div');
+        row.className = 'context-row';
+        
+        const name = document.createElement('span');
+        name.className = 'context-path';
+        name.textContent = filePath;
+        name.title = filePath;
+        
+        const size = document.createElement('span');
+        size.className = 'context-details';
+        size.textContent = details;
+        
+        const action = document.createElement('button');
+        action.className = 'btn-secondary context-action';
+        action.textContent = actionLabel;
+        action.addEventListener('click', onAction);
+        
+        row.appendChild(name);
+        row.appendChild(size);
+        row.appendChild(action);
+        return row;
+    }
+    
+    function handleRootSelectionChange(e) {
+        const checkboxes = Array.from(rootsList.querySelectorAll('input[type="checkbox"]'));
+        const selected = checkboxes.filter(cb => cb.checked).map(cb => cb.value);
+        
+        // At least one root must stay selected
+        if (selected.length === 0) {
+            e.target.checked = true;
+            return;
+        }
+        
+        vscode.postMessage({ type: 'setSelectedRoots', data: selected });
+    }
+    
+    // messageIndex is the message's place in the conversation, for rating its answers
+    function addMessage(role, content, answers, notice, messageIndex, reply) {
         const messageDiv = document.createElement('div');
         messageDiv.className = `message ${role}`;
         
         const contentDiv = document.createElement('div');
         contentDiv.className = 'message-content';
         
-        if (role === 'assistant') {
-            // Render markdown-like content
-            contentDiv.innerHTML = renderMarkdown(content);
+        if (role === 'assistant' && answers && answers.length > 0) {
+            if (notice) {
+                const noticeDiv = document.createElement('div');
+                noticeDiv.className = 'answer-notice';
+                noticeDiv.textContent = notice;
+                contentDiv.appendChild(noticeDiv);
+            }
+            if (reply) {
+                const replyDiv = document.createElement('div');
+                replyDiv.className = 'answer-reply';
+                replyDiv.appendChild(window.ragMarkdown.render(reply));
+                contentDiv.appendChild(replyDiv);
+            }
+            answers.forEach((answer, answerIndex) => {
+                const target = messageIndex !== undefined && answer.rateable ? { messageIndex, answerIndex } : undefined;
+                contentDiv.appendChild(createAnswerCard(answer, target).card);
+            });
+        } else if (role === 'assistant') {
+            contentDiv.appendChild(window.ragMarkdown.render(content));
         } else {
             contentDiv.textContent = content;
         }
@@ -141,41 +417,11 @@
         chatMessages.scrollTop = chatMessages.scrollHeight;
     }
     
-    function renderMarkdown(text) {
-        // Simple markdown rendering
-        let html = text;
-        
-        // Code blocks
-        html = html.replace(/```(\w+)?\n([\s\S]*?)```/g, (match, lang, code) => {
-            return `<pre><code>${escapeHtml(code.trim())}</code></pre>`;
-        });
-        
-        // Inline code
-        html = html.replace(/`([^`]+)`/g, '<code>$1</code>');
-        
-        // Bold
-        html = html.replace(/\*\*([^*]+)\*\*/g, '<strong>$1</strong>');
-        
-        // Headers
-        html = html.replace(/^### (.*$)/gm, '<h4>$1</h4>');
-        html = html.replace(/^## (.*$)/gm, '<h3>$1</h3>');
-        html = html.replace(/^# (.*$)/gm, '<h2>$1</h2>');
-        
-        // Line breaks
-        html = html.replace(/\n/g, '<br>');
-        
-        return html;
-    }
-    
-    function escapeHtml(text) {
-        const div = document.createElement('div');
-        div.textContent = text;
-        return div.innerHTML;
-    }
-    
     function showLoading() {
         isLoading = true;
         sendBtn.disabled = true;
+        sendBtn.hidden = true;
+        stopBtn.hidden = false;
         
         const loadingDiv = document.createElement('div');
         loadingDiv.className = 'loading';
@@ -192,15 +438,254 @@
     
     function hideLoading() {
         isLoading = false;
+        streamMessage = null;
         sendBtn.disabled = false;
+        sendBtn.hidden = false;
+        stopBtn.hidden = true;
+        const loadingDiv = document.getElementById('loadingIndicator');
+        if (loadingDiv) {
+            loadingDiv.remove();
+        }
+    }
+    
+    // Assistant message that streamed answers are written into until the final response arrives
+    function getStreamMessage() {
+        if (streamMessage) {
+            return streamMessage;
+        }
+        
+        // The answers themselves now show progress, so only the dots go; input stays disabled
         const loadingDiv = document.getElementById('loadingIndicator');
         if (loadingDiv) {
             loadingDiv.remove();
         }
+        
+        const messageDiv = document.createElement('div');
+        messageDiv.className = 'message assistant streaming';
+        const contentDiv = document.createElement('div');
+        contentDiv.className = 'message-content';
+        messageDiv.appendChild(contentDiv);
+        chatMessages.appendChild(messageDiv);
+        
+        streamMessage = { content: contentDiv, explanations: [], explanationTexts: [], reply: null, replyText: '' };
+        return streamMessage;
+    }
+    
+    // One answer with a link to its lines, a flag when the file no longer matches, and actions on its code.
+    // Answers of a stored message (feedbackTarget) can also be rated.
+    function createAnswerCard(answer, feedbackTarget) {
+        const card = document.createElement('div');
+        card.className = 'answer-card';
+        if (answer.state === 'missing') {
+            card.classList.add('missing');
+        }
+        
+        // Streamed answers have not been located yet; they get checked once the response is complete
+        const navigable = answer.navigable !== false && answer.state !== 'missing';
+        const header = document.createElement('div');
+        header.className = 'answer-header';
+        const title = document.createElement(navigable ? 'a' : 'strong');
+        title.textContent = `${answer.file} (lines ${answer.start_line}-${answer.end_line})`;
+        if (navigable) {
+            title.href = '#';
+            title.title = 'Open the file at these lines';
+            title.addEventListener('click', e => {
+                e.preventDefault();
+                postAnswerAction('openAnswer', answer);
+            });
+        }
+        header.appendChild(title);
+        header.appendChild(document.createTextNode(` [score: ${Number(answer.score).toFixed(2)}]`));
+        card.appendChild(header);
+        
+        if (answer.note) {
+            const flag = document.createElement('div');
+            flag.className = 'answer-flag';
+            flag.textContent = `⚠️ ${answer.note}`;
+            card.appendChild(flag);
+        }
+        
+        const pre = document.createElement('pre');
+        const code = document.createElement('code');
+        window.ragHighlight.highlightInto(code, answer.code || '', answer.languageId);
+        pre.appendChild(code);
+        card.appendChild(pre);
+        
+        const explanation = document.createElement('div');
+        explanation.className = 'answer-explanation';
+        explanation.appendChild(window.ragMarkdown.render(answer.explanation || ''));
+        card.appendChild(explanation);
+        
+        const actions = document.createElement('div');
+        actions.className = 'answer-actions';
+        actions.appendChild(createAnswerButton('Copy', 'copyAnswer', answer));
+        actions.appendChild(createAnswerButton('Insert at Cursor', 'insertAnswer', answer));
+        if (navigable) {
+            actions.appendChild(createAnswerButton('Compare with Current File', 'compareAnswer', answer));
+        }
+        if (feedbackTarget) {
+            card.dataset.feedback = `${feedbackTarget.messageIndex}:${feedbackTarget.answerIndex}`;
+            actions.appendChild(createRatingButton('👍', 'up', 'This answer is useful', feedbackTarget));
+            actions.appendChild(createRatingButton('👎', 'down', 'This answer is wrong', feedbackTarget));
+            showRating(card, answer.rating);
+        }
+        card.appendChild(actions);
+        
+        return { card, explanation };
+    }
+    
+    function createAnswerButton(label, type, answer) {
+        const button = document.createElement('button');
+        button.className = 'btn-secondary';
+        button.textContent = label;
+        button.addEventListener('click', () => postAnswerAction(type, answer));
+        return button;
+    }
+    
+    function createRatingButton(label, rating, title, feedbackTarget) {
+        const button = document.createElement('button');
+        button.className = 'btn-secondary answer-rating';
+        button.textContent = label;
+        button.title = title;
+        button.dataset.rating = rating;
+        button.addEventListener('click', () => vscode.postMessage({
+            type: 'rateAnswer',
+            data: { messageIndex: feedbackTarget.messageIndex, answerIndex: feedbackTarget.answerIndex, rating }
+        }));
+        return button;
+    }
+    
+    // Mark the rating given to an answer card, if any
+    function showRating(card, rating) {
+        card.querySelectorAll('.answer-rating').forEach(button => {
+            const selected = button.dataset.rating === rating;
+            button.classList.toggle('selected', selected);
+            button.setAttribute('aria-pressed', String(selected));
+        });
+    }
+    
+    function postAnswerAction(type, answer) {
+        vscode.postMessage({
+            type,
+            data: {
+                file: answer.file,
+                start_line: answer.start_line,
+                end_line: answer.end_line,
+                code: answer.code,
+                score: answer.score,
+                explanation: answer.explanation
+            }
+        });
+    }
+    
+    function appendStreamAnswer(answer) {
+        const stream = getStreamMessage();
+        const { card, explanation } = createAnswerCard(answer);
+        stream.content.appendChild(card);
+        stream.explanations.push(explanation);
+        stream.explanationTexts.push(answer.explanation || '');
+        chatMessages.scrollTop = chatMessages.scrollHeight;
+    }
+    
+    function appendStreamExplanation(index, text) {
+        const stream = getStreamMessage();
+        const explanation = stream.explanations[index];
+        if (explanation) {
+            // Markdown spans chunks, so the whole explanation is rendered again
+            stream.explanationTexts[index] += text;
+            explanation.replaceChildren(window.ragMarkdown.render(stream.explanationTexts[index]));
+            chatMessages.scrollTop = chatMessages.scrollHeight;
+        }
+    }
+    
+    // The reply goes above the answers it cites, which arrive after it
+    function appendStreamReply(text) {
+        const stream = getStreamMessage();
+        if (!stream.reply) {
+            stream.reply = document.createElement('div');
+            stream.reply.className = 'answer-reply';
+            stream.content.appendChild(stream.reply);
+        }
+        stream.replyText += text;
+        stream.reply.replaceChildren(window.ragMarkdown.render(stream.replyText));
+        chatMessages.scrollTop = chatMessages.scrollHeight;
+    }
+    
+    function appendStreamNotice(text) {
+        const notice = document.createElement('div');
+        notice.className = 'answer-notice';
+        notice.textContent = text;
+        getStreamMessage().content.appendChild(notice);
+    }
+    
+    function renderConversations(conversations) {
+        conversationSelect.innerHTML = '';
+        conversations.forEach(conversation => {
+            const option = document.createElement('option');
+            option.value = conversation.id;
+            option.textContent = conversation.messageCount > 0 ? `${conversation.name} (${conversation.messageCount})` : conversation.name;
+            option.selected = conversation.active;
+            conversationSelect.appendChild(option);
+        });
+    }
+    
+    function renderSearchResults(results) {
+        searchResults.innerHTML = '';
+        if (!conversationSearch.value.trim()) {
+            searchResults.hidden = true;
+            return;
+        }
+        
+        if (results.length === 0) {
+            const empty = document.createElement('div');
+            empty.className = 'search-empty';
+            empty.textContent = 'No matches';
+            searchResults.appendChild(empty);
+        }
+        
+        results.forEach(result => {
+            const item = document.createElement('div');
+            item.className = 'search-result';
+            
+            const name = document.createElement('div');
+            name.className = 'search-result-name';
+            name.textContent = result.sessionName;
+            
+            const excerpt = document.createElement('div');
+            excerpt.className = 'search-result-excerpt';
+            excerpt.textContent = result.excerpt;
+            
+            item.appendChild(name);
+            item.appendChild(excerpt);
+            item.addEventListener('click', () => {
+                vscode.postMessage({ type: 'switchConversation', data: { id: result.sessionId, messageIndex: result.messageIndex } });
+                clearSearch();
+            });
+            searchResults.appendChild(item);
+        });
+        searchResults.hidden = false;
+    }
+    
+    function clearSearch() {
+        conversationSearch.value = '';
+        searchResults.innerHTML = '';
+        searchResults.hidden = true;
+    }
+    
+    // Scroll to a message found by search and mark it briefly
+    function revealMessage(index) {
+        const messageDiv = chatMessages.querySelectorAll('.message')[index];
+        if (!messageDiv) {
+            return;
+        }
+        messageDiv.scrollIntoView({ block: 'center' });
+        messageDiv.classList.add('revealed');
+        setTimeout(() => messageDiv.classList.remove('revealed'), 2000);
     }
     
     function renderConversationHistory(history) {
         chatMessages.innerHTML = '';
+        streamMessage = null;
         
         if (history.length === 0) {
             const welcomeDiv = document.createElement('div');
@@ -214,8 +699,8 @@
             return;
         }
         
-        history.forEach(msg => {
-            addMessage(msg.role, msg.content);
+        history.forEach((msg, index) => {
+            addMessage(msg.role, msg.content, msg.answers, msg.notice, index, msg.reply);
         });
     }
     
@@ -228,6 +713,22 @@
                 hideLoading();
                 break;
                 
+            case 'queryStreamAnswer':
+                appendStreamAnswer(message.data);
+                break;
+                
+            case 'queryStreamExplanation':
+                appendStreamExplanation(message.data.index, message.data.text);
+                break;
+                
+            case 'queryStreamNotice':
+                appendStreamNotice(message.data);
+                break;
+                
+            case 'queryStreamReply':
+                appendStreamReply(message.data);
+                break;
+                
             case 'queryLoading':
                 if (message.data) {
                     showLoading();
@@ -244,6 +745,34 @@
                 loadSettings(message.data);
                 break;
                 
+            case 'workspaceRoots':
+                renderWorkspaceRoots(message.data);
+                break;
+                
+            case 'contextPreview':
+                renderContextPreview(message.data);
+                break;
+                
+            case 'conversations':
+                renderConversations(message.data || []);
+                break;
+                
+            case 'conversationSearchResults':
+                renderSearchResults(message.data || []);
+                break;
+                
+            case 'revealMessage':
+                revealMessage(message.data);
+                break;
+                
+            case 'answerRated': {
+                const card = chatMessages.querySelector(`[data-feedback="${message.data.messageIndex}:${message.data.answerIndex}"]`);
+                if (card) {
+                    showRating(card, message.data.rating);
+                }
+                break;
+            }
+                
             case 'conversationHistory':
                 conversationHistory = message.data || [];
                 renderConversationHistory(conversationHistory);
@@ -254,6 +783,10 @@
                 addMessage('assistant', `**Error:** ${message.data}`);
                 break;
                 
+            case 'analysisStatus':
+                analysisStatus.textContent = `${message.data} (${new Date().toLocaleTimeString()})`;
+                break;
+                
             case 'analysisRebuilt':
                 addMessage('assistant', 'Workspace analysis has been rebuilt successfully.');
                 break;
@@ -1,31 +1,58 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
-import { analyzeWorkspace, getActiveEditorContext, sendQuery, renderResponse, testConnection, rebuildAnalysis } from './extension';
+import * as crypto from 'crypto';
+import { analyzeWorkspace, getActiveEditorContext, sendQuery, renderResponse, testConnection, checkBackendHealth, hasApiToken, rebuildAnalysis, filterAnalysesByRoots, describeUnknownRoots, getSelectedRoots, setSelectedRoots, getOutgoingContextPreview, excludeFromContext, restoreContextPath, describeAnswerState, answerLanguageId, getQueryFingerprint, getAnswerRating, getProviderInfo } from './extension';
+import { locateAnswer } from './answerActions';
+import { OutgoingFilter } from './outgoingFilter';
+import { turnsFromMessages } from './conversationContext';
+import { ResolvedCommand, parseSlashCommand, resolveCommand } from './chatCommands';
+import { ConversationStore, ConversationSearchResult, conversationToJson, conversationToMarkdown, sessionName } from './conversationStore';
+import { AnswerContext, AnswerState, ConversationMessage, ConversationSession, FeedbackRating, QueryAnchor, QueryAnswer, QueryStreamEvent } from './types';
+import { ConnectionStatus, RequestCancelledError } from './backendClient';
 
 export interface WebviewMessage {
 	type: string;
 	data?: any;
 }
 
+// An answer as the sidebar shows it, checked against the workspace when its conversation is shown
+interface SidebarAnswer extends QueryAnswer {
+	state?: AnswerState;
+	note?: string;
+	navigable: boolean;
+	// Set on answers that can be rated; the rating given, if any
+	rateable: boolean;
+	rating?: FeedbackRating;
+}
+
+// A query started from an editor command, with the code it is about
+export interface EditorQuery extends ResolvedCommand {
+	anchor: QueryAnchor;
+}
+
 export class WebviewProvider {
 	private static instance: WebviewProvider | undefined;
 	private _webview: vscode.WebviewView | undefined;
 	private _context: vscode.ExtensionContext;
 	private _disposables: vscode.Disposable[] = [];
-	private _conversationHistory: Array<{ role: 'user' | 'assistant'; content: string; timestamp: number }> = [];
-	private _connectionStatus: 'connected' | 'disconnected' | 'checking' = 'disconnected';
+	private _conversations: ConversationStore;
+	private _answerChecks: WeakMap<ConversationMessage, Promise<SidebarAnswer[]>> = new WeakMap();
+	private _connectionStatus: ConnectionStatus = 'disconnected';
+	// The running query and the conversation it was asked in
+	private _activeQuery: { controller: AbortController; session: ConversationSession } | undefined;
 
-	constructor(context: vscode.ExtensionContext) {
+	constructor(context: vscode.ExtensionContext, private readonly _outputChannel: vscode.OutputChannel, private readonly _outgoingFilter: OutgoingFilter) {
 		this._context = context;
+		this._conversations = new ConversationStore(context.workspaceState);
 	}
 
-	public static createOrShow(context: vscode.ExtensionContext): WebviewProvider {
+	public static createOrShow(context: vscode.ExtensionContext, outputChannel: vscode.OutputChannel, outgoingFilter: OutgoingFilter): WebviewProvider {
 		if (WebviewProvider.instance) {
 			return WebviewProvider.instance;
 		}
 
-		WebviewProvider.instance = new WebviewProvider(context);
+		WebviewProvider.instance = new WebviewProvider(context, outputChannel, outgoingFilter);
 		return WebviewProvider.instance;
 	}
 
@@ -59,63 +86,225 @@ export class WebviewProvider {
 		webviewView.onDidChangeVisibility(() => {
 			if (webviewView.visible) {
 				this._updateConnectionStatus();
-				this._sendToWebview({ type: 'conversationHistory', data: this._conversationHistory });
+				// Files may have changed while the view was hidden
+				this._answerChecks = new WeakMap();
+				this._postConversation();
+				this.refreshWorkspaceRoots();
 			}
 		});
 	}
 
+	// Push the workspace roots and the current query selection to the webview
+	public refreshWorkspaceRoots(): void {
+		const selected = getSelectedRoots();
+		const roots = (vscode.workspace.workspaceFolders || []).map(folder => ({
+			name: folder.name,
+			root: folder.uri.fsPath,
+			selected: selected.length === 0 || selected.includes(folder.uri.fsPath)
+		}));
+		this._sendToWebview({ type: 'workspaceRoots', data: roots });
+	}
+
+	public refreshSettings(): void {
+		this._sendSettings();
+	}
+
+	public postConnectionStatus(status: ConnectionStatus): void {
+		this._connectionStatus = status;
+		this._sendToWebview({ type: 'connectionStatus', data: status });
+	}
+
+	// Send the outgoing context list again after exclusions changed
+	public async refreshContextPreview(): Promise<void> {
+		if (!this._webview) {
+			return;
+		}
+		try {
+			this._sendToWebview({ type: 'contextPreview', data: await getOutgoingContextPreview() });
+		} catch (error: any) {
+			this._sendToWebview({ type: 'error', data: `Could not build the context preview: ${error.message}` });
+		}
+	}
+
+	// Report analysis progress in the sidebar status line
+	public postAnalysisStatus(status: string): void {
+		this._sendToWebview({ type: 'analysisStatus', data: status });
+	}
+
+	// Run a query from the editor in the sidebar; the label is what the conversation shows as the question
+	public async askFromEditor(label: string, query: EditorQuery): Promise<void> {
+		await vscode.commands.executeCommand('aiCodeSnippetRag.sidebar.focus');
+		await this._handleQuery(label, query);
+	}
+
 	private async _handleMessage(message: WebviewMessage): Promise<void> {
 		switch (message.type) {
 			case 'query':
 				await this._handleQuery(message.data);
 				break;
+			case 'cancelQuery':
+				this._handleCancelQuery();
+				break;
 			case 'testConnection':
 				await this._handleTestConnection();
 				break;
+			case 'getConnectionStatus':
+				await this._updateConnectionStatus();
+				break;
 			case 'rebuildAnalysis':
 				await this._handleRebuildAnalysis();
 				break;
 			case 'getSettings':
 				this._sendSettings();
 				break;
+			case 'getWorkspaceRoots':
+				this.refreshWorkspaceRoots();
+				break;
+			case 'setSelectedRoots':
+				await this._handleSetSelectedRoots(message.data);
+				break;
 			case 'updateSettings':
 				await this._handleUpdateSettings(message.data);
 				break;
+			case 'openAnswer':
+			case 'copyAnswer':
+			case 'insertAnswer':
+			case 'compareAnswer':
+				await vscode.commands.executeCommand(`aiCodeSnippetRag.${message.type}`, message.data);
+				break;
+			case 'getConversations':
+				await this._postConversation();
+				break;
+			case 'newConversation':
+				await this.newConversation();
+				break;
+			case 'switchConversation':
+				await this.switchConversation(message.data?.id, message.data?.messageIndex);
+				break;
+			case 'renameConversation':
+				await this.renameConversation(message.data?.id);
+				break;
+			case 'deleteConversation':
+				await this.deleteConversation(message.data?.id);
+				break;
+			case 'exportConversation':
+				await this.exportConversation(message.data?.id);
+				break;
+			case 'searchConversations':
+				this._sendToWebview({ type: 'conversationSearchResults', data: await this.searchConversations(message.data || '') });
+				break;
+			case 'getContextPreview':
+				await this.refreshContextPreview();
+				break;
+			case 'previewOutgoingContext':
+				await vscode.commands.executeCommand('aiCodeSnippetRag.previewOutgoingContext');
+				break;
+			case 'excludeFromContext':
+				await excludeFromContext(message.data.workspaceRoot, message.data.path);
+				break;
+			case 'restoreContextPath':
+				restoreContextPath(message.data.workspaceRoot, message.data.path);
+				await this.refreshContextPreview();
+				break;
+			case 'openLink':
+				await this._openLink(message.data);
+				break;
+			case 'rateAnswer':
+				await this._handleRateAnswer(message.data);
+				break;
+			case 'setApiToken':
+				await vscode.commands.executeCommand('aiCodeSnippetRag.setApiToken');
+				break;
+			case 'clearApiToken':
+				await vscode.commands.executeCommand('aiCodeSnippetRag.clearApiToken');
+				break;
 			default:
 				console.warn('Unknown message type:', message.type);
 		}
 	}
 
-	private async _handleQuery(queryText: string): Promise<void> {
+	// Forward streamed events so the webview can show answers before the query completes
+	private _postStreamEvent(event: QueryStreamEvent): void {
+		switch (event.type) {
+			case 'answer':
+				this._sendToWebview({ type: 'queryStreamAnswer', data: { ...event.answer, languageId: answerLanguageId(event.answer) } });
+				break;
+			case 'explanation':
+				this._sendToWebview({ type: 'queryStreamExplanation', data: { index: event.index, text: event.text } });
+				break;
+			case 'notice':
+				this._sendToWebview({ type: 'queryStreamNotice', data: event.text });
+				break;
+			case 'reply':
+				this._sendToWebview({ type: 'queryStreamReply', data: event.text });
+				break;
+		}
+	}
+
+	private async _handleQuery(queryText: string, editorQuery?: EditorQuery): Promise<void> {
 		if (!queryText || !queryText.trim()) {
 			return;
 		}
 
+		// Only one query runs at a time; a new one replaces whatever is still running
+		this._handleCancelQuery();
+		const controller = new AbortController();
+		const session = this._conversations.active;
+		this._activeQuery = { controller, session };
+		// Earlier turns go with the query so follow-ups can refer to them
+		const history = turnsFromMessages(session.messages);
+
 		// Add user message to history
-		this._conversationHistory.push({
+		await this._conversations.append(session, {
 			role: 'user',
 			content: queryText,
 			timestamp: Date.now()
 		});
-		this._sendToWebview({ type: 'conversationHistory', data: this._conversationHistory });
+		await this._postConversation();
 
 		// Show loading state
 		this._sendToWebview({ type: 'queryLoading', data: true });
 
 		try {
 			// Use imported functions from extension
-			const analysis = await analyzeWorkspace();
+			const allAnalyses = await analyzeWorkspace();
 			
-			if (!analysis) {
+			if (allAnalyses.length === 0) {
 				throw new Error('Could not analyze workspace. Please ensure a workspace is open.');
 			}
 
+			const filtered = filterAnalysesByRoots(allAnalyses, getSelectedRoots());
+			if (filtered.unknown.length > 0) {
+				throw new Error(describeUnknownRoots(filtered.unknown, allAnalyses));
+			}
+			const analyses = filtered.analyses;
 			const editorContext = getActiveEditorContext();
+			// The chat's slash commands also work typed at the start of a sidebar question
+			const slash = parseSlashCommand(queryText);
+			const command = editorQuery ?? resolveCommand(slash.command, slash.prompt, vscode.window.activeTextEditor);
+			if ('error' in command) {
+				throw new Error(command.error);
+			}
+			const editor = vscode.window.activeTextEditor;
+			const anchor = editorQuery ? editorQuery.anchor : (editor ? await this._outgoingFilter.editorAnchor(editor.document) : undefined);
+			const context: AnswerContext = { query: command.query, intent: command.intent, fingerprint: getQueryFingerprint(analyses) };
 			const queryResponse = await sendQuery(
-				queryText,
-				analysis,
+				command.query,
+				analyses,
 				editorContext.file,
-				editorContext.selection
+				editorContext.selection,
+				{
+					// Streamed answers are only shown while their conversation is
+					onEvent: event => {
+						if (this._conversations.active === session) {
+							this._postStreamEvent(event);
+						}
+					},
+					signal: controller.signal,
+					history,
+					intent: command.intent,
+					anchor
+				}
 			);
 
 			if (!queryResponse) {
@@ -125,11 +314,15 @@ export class WebviewProvider {
 			// Render response
 			const markdown = renderResponse(queryResponse);
 			
-			// Add assistant response to history
-			this._conversationHistory.push({
+			// Add assistant response to history, keeping the answers themselves for later sessions and exports
+			await this._conversations.append(session, {
 				role: 'assistant',
 				content: markdown,
-				timestamp: Date.now()
+				timestamp: Date.now(),
+				answers: queryResponse.answers || [],
+				notice: queryResponse.notice,
+				reply: queryResponse.reply,
+				context: { ...context, local: queryResponse.local }
 			});
 
 			this._sendToWebview({ 
@@ -139,29 +332,224 @@ export class WebviewProvider {
 					answers: queryResponse.answers 
 				} 
 			});
-			this._sendToWebview({ type: 'conversationHistory', data: this._conversationHistory });
+			await this._postConversation();
 		} catch (error: any) {
+			if (error instanceof RequestCancelledError) {
+				// _handleCancelQuery has already recorded it and released the UI
+				return;
+			}
 			const errorMessage = `**Error:** ${error.message}`;
-			this._conversationHistory.push({
+			await this._conversations.append(session, {
 				role: 'assistant',
 				content: errorMessage,
 				timestamp: Date.now()
 			});
 			this._sendToWebview({ type: 'error', data: error.message });
-			this._sendToWebview({ type: 'conversationHistory', data: this._conversationHistory });
+			await this._postConversation();
 		} finally {
-			this._sendToWebview({ type: 'queryLoading', data: false });
+			if (this._activeQuery?.controller === controller) {
+				this._activeQuery = undefined;
+				this._sendToWebview({ type: 'queryLoading', data: false });
+			}
 		}
 	}
 
-	private async _handleTestConnection(): Promise<void> {
-		this._connectionStatus = 'checking';
-		this._sendToWebview({ type: 'connectionStatus', data: this._connectionStatus });
+	// Abort the running query and make the sidebar ready for the next question without waiting for it to unwind
+	private _handleCancelQuery(): void {
+		const query = this._activeQuery;
+		if (!query) {
+			return;
+		}
 
-		const connected = await testConnection();
-		
-		this._connectionStatus = connected ? 'connected' : 'disconnected';
-		this._sendToWebview({ type: 'connectionStatus', data: this._connectionStatus });
+		this._activeQuery = undefined;
+		query.controller.abort();
+		this._conversations.append(query.session, {
+			role: 'assistant',
+			content: 'Query cancelled.',
+			timestamp: Date.now()
+		});
+		this._postConversation();
+		this._sendToWebview({ type: 'queryLoading', data: false });
+	}
+
+	// Send the active conversation, with its answers checked against the workspace, and the session list
+	private async _postConversation(): Promise<void> {
+		const session = this._conversations.active;
+		// Ratings change without the answers changing, so they are looked up on every post
+		const messages = await Promise.all(session.messages.map(async message => message.answers
+			? { ...message, answers: (await this._checkAnswers(message)).map(answer => this._withRating(message, answer)) }
+			: message));
+		this._sendToWebview({ type: 'conversationHistory', data: messages });
+		this._sendToWebview({ type: 'conversations', data: this._conversations.list() });
+	}
+
+	private _checkAnswers(message: ConversationMessage): Promise<SidebarAnswer[]> {
+		let checks = this._answerChecks.get(message);
+		if (!checks) {
+			checks = Promise.all((message.answers || []).map(async answer => {
+				const location = await locateAnswer(answer);
+				return {
+					...answer,
+					languageId: answerLanguageId(answer),
+					state: location?.state,
+					note: describeAnswerState(answer, location),
+					navigable: location?.uri !== undefined,
+					rateable: message.context !== undefined
+				};
+			}));
+			this._answerChecks.set(message, checks);
+		}
+		return checks;
+	}
+
+	private _withRating(message: ConversationMessage, answer: SidebarAnswer): SidebarAnswer {
+		return message.context ? { ...answer, rating: getAnswerRating(message.context, answer) } : answer;
+	}
+
+	// Rate an answer of the active conversation; the card shows the rating once it is recorded
+	private async _handleRateAnswer(data: { messageIndex: number; answerIndex: number; rating: FeedbackRating }): Promise<void> {
+		const message = this._conversations.active.messages[data.messageIndex];
+		const answer = message?.answers?.[data.answerIndex];
+		if (!message?.context || !answer) {
+			return;
+		}
+		const status = await vscode.commands.executeCommand('aiCodeSnippetRag.rateAnswer', { context: message.context, answer, rating: data.rating });
+		if (status) {
+			this._sendToWebview({
+				type: 'answerRated',
+				data: { messageIndex: data.messageIndex, answerIndex: data.answerIndex, rating: getAnswerRating(message.context, answer) }
+			});
+		}
+	}
+
+	public async newConversation(): Promise<void> {
+		// A conversation nobody has asked anything in yet is reused
+		if (this._conversations.active.messages.length > 0) {
+			await this._conversations.create();
+		}
+		await this._postConversation();
+	}
+
+	// Switch to a conversation, picked from a list when no id is given
+	public async switchConversation(id?: string, messageIndex?: number): Promise<void> {
+		if (!id) {
+			const pick = await vscode.window.showQuickPick(
+				this._conversations.list().map(summary => ({
+					label: summary.name,
+					description: `${summary.messageCount} messages${summary.active ? ' · current' : ''}`,
+					detail: `Last updated ${new Date(summary.updatedAt).toLocaleString()}`,
+					id: summary.id
+				})),
+				{ placeHolder: 'Switch to conversation', matchOnDescription: true }
+			);
+			id = pick?.id;
+		}
+		if (!id || !(await this._conversations.switchTo(id))) {
+			return;
+		}
+
+		this._answerChecks = new WeakMap();
+		await this._postConversation();
+		if (messageIndex !== undefined && messageIndex >= 0) {
+			this._sendToWebview({ type: 'revealMessage', data: messageIndex });
+		}
+	}
+
+	public async renameConversation(id = this._conversations.active.id): Promise<void> {
+		const session = this._conversations.get(id);
+		if (!session) {
+			return;
+		}
+		const name = await vscode.window.showInputBox({
+			prompt: 'Conversation name',
+			value: sessionName(session),
+			placeHolder: 'Leave empty to name it after its first question'
+		});
+		if (name !== undefined) {
+			await this._conversations.rename(id, name);
+			await this._postConversation();
+		}
+	}
+
+	public async deleteConversation(id = this._conversations.active.id): Promise<void> {
+		const session = this._conversations.get(id);
+		if (!session) {
+			return;
+		}
+		if (session.messages.length > 0) {
+			const choice = await vscode.window.showWarningMessage(`Delete the conversation "${sessionName(session)}" and its ${session.messages.length} messages?`, { modal: true }, 'Delete');
+			if (choice !== 'Delete') {
+				return;
+			}
+		}
+		if (this._activeQuery?.session === session) {
+			this._handleCancelQuery();
+		}
+		await this._conversations.delete(id);
+		await this._postConversation();
+	}
+
+	// Save a conversation as Markdown or JSON, e.g. to attach the thread to a code review
+	public async exportConversation(id = this._conversations.active.id): Promise<void> {
+		const session = this._conversations.get(id);
+		if (!session || session.messages.length === 0) {
+			vscode.window.showInformationMessage('AI Code Snippet RAG: The conversation is empty, there is nothing to export');
+			return;
+		}
+
+		const baseName = sessionName(session).replace(/[^\w\- ]+/g, '').trim().replace(/\s+/g, '-').substring(0, 40) || 'conversation';
+		const defaultFolder = vscode.workspace.workspaceFolders?.[0]?.uri;
+		const target = await vscode.window.showSaveDialog({
+			defaultUri: defaultFolder ? vscode.Uri.joinPath(defaultFolder, `${baseName}.md`) : undefined,
+			filters: { 'Markdown': ['md'], 'JSON': ['json'] },
+			saveLabel: 'Export'
+		});
+		if (!target) {
+			return;
+		}
+
+		const content = target.path.toLowerCase().endsWith('.json') ? conversationToJson(session) : conversationToMarkdown(session);
+		await vscode.workspace.fs.writeFile(target, Buffer.from(content, 'utf-8'));
+		const choice = await vscode.window.showInformationMessage(`AI Code Snippet RAG: Conversation exported to ${target.fsPath}`, 'Open');
+		if (choice === 'Open') {
+			await vscode.window.showTextDocument(target);
+		}
+	}
+
+	// Search every conversation; without text, ask for it and list the matches in a quick pick
+	public async searchConversations(text?: string): Promise<ConversationSearchResult[]> {
+		if (text !== undefined) {
+			return this._conversations.search(text);
+		}
+
+		const query = await vscode.window.showInputBox({ prompt: 'Search conversations', placeHolder: 'Text in a question, answer, file or conversation name' });
+		if (!query) {
+			return [];
+		}
+		const results = this._conversations.search(query);
+		if (results.length === 0) {
+			vscode.window.showInformationMessage(`AI Code Snippet RAG: No conversation mentions "${query}"`);
+			return results;
+		}
+		const pick = await vscode.window.showQuickPick(
+			results.map(result => ({
+				label: result.sessionName,
+				description: result.messageIndex >= 0 ? (result.role === 'user' ? 'question' : 'answer') : 'name',
+				detail: result.excerpt,
+				result
+			})),
+			{ placeHolder: `${results.length} match(es) for "${query}"`, matchOnDetail: true }
+		);
+		if (pick) {
+			await vscode.commands.executeCommand('workbench.view.extension.aiCodeSnippetRag');
+			await this.switchConversation(pick.result.sessionId, pick.result.messageIndex);
+		}
+		return results;
+	}
+
+	// Status updates reach the webview through postConnectionStatus
+	private async _handleTestConnection(): Promise<void> {
+		await testConnection();
 	}
 
 	private async _handleRebuildAnalysis(): Promise<void> {
@@ -169,21 +557,45 @@ export class WebviewProvider {
 		this._sendToWebview({ type: 'analysisRebuilt', data: true });
 	}
 
+	private async _handleSetSelectedRoots(roots: string[]): Promise<void> {
+		const folderCount = vscode.workspace.workspaceFolders?.length ?? 0;
+		// Selecting every root is stored as "all" so newly added roots are included too
+		await setSelectedRoots(Array.isArray(roots) && roots.length < folderCount ? roots : []);
+		this.refreshWorkspaceRoots();
+	}
+
 	private _sendSettings(): void {
 		const config = vscode.workspace.getConfiguration('aiCodeSnippetRag');
 		this._sendToWebview({
 			type: 'settings',
 			data: {
+				// The sidebar shows the provider and the fields of its server
+				provider: getProviderInfo(),
+				openaiBaseUrl: config.get<string>('openai.baseUrl', 'http://localhost:11434/v1'),
+				openaiModel: config.get<string>('openai.model', ''),
 				serverUrl: config.get<string>('serverUrl', 'http://localhost:8000'),
 				requestTimeoutMs: config.get<number>('requestTimeoutMs', 20000),
 				maxFiles: config.get<number>('maxFiles', 5000),
-				maxBytesPerFile: config.get<number>('maxBytesPerFile', 40000)
+				maxBytesPerFile: config.get<number>('maxBytesPerFile', 40000),
+				// Only whether a token exists; the token itself never reaches the webview
+				apiTokenSet: hasApiToken()
 			}
 		});
 	}
 
 	private async _handleUpdateSettings(settings: any): Promise<void> {
 		const config = vscode.workspace.getConfiguration('aiCodeSnippetRag');
+		if (settings.provider !== undefined) {
+			// Offline mode would override the choice; picking the offline provider covers it
+			await config.update('provider', settings.provider, vscode.ConfigurationTarget.Global);
+			await config.update('useHardcodedResponse', false, vscode.ConfigurationTarget.Global);
+		}
+		if (settings.openaiBaseUrl !== undefined) {
+			await config.update('openai.baseUrl', settings.openaiBaseUrl, vscode.ConfigurationTarget.Global);
+		}
+		if (settings.openaiModel !== undefined) {
+			await config.update('openai.model', settings.openaiModel, vscode.ConfigurationTarget.Global);
+		}
 		if (settings.serverUrl !== undefined) {
 			await config.update('serverUrl', settings.serverUrl, vscode.ConfigurationTarget.Global);
 		}
@@ -199,10 +611,10 @@ export class WebviewProvider {
 		this._sendSettings();
 	}
 
+	// Show the last known status at once, then refresh it without the notifications of "Test Connection"
 	private async _updateConnectionStatus(): Promise<void> {
-		const connected = await testConnection();
-		this._connectionStatus = connected ? 'connected' : 'disconnected';
 		this._sendToWebview({ type: 'connectionStatus', data: this._connectionStatus });
+		await checkBackendHealth();
 	}
 
 	private _sendToWebview(message: WebviewMessage): void {
@@ -218,15 +630,37 @@ export class WebviewProvider {
 
 		// Replace placeholders with actual resource URIs
 		const scriptUri = webview.asWebviewUri(vscode.Uri.joinPath(this._context.extensionUri, 'src', 'webview', 'script.js'));
+		const markdownUri = webview.asWebviewUri(vscode.Uri.joinPath(this._context.extensionUri, 'src', 'webview', 'markdown.js'));
+		const highlightUri = webview.asWebviewUri(vscode.Uri.joinPath(this._context.extensionUri, 'src', 'webview', 'highlight.js'));
 		const styleUri = webview.asWebviewUri(vscode.Uri.joinPath(this._context.extensionUri, 'src', 'webview', 'styles.css'));
+		// Only scripts carrying this page's nonce run
+		const nonce = crypto.randomBytes(16).toString('base64');
 
 		html = html.replace('${scriptUri}', scriptUri.toString());
+		html = html.replace('${markdownUri}', markdownUri.toString());
+		html = html.replace('${highlightUri}', highlightUri.toString());
 		html = html.replace('${styleUri}', styleUri.toString());
 		html = html.replace(/\${cspSource}/g, webview.cspSource);
+		html = html.replace(/\${nonce}/g, nonce);
 
 		return html;
 	}
 
+	// Links in answers come from the backend; only web and mail links are opened
+	private async _openLink(url: string): Promise<void> {
+		let uri: vscode.Uri;
+		try {
+			uri = vscode.Uri.parse(url, true);
+		} catch (error) {
+			return;
+		}
+		if (!['http', 'https', 'mailto'].includes(uri.scheme)) {
+			this._outputChannel.appendLine(`Refused to open a link with the ${uri.scheme}: scheme from an answer`);
+			return;
+		}
+		await vscode.env.openExternal(uri);
+	}
+
 	public dispose(): void {
 		WebviewProvider.instance = undefined;
 		this._disposables.forEach(d => d.dispose());
@@ -0,0 +1,71 @@
+import * as vscode from 'vscode';
+
+export interface FileChange {
+	uri: vscode.Uri;
+	kind: 'created' | 'changed' | 'deleted';
+}
+
+// Delay before a burst of file events is applied, so saves and branch switches are batched
+const DEBOUNCE_MS = 500;
+
+export class WorkspaceWatcher implements vscode.Disposable {
+	private _disposables: vscode.Disposable[] = [];
+	private _pending: Map<string, FileChange> = new Map();
+	private _timer: NodeJS.Timeout | undefined;
+	private _flushing: Promise<void> = Promise.resolve();
+
+	constructor(private readonly _onChanges: (changes: FileChange[]) => Promise<void>, private readonly _outputChannel: vscode.OutputChannel) {
+		const watcher = vscode.workspace.createFileSystemWatcher('**/*');
+		this._disposables.push(
+			watcher,
+			watcher.onDidCreate(uri => this._enqueue(uri, 'created')),
+			watcher.onDidChange(uri => this._enqueue(uri, 'changed')),
+			watcher.onDidDelete(uri => this._enqueue(uri, 'deleted')),
+			// Saves are reported even where the file watcher is unreliable (network drives, WSL)
+			vscode.workspace.onDidSaveTextDocument(document => this._enqueue(document.uri, 'changed')),
+			vscode.workspace.onDidRenameFiles(event => {
+				for (const file of event.files) {
+					this._enqueue(file.oldUri, 'deleted');
+					this._enqueue(file.newUri, 'created');
+				}
+			})
+		);
+	}
+
+	private _enqueue(uri: vscode.Uri, kind: FileChange['kind']): void {
+		// A later event for the same file wins, except that "created" stays "created"
+		const key = uri.toString();
+		const previous = this._pending.get(key);
+		if (previous?.kind === 'created' && kind === 'changed') {
+			return;
+		}
+		this._pending.set(key, { uri, kind });
+
+		if (this._timer) {
+			clearTimeout(this._timer);
+		}
+		this._timer = setTimeout(() => this._flush(), DEBOUNCE_MS);
+	}
+
+	private _flush(): void {
+		this._timer = undefined;
+		const changes = Array.from(this._pending.values());
+		this._pending.clear();
+		if (changes.length === 0) {
+			return;
+		}
+
+		// Batches are applied one after another so they never interleave
+		this._flushing = this._flushing
+			.then(() => this._onChanges(changes))
+			.catch(error => this._outputChannel.appendLine(`Failed to apply file changes: ${error.message}`));
+	}
+
+	public dispose(): void {
+		if (this._timer) {
+			clearTimeout(this._timer);
+		}
+		this._pending.clear();
+		this._disposables.forEach(d => d.dispose());
+	}
+}